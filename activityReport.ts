@@ -0,0 +1,273 @@
+import { Mission, Settings, UserProfile } from './types';
+import { TRANSLATIONS } from './constants';
+import { DOCX_MIME, renderTemplate } from './templates';
+import { DOCX_PDF_LAYOUT_ID, getActivePdfLayout, pdfText, pickPdfFont } from './pdf';
+import { docxToPdfBlob } from './docxToPdf';
+
+declare const pdfMake: any;
+
+// --- Monthly Activity Report ---
+// A single summary of every mission in a date range: one table row per mission plus the
+// total days in the field, total hours worked and the number of missions per location.
+
+// Placeholders available in activity report templates
+export const ACTIVITY_REPORT_TAGS = ['periodStart', 'periodEnd', 'missionCount', 'totalDays', 'totalHours', 'fullName', 'profession', 'cni', 'ppn'];
+
+// Loops, with the fields available inside each iteration, e.g. {#missions}{date} {title}{/missions}
+export const ACTIVITY_REPORT_LOOPS: Record<string, string[]> = {
+    missions: ['date', 'finishDate', 'title', 'location', 'startTime', 'finishTime', 'days', 'hours', 'notes'],
+    locations: ['location', 'count', 'days']
+};
+
+export interface ActivityRow {
+    mission: Mission;
+    days: number; // Days of the mission that fall inside the period
+    minutes: number;
+}
+
+export interface LocationCount {
+    location: string;
+    count: number;
+    days: number;
+}
+
+export interface ActivitySummary {
+    start: string; // YYYY-MM-DD
+    end: string;
+    rows: ActivityRow[];
+    totalDays: number; // Distinct calendar days with at least one mission
+    totalMinutes: number;
+    locations: LocationCount[];
+}
+
+const MS_PER_DAY = 86400000;
+
+const dayNumber = (iso: string) => {
+    const [y, m, d] = iso.split('-').map(Number);
+    return Date.UTC(y, m - 1, d) / MS_PER_DAY;
+};
+
+const toMinutes = (time?: string): number | null => {
+    if (!time) return null;
+    const [h, m] = time.split(':').map(Number);
+    return isNaN(h) || isNaN(m) ? null : h * 60 + m;
+};
+
+// A finish time earlier than the start time is read as finishing after midnight
+const spanMinutes = (startTime?: string, finishTime?: string) => {
+    const start = toMinutes(startTime);
+    const finish = toMinutes(finishTime);
+    if (start === null || finish === null) return 0;
+    return finish >= start ? finish - start : finish + 24 * 60 - start;
+};
+
+export const formatDuration = (minutes: number) => `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Days and working minutes of the part of a mission that falls between day numbers `from` and `to`
+const measure = (mission: Mission, from: number, to: number) => {
+    const first = Math.max(from, dayNumber(mission.date));
+    const last = Math.min(to, Math.max(dayNumber(mission.finishDate || mission.date), dayNumber(mission.date)));
+    const days = last - first + 1;
+
+    // Itinerary days carry their own hours; otherwise the mission's start and finish
+    // times are taken as the daily schedule of every day it spans
+    const entries = (mission.itinerary || []).filter(e => e.date && dayNumber(e.date) >= from && dayNumber(e.date) <= to);
+    const itineraryMinutes = entries.reduce((sum, e) => sum + spanMinutes(e.startTime, e.finishTime), 0);
+    const minutes = itineraryMinutes > 0 ? itineraryMinutes : spanMinutes(mission.startTime, mission.finishTime) * days;
+    return { first, last, days, minutes };
+};
+
+export const missionDuration = (mission: Mission): { days: number; minutes: number } => {
+    const { days, minutes } = measure(mission, -Infinity, Infinity);
+    return { days, minutes };
+};
+
+export const summarizeMissions = (missions: Mission[], start: string, end: string): ActivitySummary => {
+    const from = dayNumber(start);
+    const to = dayNumber(end);
+    const fieldDays = new Set<number>();
+    const byLocation = new Map<string, LocationCount>();
+
+    const rows = missions
+        .filter(m => dayNumber(m.date) <= to && dayNumber(m.finishDate || m.date) >= from)
+        .sort((a, b) => a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || ''))
+        .map(mission => {
+            const { first, last, days, minutes } = measure(mission, from, to);
+            for (let d = first; d <= last; d++) fieldDays.add(d);
+
+            const name = mission.location.trim();
+            const key = name.toLocaleLowerCase();
+            const location = byLocation.get(key) || { location: name, count: 0, days: 0 };
+            byLocation.set(key, { ...location, count: location.count + 1, days: location.days + days });
+
+            return { mission, days, minutes };
+        });
+
+    return {
+        start,
+        end,
+        rows,
+        totalDays: fieldDays.size,
+        totalMinutes: rows.reduce((sum, r) => sum + r.minutes, 0),
+        locations: Array.from(byLocation.values()).sort((a, b) => b.count - a.count || a.location.localeCompare(b.location))
+    };
+};
+
+export const activityReportFileName = (summary: ActivitySummary, ext: 'docx' | 'pdf') => `Activity_Report_${summary.start}_to_${summary.end}.${ext}`;
+
+const templateValues = (summary: ActivitySummary, profile: UserProfile) => ({
+    periodStart: summary.start,
+    periodEnd: summary.end,
+    missionCount: String(summary.rows.length),
+    totalDays: String(summary.totalDays),
+    totalHours: formatDuration(summary.totalMinutes),
+    fullName: profile.fullName || "",
+    profession: profile.profession || "",
+    cni: profile.cni || "",
+    ppn: profile.ppn || "",
+    missions: summary.rows.map(({ mission, days, minutes }) => ({
+        date: mission.date,
+        finishDate: mission.finishDate || mission.date,
+        title: mission.title || "",
+        location: mission.location || "",
+        startTime: mission.startTime || "",
+        finishTime: mission.finishTime || "",
+        days: String(days),
+        hours: minutes > 0 ? formatDuration(minutes) : "",
+        notes: mission.notes || ""
+    })),
+    locations: summary.locations.map(l => ({ location: l.location || "-", count: String(l.count), days: String(l.days) }))
+});
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Builds the built-in activity report template in the requested language, used when the
+// user has not uploaded their own.
+const buildDefaultTemplate = (settings: Settings): ArrayBuffer => {
+    const PizZip = (window as any).PizZip;
+    if (!PizZip) throw new Error("PizZip library not loaded.");
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const rtl = settings.language === 'ar';
+    const pPr = (extra = '') => `<w:pPr>${rtl ? '<w:bidi/>' : ''}${extra}</w:pPr>`;
+    const run = (text: string, bold = false, size = 22) =>
+        `<w:r><w:rPr>${bold ? '<w:b/><w:bCs/>' : ''}<w:sz w:val="${size}"/><w:szCs w:val="${size}"/>${rtl ? '<w:rtl/>' : ''}</w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+    const paragraph = (content: string, extra = '') => `<w:p>${pPr(extra)}${content}</w:p>`;
+    const cell = (text: string, bold = false) => `<w:tc><w:tcPr>${bold ? '<w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/>' : ''}</w:tcPr>${paragraph(run(text, bold, 20))}</w:tc>`;
+    const table = (headers: string[], loop: string, fields: string[]) => {
+        const cells = fields.map((f, i) => `${i === 0 ? `{#${loop}}` : ''}{${f}}${i === fields.length - 1 ? `{/${loop}}` : ''}`);
+        const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`;
+        return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/>${rtl ? '<w:bidiVisual/>' : ''}<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders></w:tblPr>`
+            + `<w:tblGrid>${headers.map(() => `<w:gridCol w:w="${Math.floor(9000 / headers.length)}"/>`).join('')}</w:tblGrid>`
+            + `<w:tr><w:trPr><w:tblHeader/></w:trPr>${headers.map(h => cell(h, true)).join('')}</w:tr>`
+            + `<w:tr>${cells.map(c => cell(c)).join('')}</w:tr></w:tbl>`;
+    };
+    const spacing = '<w:spacing w:after="120"/>';
+
+    const body = [
+        paragraph(run(t.activityReport, true, 32), '<w:jc w:val="center"/><w:spacing w:after="240"/>'),
+        paragraph(run(`${t.period}: {periodStart} - {periodEnd}`), spacing),
+        paragraph(run(`${t.reporter}: {fullName} - {profession}`), spacing),
+        paragraph(run(`${t.missionCount}: {missionCount}    ${t.totalDays}: {totalDays}    ${t.totalHours}: {totalHours}`, true), '<w:spacing w:after="240"/>'),
+        table([t.date, t.title, t.location, t.days, t.hours], 'missions', ['date', 'title', 'location', 'days', 'hours']),
+        paragraph(run(t.perLocation, true, 24), '<w:spacing w:before="360" w:after="120"/>'),
+        table([t.location, t.missionCount, t.days], 'locations', ['location', 'count', 'days']),
+        `<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`
+    ].join('');
+
+    const zip = new PizZip();
+    zip.file('[Content_Types].xml', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>');
+    zip.file('_rels/.rels', '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>');
+    zip.file('word/document.xml', `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><w:body>${body}</w:body></w:document>`);
+    return zip.generate({ type: "arraybuffer" });
+};
+
+export const generateActivityReportDocx = (summary: ActivitySummary, profile: UserProfile, settings: Settings): Blob => {
+    const template = settings.activityTemplate ? settings.activityTemplate.data : buildDefaultTemplate(settings);
+    return new Blob([renderTemplate(template, templateValues(summary, profile))], { type: DOCX_MIME });
+};
+
+export const generateActivityReportPdf = async (summary: ActivitySummary, profile: UserProfile, settings: Settings): Promise<Blob> => {
+    // Users who print PDFs from their Word templates get the activity template converted the same way
+    if (settings.activePdfLayoutId === DOCX_PDF_LAYOUT_ID) {
+        return docxToPdfBlob(await generateActivityReportDocx(summary, profile, settings).arrayBuffer());
+    }
+    if (typeof pdfMake === 'undefined') {
+        throw new Error("PDF generation library not loaded. Internet connection required for first load.");
+    }
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const layout = getActivePdfLayout(settings, t.activityReport, t.generatedBy);
+    const rtl = settings.language === 'ar';
+    const align = rtl ? 'right' : 'left';
+    const font = await pickPdfFont(rtl, [layout.footerText, profile.fullName, profile.profession, ...summary.rows.flatMap(r => [r.mission.title, r.mission.location])]);
+
+    const txt = (value: string, maxChars?: number) => pdfText(value || '', rtl, maxChars);
+    const mirror = <T,>(cells: T[]) => rtl ? [...cells].reverse() : cells;
+    const header = (text: string) => ({ text: txt(text), bold: true, fillColor: '#f3f4f6', alignment: align });
+    const cell = (text: string, maxChars?: number) => ({ text: txt(text, maxChars), alignment: align });
+
+    const docDefinition = {
+        pageSize: layout.pageSize,
+        content: [
+            ...(layout.logo ? [{ image: layout.logo, fit: [160, 60], alignment: 'center', margin: [0, 0, 0, 10] }] : []),
+            { text: txt(t.activityReport), style: 'header', alignment: 'center', margin: [0, 0, 0, 5] },
+            { text: `${summary.start} - ${summary.end}`, alignment: 'center', color: '#6b7280', margin: [0, 0, 0, 20] },
+            {
+                table: {
+                    widths: mirror(['40%', '60%']),
+                    body: [
+                        mirror([header(t.reporter), cell(profile.fullName)]),
+                        mirror([header(t.missionCount), cell(String(summary.rows.length))]),
+                        mirror([header(t.totalDays), cell(String(summary.totalDays))]),
+                        mirror([header(t.totalHours), cell(formatDuration(summary.totalMinutes))])
+                    ]
+                },
+                layout: 'lightHorizontalLines',
+                margin: [0, 0, 0, 20]
+            },
+            {
+                table: {
+                    headerRows: 1,
+                    widths: mirror(['auto', '*', '25%', 'auto', 'auto']),
+                    body: [
+                        mirror([t.date, t.title, t.location, t.days, t.hours].map(header)),
+                        ...summary.rows.map(({ mission, days, minutes }) => mirror([
+                            cell(mission.date), cell(mission.title, 35), cell(mission.location, 20), cell(String(days)), cell(minutes > 0 ? formatDuration(minutes) : '')
+                        ]))
+                    ]
+                },
+                layout: 'lightHorizontalLines',
+                fontSize: 10,
+                margin: [0, 0, 0, 20]
+            },
+            { text: txt(t.perLocation), style: 'subheader', alignment: align, margin: [0, 0, 0, 5] },
+            {
+                table: {
+                    headerRows: 1,
+                    widths: mirror(['*', 'auto', 'auto']),
+                    body: [
+                        mirror([t.location, t.missionCount, t.days].map(header)),
+                        ...summary.locations.map(l => mirror([cell(l.location || '-', 50), cell(String(l.count)), cell(String(l.days))]))
+                    ]
+                },
+                layout: 'lightHorizontalLines',
+                fontSize: 10
+            }
+        ],
+        footer: layout.footerText ? () => ({ text: txt(layout.footerText), alignment: 'center', color: '#9ca3af', fontSize: 8, margin: [40, 20, 40, 0] }) : undefined,
+        styles: {
+            header: { fontSize: 18, bold: true, color: '#2563eb' },
+            subheader: { fontSize: 14, bold: true, color: '#374151' }
+        },
+        defaultStyle: {
+            font
+        }
+    };
+
+    return new Promise((resolve, reject) => {
+        try {
+            pdfMake.createPdf(docDefinition).getBlob((blob: Blob) => resolve(blob));
+        } catch (e) {
+            reject(e);
+        }
+    });
+};
@@ -0,0 +1,96 @@
+import { AttachmentRef, Mission, StoredAttachment } from './types';
+import { getAttachment, putAttachment } from './storage';
+
+// --- Mission Attachments ---
+// Photos are downscaled and re-encoded as JPEG; other files are gzipped when the
+// browser supports CompressionStream. Blobs go to IndexedDB, the Mission keeps a reference.
+
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.7;
+
+export const isImage = (ref: { type: string }) => ref.type.startsWith('image/');
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => { URL.revokeObjectURL(url); resolve(img); };
+    img.onerror = () => { URL.revokeObjectURL(url); reject(new Error("Could not read image.")); };
+    img.src = url;
+});
+
+const compressImage = async (file: File): Promise<{ blob: Blob; width: number; height: number }> => {
+    const img = await loadImage(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(img.naturalWidth, img.naturalHeight));
+    const width = Math.round(img.naturalWidth * scale);
+    const height = Math.round(img.naturalHeight * scale);
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d')!;
+    // JPEG has no alpha; transparent PNGs would otherwise turn black
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(img, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+    if (!blob) throw new Error("Image compression failed.");
+    return { blob, width, height };
+};
+
+const gzip = (blob: Blob): Promise<Blob> => new Response(blob.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+const gunzip = (blob: Blob): Promise<Blob> => new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).blob();
+
+// Compresses and stores a picked or captured file, returning the reference to keep on the Mission.
+export const saveAttachment = async (missionId: string, file: File): Promise<AttachmentRef> => {
+    const id = Math.random().toString(36).substr(2, 9);
+    let stored: StoredAttachment;
+    let ref: AttachmentRef;
+
+    if (file.type.startsWith('image/') && file.type !== 'image/gif' && file.type !== 'image/svg+xml') {
+        const { blob, width, height } = await compressImage(file);
+        stored = { id, missionId, blob, compression: 'none' };
+        ref = { id, name: file.name.replace(/\.[^.]+$/, '') + '.jpg', type: 'image/jpeg', size: blob.size, width, height };
+    } else {
+        const canGzip = typeof CompressionStream !== 'undefined';
+        const blob = canGzip ? await gzip(file) : file;
+        stored = { id, missionId, blob, compression: canGzip ? 'gzip' : 'none' };
+        ref = { id, name: file.name, type: file.type || 'application/octet-stream', size: blob.size };
+    }
+    await putAttachment(stored);
+    return ref;
+};
+
+// Returns the original file content, or null if the blob is missing from storage.
+export const loadAttachmentBlob = async (ref: AttachmentRef): Promise<Blob | null> => {
+    const stored = await getAttachment(ref.id);
+    if (!stored) return null;
+    const blob = stored.compression === 'gzip' ? await gunzip(stored.blob) : stored.blob;
+    return new Blob([blob], { type: ref.type });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+export interface LoadedImage {
+    ref: AttachmentRef;
+    blob: Blob;
+}
+
+// Image attachments of a mission, for embedding in generated reports. Missing blobs are skipped.
+export const loadMissionImages = async (mission: Mission): Promise<LoadedImage[]> => {
+    const images: LoadedImage[] = [];
+    for (const ref of (mission.attachments || []).filter(isImage)) {
+        const blob = await loadAttachmentBlob(ref);
+        if (blob) images.push({ ref, blob });
+    }
+    return images;
+};
+
+export const formatFileSize = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
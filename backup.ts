@@ -0,0 +1,211 @@
+import { BackupAttachment, BackupFile, Mission, RestoreMode, Settings, Template, UserProfile } from './types';
+import { deleteAttachments, getAttachment, loadActiveProfileId, loadAttachmentIds, loadMissions, loadProfiles, loadSettings, putAttachment } from './storage';
+import { DEFAULT_PROFILE_ID, assignOwner, createProfileId, findProfile } from './profiles';
+import { blobToDataUrl } from './attachments';
+
+// --- JSON Backup & Restore ---
+// Version 2 added the attachment files; version 1 backups restore without them.
+
+export const BACKUP_VERSION = 2;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Blobs are read one at a time and kept as stored, so gzipped files stay gzipped.
+// Files missing from storage are left out.
+const exportAttachments = async (missions: Mission[]): Promise<BackupAttachment[]> => {
+    const exported: BackupAttachment[] = [];
+    for (const ref of missions.flatMap(m => m.attachments || [])) {
+        const stored = await getAttachment(ref.id);
+        if (!stored) continue;
+        const data = (await blobToDataUrl(stored.blob)).split(',')[1] || '';
+        exported.push({ id: stored.id, missionId: stored.missionId, type: stored.blob.type, compression: stored.compression, data });
+    }
+    return exported;
+};
+
+export const createBackup = async (missions: Mission[], settings: Settings, profiles: UserProfile[], activeProfileId: string | null): Promise<BackupFile> => {
+    const { customTemplates, ...rest } = settings;
+    return {
+        app: 'missionlog',
+        version: BACKUP_VERSION,
+        exportedAt: new Date().toISOString(),
+        missions,
+        settings: rest,
+        templates: customTemplates,
+        profile: findProfile(profiles, activeProfileId),
+        profiles,
+        attachments: await exportAttachments(missions),
+    };
+};
+
+// Used by the ErrorBoundary, where the in-memory App state is not available.
+export const createBackupFromStorage = async (): Promise<BackupFile> => {
+    const [missions, settings, profiles, activeProfileId] = await Promise.all([loadMissions(), loadSettings(), loadProfiles(), loadActiveProfileId()]);
+    return createBackup(missions, {
+        activeTemplateId: 'default',
+        language: 'en',
+        theme: 'system',
+        emailRecipient: '',
+        activePdfLayoutId: 'default',
+        pdfLayouts: [],
+        ...settings,
+        customTemplates: settings.customTemplates || [],
+    } as Settings, profiles, activeProfileId);
+};
+
+export const backupFileName = () => `MissionLog_Backup_${new Date().toISOString().split('T')[0]}.json`;
+
+const isString = (v: any) => typeof v === 'string';
+
+const validateMission = (m: any, index: number): string | null => {
+    if (!m || typeof m !== 'object') return `Mission #${index + 1} is not an object.`;
+    if (!isString(m.id) || !m.id) return `Mission #${index + 1} has no id.`;
+    if (!isString(m.title)) return `Mission "${m.id}" has no title.`;
+    if (!isString(m.date) || !DATE_RE.test(m.date)) return `Mission "${m.id}" has an invalid date.`;
+    if (typeof m.createdAt !== 'number') return `Mission "${m.id}" has no creation timestamp.`;
+    return null;
+};
+
+const validateTemplate = (t: any, index: number): string | null => {
+    if (!t || !isString(t.id) || !isString(t.name) || !isString(t.data)) return `Template #${index + 1} is malformed.`;
+    return null;
+};
+
+const validateAttachment = (a: any, index: number): string | null => {
+    if (!a || !isString(a.id) || !isString(a.missionId) || !isString(a.type) || !isString(a.data) || !['none', 'gzip'].includes(a.compression)) {
+        return `Attachment #${index + 1} is malformed.`;
+    }
+    return null;
+};
+
+// Parses and validates a backup file, throwing an Error with a readable reason if it is unusable.
+export const parseBackup = (text: string): BackupFile => {
+    let raw: any;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        throw new Error("The file is not valid JSON.");
+    }
+    if (!raw || raw.app !== 'missionlog') throw new Error("This is not a MissionLog backup file.");
+    if (typeof raw.version !== 'number' || raw.version > BACKUP_VERSION) {
+        throw new Error(`Unsupported backup version: ${raw.version}. Please update the app.`);
+    }
+    if (!Array.isArray(raw.missions)) throw new Error("The backup contains no mission list.");
+    const templates = Array.isArray(raw.templates) ? raw.templates : [];
+    const attachments = Array.isArray(raw.attachments) ? raw.attachments : [];
+
+    const problem = raw.missions.map(validateMission).find(Boolean) || templates.map(validateTemplate).find(Boolean) || attachments.map(validateAttachment).find(Boolean);
+    if (problem) throw new Error(problem);
+
+    return {
+        app: 'missionlog',
+        version: raw.version,
+        exportedAt: isString(raw.exportedAt) ? raw.exportedAt : '',
+        missions: raw.missions,
+        settings: raw.settings && typeof raw.settings === 'object' ? raw.settings : {},
+        templates,
+        profile: isProfile(raw.profile) ? withProfileId(raw.profile) : null,
+        profiles: Array.isArray(raw.profiles) ? raw.profiles.filter(isProfile).map(withProfileId) : undefined,
+        attachments,
+    };
+};
+
+const isProfile = (p: any) => p && isString(p.fullName);
+
+// Backups from single-profile versions carry one profile without an id
+const withProfileId = (p: UserProfile): UserProfile => ({ ...p, id: isString(p.id) && p.id ? p.id : DEFAULT_PROFILE_ID });
+
+const lastModified = (m: Mission) => m.updatedAt || m.createdAt;
+
+// Merges records by id. For missions the most recently modified copy wins; for
+// anything else the incoming record replaces the existing one.
+const mergeById = <T extends { id: string }>(existing: T[], incoming: T[], pickIncoming: (a: T, b: T) => boolean): T[] => {
+    const byId = new Map(existing.map(r => [r.id, r]));
+    incoming.forEach(r => {
+        const current = byId.get(r.id);
+        if (!current || pickIncoming(current, r)) byId.set(r.id, r);
+    });
+    return Array.from(byId.values());
+};
+
+export interface RestoreResult {
+    missions: Mission[];
+    settings: Settings;
+    profiles: UserProfile[];
+    activeProfileId: string | null;
+}
+
+const isSamePerson = (a: UserProfile, b: UserProfile) => a.fullName === b.fullName && a.cni === b.cni && a.ppn === b.ppn;
+
+// Every single-profile install used DEFAULT_PROFILE_ID, so a backup from someone else's device
+// can carry a profile with the id of a local one. Such profiles get a new id, unless the same
+// person already has a profile here under another id, and the backup's missions follow them.
+// Missions without an owner belong to the backup's active profile.
+const separateProfiles = (backup: BackupFile, profiles: UserProfile[]): { profiles: UserProfile[]; missions: Mission[] } => {
+    const renamed = new Map<string, string>();
+    const incoming = (backup.profiles || (backup.profile ? [backup.profile] : [])).map(p => {
+        const local = findProfile(profiles, p.id);
+        if (local && isSamePerson(local, p)) return p;
+        const twin = profiles.find(other => isSamePerson(other, p));
+        if (!local && !twin) return p;
+        const id = twin ? twin.id : createProfileId();
+        renamed.set(p.id, id);
+        return twin || { ...p, id };
+    });
+    const ownerOf = (id: string) => renamed.get(id) || id;
+    const backupOwner = backup.profile ? ownerOf(backup.profile.id) : null;
+    return {
+        profiles: incoming,
+        missions: backup.missions.map(m => {
+            const owner = m.profileId ? ownerOf(m.profileId) : backupOwner;
+            return owner ? { ...m, profileId: owner } : m;
+        }),
+    };
+};
+
+// Missions without a known owner go to the backup's active profile when replacing. When
+// merging, they go to the current profile unless the backup says whose they are.
+export const applyBackup = (backup: BackupFile, mode: RestoreMode, missions: Mission[], settings: Settings, profiles: UserProfile[], activeProfileId: string | null): RestoreResult => {
+    const backupProfiles = backup.profiles || (backup.profile ? [backup.profile] : []);
+    if (mode === 'replace') {
+        // A backup without profiles keeps the current ones, so the app stays usable (see restoreReplaceDesc)
+        const restoredProfiles = backupProfiles.length > 0 ? backupProfiles : profiles;
+        const active = findProfile(restoredProfiles, backup.profile?.id) || findProfile(restoredProfiles, activeProfileId) || restoredProfiles[0] || null;
+        return {
+            missions: (active ? assignOwner(backup.missions, restoredProfiles, active.id) : backup.missions).sort((a, b) => b.createdAt - a.createdAt),
+            settings: { ...settings, ...backup.settings, customTemplates: backup.templates },
+            profiles: restoredProfiles,
+            activeProfileId: active ? active.id : null,
+        };
+    }
+    const mergedTemplates: Template[] = mergeById(settings.customTemplates, backup.templates, () => true);
+    const incoming = separateProfiles(backup, profiles);
+    // Profiles already on the device are kept as edited here; only unknown ones are added
+    const mergedProfiles = profiles.length > 0 ? mergeById(profiles, incoming.profiles, () => false) : backupProfiles;
+    const active = findProfile(mergedProfiles, activeProfileId) || mergedProfiles[0] || null;
+    const mergedMissions = mergeById(missions, incoming.missions, (a, b) => lastModified(b) > lastModified(a));
+    return {
+        missions: (active ? assignOwner(mergedMissions, mergedProfiles, active.id) : mergedMissions).sort((a, b) => b.createdAt - a.createdAt),
+        settings: { ...settings, customTemplates: mergedTemplates, pdfLayouts: mergeById(settings.pdfLayouts, backup.settings.pdfLayouts || [], () => true) },
+        profiles: mergedProfiles,
+        activeProfileId: active ? active.id : null,
+    };
+};
+
+const base64ToBlob = (base64: string, type: string) => {
+    const binary = window.atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type });
+};
+
+// Stores the backup's files that the restored missions refer to; a merge may have kept the
+// device's version of a mission instead. After a replace, files no mission refers to anymore
+// are deleted.
+export const restoreAttachments = async (backup: BackupFile, missions: Mission[], mode: RestoreMode): Promise<void> => {
+    const referenced = new Set(missions.flatMap(m => (m.attachments || []).map(ref => ref.id)));
+    for (const a of backup.attachments || []) {
+        if (referenced.has(a.id)) await putAttachment({ id: a.id, missionId: a.missionId, blob: base64ToBlob(a.data, a.type), compression: a.compression });
+    }
+    if (mode === 'replace') await deleteAttachments((await loadAttachmentIds()).filter(id => !referenced.has(id)));
+};
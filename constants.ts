@@ -18,6 +18,7 @@ export const TRANSLATIONS = {
     noMissions: 'No missions found',
     tryDifferent: 'Try a different date or search',
     newMission: 'New Mission',
+    editMission: 'Edit Mission',
     save: 'Save',
     magicFill: 'AI Magic',
     manual: 'Manual',
@@ -75,7 +76,235 @@ export const TRANSLATIONS = {
     themeSystem: 'System',
     format: 'Format',
     formatDocx: 'Word Document (.docx)',
-    formatPdf: 'PDF Document (.pdf)'
+    formatPdf: 'PDF Document (.pdf)',
+    backupRestore: 'Backup & Restore',
+    backupDesc: 'Save all missions, templates and your profile to a file.',
+    exportBackup: 'Export Backup',
+    importBackup: 'Import Backup',
+    restoreTitle: 'Restore Backup',
+    restoreSummary: 'missions found in this backup',
+    restoreMerge: 'Merge',
+    restoreMergeDesc: 'Keep current data. Missions with the same ID keep the most recent version.',
+    restoreReplace: 'Replace',
+    restoreReplaceDesc: 'Delete the current missions, templates and settings and use the backup instead. Profiles are only replaced if the backup contains any.',
+    restoreDone: 'Backup restored.',
+    invalidBackup: 'Invalid backup file',
+    downloadBackup: 'Download Backup',
+    confirmReset: 'Delete all missions, templates and your profile?',
+    email: 'Email',
+    defaultRecipient: 'Default Recipient',
+    recipientPlaceholder: 'supervisor@example.com',
+    emailTo: 'To',
+    emailSubject: 'Subject',
+    emailBody: 'Message',
+    attachment: 'Attachment',
+    copy: 'Copy',
+    copied: 'Copied to clipboard',
+    draftOffline: 'You are offline. Write the email manually or draft it with AI later.',
+    saveForLater: 'Save for Later',
+    offlineQueueNotice: 'You are offline. Your description will be saved and processed when you reconnect.',
+    draftQueued: 'Saved. It will be processed automatically when you are back online.',
+    pendingDrafts: 'Pending AI Drafts',
+    draftStatusPending: 'Waiting for connection',
+    draftStatusProcessing: 'Processing...',
+    draftStatusReady: 'Ready for review',
+    draftStatusFailed: 'Failed',
+    review: 'Review',
+    retry: 'Retry',
+    templateFields: 'Template Fields',
+    templateFieldsDesc: 'Extra placeholders used by the active template.',
+    templatePlaceholders: 'Placeholders',
+    templateValid: 'No problems found in this template.',
+    templateErrors: 'Errors',
+    templateWarnings: 'Warnings',
+    samplePreview: 'Sample Preview',
+    downloadSample: 'Download Sample Report',
+    activateTemplate: 'Activate',
+    itinerary: 'Itinerary',
+    itineraryDesc: 'Optional day-by-day plan for multi-day missions.',
+    addDay: 'Add Day',
+    site: 'Site',
+    sitePlaceholder: 'Site visited',
+    activities: 'Activities',
+    activitiesPlaceholder: 'What was done...',
+    hours: 'Hours',
+    attachments: 'Attachments',
+    takePhoto: 'Take Photo',
+    addFile: 'Add File',
+    noAttachments: 'No photos or files yet.',
+    attachmentMissing: 'This file is no longer available on this device.',
+    missionReport: 'MISSION REPORT',
+    date: 'Date',
+    reporter: 'Reporter',
+    noNotes: 'No notes provided.',
+    generatedBy: 'Generated by MissionLog AI',
+    pdfLayouts: 'PDF Layouts',
+    pdfLayoutsDesc: 'Choose how shared PDF reports look.',
+    defaultLayout: 'Default Layout',
+    newLayout: 'New Layout',
+    editLayout: 'Edit Layout',
+    layoutName: 'Layout Name',
+    logo: 'Logo',
+    uploadLogo: 'Upload Logo',
+    headerText: 'Header Text',
+    footerText: 'Footer Text',
+    pageSize: 'Page Size',
+    layoutFields: 'Fields & Order',
+    signature: 'Signature Block',
+    signatureLabel: 'Signature Label',
+    signatureLabelPlaceholder: 'e.g. Approved by',
+    signatureShowName: 'Print my name under the line',
+    docxLayout: 'Same as DOCX Template',
+    activityReport: 'Activity Report',
+    period: 'Period',
+    missionCount: 'Missions',
+    totalDays: 'Days in the field',
+    totalHours: 'Total hours',
+    perLocation: 'Missions per location',
+    days: 'Days',
+    exportContent: 'Content',
+    missionReports: 'Mission Reports',
+    activitySummary: 'Activity Summary',
+    activityTemplate: 'Activity Report Template',
+    activityTemplateDesc: 'DOCX used for the activity summary export. Use these placeholders and loops:',
+    invalidTemplate: 'This template cannot be used',
+    created: 'Created',
+    updated: 'Updated',
+    importData: 'Import',
+    importMissions: 'Import Missions',
+    mapColumns: 'Match each column of the file to a mission field.',
+    skipColumn: "Don't import",
+    requiredColumns: 'Map at least the title and start date columns.',
+    next: 'Next',
+    back: 'Back',
+    rowsReady: 'ready',
+    rowsWithErrors: 'with errors',
+    possibleDuplicate: 'Possible duplicate',
+    skipDuplicates: 'Skip possible duplicates',
+    importDone: 'missions imported.',
+    importFailed: 'Could not read the file',
+    addToCalendar: 'Add to Calendar',
+    calendar: 'Calendar',
+    timeZone: 'Time zone',
+    timeZoneDesc: 'Mission times are exported to calendar apps as times in this zone.',
+    deviceTimeZone: 'Device time zone',
+    repeatWindow: 'Repeating events between',
+    repeats: 'Repeats',
+    alreadyImported: 'Already imported',
+    eventsReady: 'new events',
+    noEvents: 'No events in this file or period.',
+    status: 'Status',
+    statusAuto: 'Automatic',
+    statusAutoDesc: 'Follows the mission dates until a report is generated.',
+    planned: 'Planned',
+    inProgress: 'In progress',
+    completed: 'Completed',
+    reported: 'Reported',
+    allStatuses: 'All',
+    filters: 'Filters',
+    sortBy: 'Sort by',
+    sortDateDesc: 'Newest first',
+    sortDateAsc: 'Oldest first',
+    sortCreated: 'Recently added',
+    sortTitle: 'Title (A-Z)',
+    sortLocation: 'Location (A-Z)',
+    clearFilters: 'Clear filters',
+    showMore: 'Show more',
+    missionsFound: 'missions found',
+    aiSearch: 'Ask AI',
+    aiSearchPlaceholder: 'e.g. visits to the northern depot last quarter',
+    aiSearchOffline: 'AI search needs an internet connection.',
+    keywords: 'Keywords',
+    profiles: 'Profiles',
+    addProfile: 'Add profile',
+    newProfileDesc: 'Reports filed under this profile carry its name and IDs.',
+    profileTemplate: 'Template for this profile',
+    profileLanguage: 'Language for this profile',
+    keepCurrent: 'Keep current setting',
+    deleteProfile: 'Delete profile',
+    deleteProfileConfirm: 'Delete this profile and its missions?',
+    appLock: 'App Lock',
+    appLockDesc: 'Require a PIN to open the app. Missions, profiles, templates and attachments are then encrypted on this device.',
+    setUpPin: 'Set up PIN',
+    currentPin: 'Current PIN',
+    newPin: 'New PIN',
+    confirmPin: 'Confirm PIN',
+    pinTooShort: 'The PIN must be at least 4 digits.',
+    pinMismatch: 'The PINs do not match.',
+    wrongPin: 'Wrong PIN.',
+    attemptsLeft: 'attempts left before all data is erased',
+    appLocked: 'MissionLog is locked',
+    enterPin: 'Enter your PIN',
+    unlock: 'Unlock',
+    unlockBiometric: 'Use biometrics',
+    changePin: 'Change PIN',
+    disableLock: 'Turn off lock',
+    lockNow: 'Lock now',
+    autoLock: 'Auto-lock after',
+    never: 'Never',
+    minutesShort: 'min',
+    wipeAfter: 'Erase data after failed attempts',
+    biometricUnlock: 'Biometric unlock',
+    enableBiometric: 'Enable',
+    removeBiometric: 'Remove',
+    sync: 'Sync',
+    syncDesc: 'Keep missions, templates, profiles and settings in step across your devices through your own sync server. Photos and files stay on the device they were added on.',
+    serverUrl: 'Server address',
+    accessToken: 'Access token',
+    deviceName: 'Device name',
+    enableSync: 'Connect',
+    disableSync: 'Disconnect',
+    syncNow: 'Sync now',
+    lastSynced: 'Last synced',
+    neverSynced: 'Not synced yet',
+    pendingChanges: 'changes waiting',
+    syncConflicts: 'Sync conflicts',
+    syncConflictsDesc: 'Edited on two devices. The newer edit was kept.',
+    keptVersion: 'Kept',
+    discardedVersion: 'Discarded',
+    deletion: 'deletion',
+    restoreDiscarded: 'Restore discarded',
+    dismiss: 'Dismiss',
+    conflictsToReview: 'sync conflicts to review',
+    team: 'Team Review',
+    teamDesc: "Submit missions to your supervisor for approval through your team's server, using the personal token your team's administrator gave you. Use a different server than your personal sync.",
+    inspector: 'Inspector',
+    supervisor: 'Supervisor',
+    joinTeam: 'Join Team',
+    leaveTeam: 'Leave Team',
+    submitForReview: 'Submit for Review',
+    commentOptional: 'Comment (optional)',
+    reviewSubmitted: 'Awaiting review',
+    reviewChangesRequested: 'Changes requested',
+    reviewApproved: 'Approved',
+    eventSubmitted: 'submitted for review',
+    eventComment: 'commented',
+    eventChangesRequested: 'requested changes',
+    eventApproved: 'approved',
+    addComment: 'Comment',
+    requestChanges: 'Request Changes',
+    approve: 'Approve',
+    commentRequired: 'Please explain what needs to change.',
+    reviewInbox: 'Review Inbox',
+    awaitingReview: 'awaiting review',
+    allReviews: 'All',
+    noReviews: 'Nothing to review.',
+    approvedBy: 'Approved by',
+    startCoords: 'Start Coordinates',
+    finishCoords: 'End Coordinates',
+    captureStart: 'Capture Start',
+    captureFinish: 'Capture End',
+    mapView: 'Map',
+    drawArea: 'Draw Area',
+    drawAreaHint: 'Drag on the map to select an area.',
+    clearArea: 'Clear Area',
+    mapArea: 'Map area',
+    missionsOnMap: 'missions have coordinates',
+    noCoordinates: 'No mission has coordinates yet. Capture them from the mission editor.',
+    memberToken: 'Your Member Token',
+    approvalOutdated: 'Edited after it was approved. Submit it again for a new approval.',
+    approvalWithdrawn: 'Your approval was not sent: the inspector changed the mission first. Review it again.',
+    anyKeyword: 'Any of'
   },
   ar: {
     greetingMorning: 'صباح الخير',
@@ -91,6 +320,7 @@ export const TRANSLATIONS = {
     noMissions: 'لم يتم العثور على مهام',
     tryDifferent: 'جرب تاريخًا أو بحثًا مختلفًا',
     newMission: 'مهمة جديدة',
+    editMission: 'تعديل المهمة',
     save: 'حفظ',
     magicFill: 'الذكاء الاصطناعي',
     manual: 'يدوي',
@@ -148,7 +378,235 @@ export const TRANSLATIONS = {
     themeSystem: 'النظام',
     format: 'الصيغة',
     formatDocx: 'ملف ورد (.docx)',
-    formatPdf: 'ملف بي دي اف (.pdf)'
+    formatPdf: 'ملف بي دي اف (.pdf)',
+    backupRestore: 'النسخ الاحتياطي والاستعادة',
+    backupDesc: 'احفظ جميع المهام والقوالب وملفك الشخصي في ملف.',
+    exportBackup: 'تصدير نسخة احتياطية',
+    importBackup: 'استيراد نسخة احتياطية',
+    restoreTitle: 'استعادة النسخة الاحتياطية',
+    restoreSummary: 'مهمة في هذه النسخة الاحتياطية',
+    restoreMerge: 'دمج',
+    restoreMergeDesc: 'الاحتفاظ بالبيانات الحالية. المهام ذات المعرف نفسه تحتفظ بأحدث نسخة.',
+    restoreReplace: 'استبدال',
+    restoreReplaceDesc: 'حذف المهام والقوالب والإعدادات الحالية واستخدام النسخة الاحتياطية بدلاً منها. لا تُستبدل الملفات الشخصية إلا إذا كانت النسخة الاحتياطية تحتوي عليها.',
+    restoreDone: 'تمت استعادة النسخة الاحتياطية.',
+    invalidBackup: 'ملف نسخة احتياطية غير صالح',
+    downloadBackup: 'تحميل نسخة احتياطية',
+    confirmReset: 'حذف جميع المهام والقوالب وملفك الشخصي؟',
+    email: 'البريد الإلكتروني',
+    defaultRecipient: 'المستلم الافتراضي',
+    recipientPlaceholder: 'supervisor@example.com',
+    emailTo: 'إلى',
+    emailSubject: 'الموضوع',
+    emailBody: 'الرسالة',
+    attachment: 'المرفق',
+    copy: 'نسخ',
+    copied: 'تم النسخ إلى الحافظة',
+    draftOffline: 'أنت غير متصل. اكتب البريد يدويًا أو قم بصياغته بالذكاء الاصطناعي لاحقًا.',
+    saveForLater: 'حفظ لوقت لاحق',
+    offlineQueueNotice: 'أنت غير متصل. سيتم حفظ وصفك ومعالجته عند عودة الاتصال.',
+    draftQueued: 'تم الحفظ. ستتم معالجته تلقائيًا عند عودة الاتصال.',
+    pendingDrafts: 'مسودات الذكاء الاصطناعي المعلقة',
+    draftStatusPending: 'في انتظار الاتصال',
+    draftStatusProcessing: 'جاري المعالجة...',
+    draftStatusReady: 'جاهزة للمراجعة',
+    draftStatusFailed: 'فشلت',
+    review: 'مراجعة',
+    retry: 'إعادة المحاولة',
+    templateFields: 'حقول القالب',
+    templateFieldsDesc: 'حقول إضافية يستخدمها القالب النشط.',
+    templatePlaceholders: 'الحقول',
+    templateValid: 'لم يتم العثور على مشاكل في هذا القالب.',
+    templateErrors: 'أخطاء',
+    templateWarnings: 'تحذيرات',
+    samplePreview: 'معاينة نموذجية',
+    downloadSample: 'تحميل تقرير نموذجي',
+    activateTemplate: 'تفعيل',
+    itinerary: 'برنامج الرحلة',
+    itineraryDesc: 'خطة اختيارية يومًا بيوم للمهام متعددة الأيام.',
+    addDay: 'إضافة يوم',
+    site: 'الموقع',
+    sitePlaceholder: 'الموقع الذي تمت زيارته',
+    activities: 'الأنشطة',
+    activitiesPlaceholder: 'ما تم إنجازه...',
+    hours: 'الساعات',
+    attachments: 'المرفقات',
+    takePhoto: 'التقاط صورة',
+    addFile: 'إضافة ملف',
+    noAttachments: 'لا توجد صور أو ملفات بعد.',
+    attachmentMissing: 'هذا الملف لم يعد متوفرًا على هذا الجهاز.',
+    missionReport: 'تقرير المهمة',
+    date: 'التاريخ',
+    reporter: 'المقرر',
+    noNotes: 'لا توجد ملاحظات.',
+    generatedBy: 'تم الإنشاء بواسطة MissionLog AI',
+    pdfLayouts: 'تخطيطات PDF',
+    pdfLayoutsDesc: 'اختر شكل تقارير PDF التي تتم مشاركتها.',
+    defaultLayout: 'التخطيط الافتراضي',
+    newLayout: 'تخطيط جديد',
+    editLayout: 'تعديل التخطيط',
+    layoutName: 'اسم التخطيط',
+    logo: 'الشعار',
+    uploadLogo: 'رفع الشعار',
+    headerText: 'نص الترويسة',
+    footerText: 'نص التذييل',
+    pageSize: 'حجم الصفحة',
+    layoutFields: 'الحقول وترتيبها',
+    signature: 'خانة التوقيع',
+    signatureLabel: 'عنوان التوقيع',
+    signatureLabelPlaceholder: 'مثال: مصادق عليه من طرف',
+    signatureShowName: 'طباعة اسمي تحت الخط',
+    docxLayout: 'مطابق لقالب DOCX',
+    activityReport: 'تقرير النشاط',
+    period: 'الفترة',
+    missionCount: 'المهام',
+    totalDays: 'أيام العمل الميداني',
+    totalHours: 'مجموع الساعات',
+    perLocation: 'المهام حسب المكان',
+    days: 'الأيام',
+    exportContent: 'المحتوى',
+    missionReports: 'تقارير المهام',
+    activitySummary: 'ملخص النشاط',
+    activityTemplate: 'قالب تقرير النشاط',
+    activityTemplateDesc: 'ملف DOCX المستخدم لتصدير ملخص النشاط. استخدم هذه العناصر والحلقات:',
+    invalidTemplate: 'لا يمكن استخدام هذا القالب',
+    created: 'تاريخ الإنشاء',
+    updated: 'تاريخ التعديل',
+    importData: 'استيراد',
+    importMissions: 'استيراد المهام',
+    mapColumns: 'اربط كل عمود في الملف بحقل من حقول المهمة.',
+    skipColumn: 'عدم الاستيراد',
+    requiredColumns: 'اربط على الأقل عمودي العنوان وتاريخ البدء.',
+    next: 'التالي',
+    back: 'رجوع',
+    rowsReady: 'جاهزة',
+    rowsWithErrors: 'بها أخطاء',
+    possibleDuplicate: 'تكرار محتمل',
+    skipDuplicates: 'تخطي التكرارات المحتملة',
+    importDone: 'مهمة تم استيرادها.',
+    importFailed: 'تعذرت قراءة الملف',
+    addToCalendar: 'إضافة إلى التقويم',
+    calendar: 'التقويم',
+    timeZone: 'المنطقة الزمنية',
+    timeZoneDesc: 'تُصدَّر أوقات المهام إلى تطبيقات التقويم كأوقات في هذه المنطقة.',
+    deviceTimeZone: 'المنطقة الزمنية للجهاز',
+    repeatWindow: 'الأحداث المتكررة بين',
+    repeats: 'متكرر',
+    alreadyImported: 'مستورد مسبقاً',
+    eventsReady: 'أحداث جديدة',
+    noEvents: 'لا توجد أحداث في هذا الملف أو الفترة.',
+    status: 'الحالة',
+    statusAuto: 'تلقائي',
+    statusAutoDesc: 'تتبع تواريخ المهمة حتى يتم إنشاء تقرير.',
+    planned: 'مخططة',
+    inProgress: 'قيد التنفيذ',
+    completed: 'مكتملة',
+    reported: 'تم التقرير',
+    allStatuses: 'الكل',
+    filters: 'عوامل التصفية',
+    sortBy: 'ترتيب حسب',
+    sortDateDesc: 'الأحدث أولاً',
+    sortDateAsc: 'الأقدم أولاً',
+    sortCreated: 'المضافة مؤخراً',
+    sortTitle: 'العنوان (أ-ي)',
+    sortLocation: 'الموقع (أ-ي)',
+    clearFilters: 'مسح عوامل التصفية',
+    showMore: 'عرض المزيد',
+    missionsFound: 'مهمة',
+    aiSearch: 'اسأل الذكاء الاصطناعي',
+    aiSearchPlaceholder: 'مثال: كم مهمة في مارس',
+    aiSearchOffline: 'يتطلب البحث الذكي اتصالاً بالإنترنت.',
+    keywords: 'كلمات البحث',
+    profiles: 'الملفات الشخصية',
+    addProfile: 'إضافة ملف شخصي',
+    newProfileDesc: 'تحمل التقارير المسجلة ضمن هذا الملف اسمه وأرقام هويته.',
+    profileTemplate: 'قالب هذا الملف',
+    profileLanguage: 'لغة هذا الملف',
+    keepCurrent: 'الإبقاء على الإعداد الحالي',
+    deleteProfile: 'حذف الملف الشخصي',
+    deleteProfileConfirm: 'حذف هذا الملف الشخصي ومهامه؟',
+    appLock: 'قفل التطبيق',
+    appLockDesc: 'طلب رمز PIN لفتح التطبيق. يتم عندها تشفير المهام والملفات الشخصية والقوالب والمرفقات على هذا الجهاز.',
+    setUpPin: 'إعداد رمز PIN',
+    currentPin: 'رمز PIN الحالي',
+    newPin: 'رمز PIN الجديد',
+    confirmPin: 'تأكيد رمز PIN',
+    pinTooShort: 'يجب أن يتكون رمز PIN من 4 أرقام على الأقل.',
+    pinMismatch: 'رمزا PIN غير متطابقين.',
+    wrongPin: 'رمز PIN غير صحيح.',
+    attemptsLeft: 'محاولات متبقية قبل مسح جميع البيانات',
+    appLocked: 'MissionLog مقفل',
+    enterPin: 'أدخل رمز PIN',
+    unlock: 'فتح',
+    unlockBiometric: 'استخدام البصمة',
+    changePin: 'تغيير رمز PIN',
+    disableLock: 'إيقاف القفل',
+    lockNow: 'القفل الآن',
+    autoLock: 'القفل التلقائي بعد',
+    never: 'أبداً',
+    minutesShort: 'دقيقة',
+    wipeAfter: 'مسح البيانات بعد محاولات فاشلة',
+    biometricUnlock: 'الفتح بالبصمة',
+    enableBiometric: 'تفعيل',
+    removeBiometric: 'إزالة',
+    sync: 'المزامنة',
+    syncDesc: 'حافظ على تطابق المهام والقوالب والملفات الشخصية والإعدادات بين أجهزتك عبر خادم المزامنة الخاص بك. تبقى الصور والملفات على الجهاز الذي أُضيفت منه.',
+    serverUrl: 'عنوان الخادم',
+    accessToken: 'رمز الوصول',
+    deviceName: 'اسم الجهاز',
+    enableSync: 'اتصال',
+    disableSync: 'قطع الاتصال',
+    syncNow: 'مزامنة الآن',
+    lastSynced: 'آخر مزامنة',
+    neverSynced: 'لم تتم المزامنة بعد',
+    pendingChanges: 'تغييرات في الانتظار',
+    syncConflicts: 'تعارضات المزامنة',
+    syncConflictsDesc: 'تم التعديل على جهازين. تم الاحتفاظ بالتعديل الأحدث.',
+    keptVersion: 'المحفوظ',
+    discardedVersion: 'المستبعد',
+    deletion: 'حذف',
+    restoreDiscarded: 'استعادة المستبعد',
+    dismiss: 'تجاهل',
+    conflictsToReview: 'تعارضات مزامنة للمراجعة',
+    team: 'مراجعة الفريق',
+    teamDesc: 'أرسل المهام إلى مشرفك للموافقة عليها عبر خادم فريقك، باستخدام الرمز الشخصي الذي أعطاك إياه مسؤول فريقك. استخدم خادماً مختلفاً عن المزامنة الشخصية.',
+    inspector: 'مفتش',
+    supervisor: 'مشرف',
+    joinTeam: 'الانضمام إلى الفريق',
+    leaveTeam: 'مغادرة الفريق',
+    submitForReview: 'إرسال للمراجعة',
+    commentOptional: 'تعليق (اختياري)',
+    reviewSubmitted: 'بانتظار المراجعة',
+    reviewChangesRequested: 'مطلوب تعديلات',
+    reviewApproved: 'تمت الموافقة',
+    eventSubmitted: 'أرسل للمراجعة',
+    eventComment: 'علّق',
+    eventChangesRequested: 'طلب تعديلات',
+    eventApproved: 'وافق',
+    addComment: 'تعليق',
+    requestChanges: 'طلب تعديلات',
+    approve: 'موافقة',
+    commentRequired: 'يرجى توضيح التعديلات المطلوبة.',
+    reviewInbox: 'صندوق المراجعة',
+    awaitingReview: 'بانتظار المراجعة',
+    allReviews: 'الكل',
+    noReviews: 'لا شيء للمراجعة.',
+    approvedBy: 'تمت الموافقة من',
+    startCoords: 'إحداثيات البداية',
+    finishCoords: 'إحداثيات النهاية',
+    captureStart: 'تسجيل البداية',
+    captureFinish: 'تسجيل النهاية',
+    mapView: 'الخريطة',
+    drawArea: 'تحديد منطقة',
+    drawAreaHint: 'اسحب على الخريطة لتحديد منطقة.',
+    clearArea: 'مسح المنطقة',
+    mapArea: 'منطقة على الخريطة',
+    missionsOnMap: 'مهام لها إحداثيات',
+    noCoordinates: 'لا توجد مهام بإحداثيات بعد. سجّلها من محرر المهمة.',
+    memberToken: 'رمز العضوية الخاص بك',
+    approvalOutdated: 'عُدّلت بعد الموافقة عليها. أرسلها مجدداً للحصول على موافقة جديدة.',
+    approvalWithdrawn: 'لم تُرسل موافقتك: عدّل المفتش المهمة قبل ذلك. راجعها مجدداً.',
+    anyKeyword: 'أيٌّ من'
   }
 };
 
@@ -0,0 +1,401 @@
+import { containsRtl, firstStrongIsRtl, pdfText, pickPdfFont } from './pdf';
+
+declare const pdfMake: any;
+
+// --- DOCX to PDF Conversion ---
+// Turns a rendered .docx into a pdfMake document inside the browser, so PDFs follow the
+// user's Word template without a server and keep working offline. It covers what report
+// templates use: page size and margins, the default header and footer, paragraph alignment,
+// spacing and indentation, bold/italic/underline/size/colour runs, tables with merged cells
+// and shading, inline PNG/JPEG images, page breaks and list bullets. Anything else (text
+// boxes, shapes, fields, numbering formats) is reduced to its text.
+
+const POINTS_PER_TWIP = 1 / 20;
+const EMU_PER_POINT = 12700;
+const DEFAULT_FONT_SIZE = 11;
+
+interface RunStyle {
+    bold?: boolean;
+    italics?: boolean;
+    decoration?: 'underline';
+    fontSize?: number;
+    color?: string;
+}
+
+interface ParagraphStyle {
+    alignment?: 'left' | 'center' | 'right' | 'justify';
+    before?: number;
+    after?: number;
+    indent?: number;
+    lineHeight?: number;
+    rtl?: boolean;
+    run: RunStyle;
+}
+
+interface StyleDefinition extends ParagraphStyle {
+    basedOn?: string;
+}
+
+// A document part (body, header or footer) and the relationships its images point to
+interface Part {
+    rels: Map<string, string>;
+}
+
+interface Context {
+    zip: any;
+    styles: Map<string, StyleDefinition>;
+    defaults: ParagraphStyle;
+    texts: string[]; // Everything printed, used to pick a font that has the right glyphs
+}
+
+const elements = (el: Element | undefined, name?: string): Element[] => {
+    if (!el) return [];
+    return Array.from(el.childNodes).filter((n): n is Element => n.nodeType === 1 && (!name || (n as Element).tagName === name));
+};
+
+const first = (el: Element | undefined, name: string): Element | undefined => elements(el, name)[0];
+
+const val = (el: Element | undefined, name = 'val'): string | null => el ? el.getAttribute(`w:${name}`) : null;
+
+const num = (el: Element | undefined, name: string): number | undefined => {
+    const v = val(el, name);
+    return v !== null && v !== '' && !isNaN(Number(v)) ? Number(v) : undefined;
+};
+
+// <w:b/> and <w:b w:val="1"/> switch a property on, <w:b w:val="0"/> switches it off
+const toggle = (el: Element | undefined): boolean | undefined => {
+    if (!el) return undefined;
+    return !['0', 'false', 'off'].includes(val(el) || '');
+};
+
+const defined = <T extends object>(obj: T): Partial<T> => {
+    return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+};
+
+const parseXml = (xml: string): Document => new DOMParser().parseFromString(xml, 'application/xml');
+
+const readPart = (zip: any, path: string): Document | null => {
+    const file = zip.file(path);
+    return file ? parseXml(file.asText()) : null;
+};
+
+// Word keeps separate bold/size values for complex scripts (Arabic); `complex` picks those.
+const parseRunProps = (rPr: Element | undefined, complex: boolean): RunStyle => {
+    if (!rPr) return {};
+    const size = num(first(rPr, complex ? 'w:szCs' : 'w:sz'), 'val') ?? num(first(rPr, 'w:sz'), 'val');
+    const color = val(first(rPr, 'w:color'));
+    const underline = val(first(rPr, 'w:u'));
+    return defined({
+        bold: toggle(first(rPr, complex ? 'w:bCs' : 'w:b')) ?? toggle(first(rPr, 'w:b')),
+        italics: toggle(first(rPr, complex ? 'w:iCs' : 'w:i')) ?? toggle(first(rPr, 'w:i')),
+        decoration: underline && underline !== 'none' ? 'underline' as const : undefined,
+        fontSize: size !== undefined ? size / 2 : undefined,
+        color: color && color !== 'auto' ? `#${color}` : undefined,
+    });
+};
+
+const parseParagraphProps = (pPr: Element | undefined): Omit<ParagraphStyle, 'run'> => {
+    if (!pPr) return {};
+    const rtl = toggle(first(pPr, 'w:bidi'));
+    const spacing = first(pPr, 'w:spacing');
+    const ind = first(pPr, 'w:ind');
+    const line = num(spacing, 'line');
+    const indent = num(ind, 'start') ?? num(ind, 'left');
+    // In a right-to-left paragraph Word stores "left" and "right" relative to the reading direction
+    let alignment: ParagraphStyle['alignment'];
+    switch (val(first(pPr, 'w:jc'))) {
+        case 'center': alignment = 'center'; break;
+        case 'both': case 'distribute': alignment = 'justify'; break;
+        case 'left': case 'start': alignment = rtl ? 'right' : 'left'; break;
+        case 'right': case 'end': alignment = rtl ? 'left' : 'right'; break;
+    }
+    return defined({
+        alignment,
+        before: num(spacing, 'before') !== undefined ? num(spacing, 'before')! * POINTS_PER_TWIP : undefined,
+        after: num(spacing, 'after') !== undefined ? num(spacing, 'after')! * POINTS_PER_TWIP : undefined,
+        indent: indent !== undefined ? indent * POINTS_PER_TWIP : undefined,
+        // Only "auto" spacing is proportional (in 240ths of a line); exact heights are approximated as single spacing
+        lineHeight: line !== undefined && (val(spacing, 'lineRule') || 'auto') === 'auto' ? line / 240 : undefined,
+        rtl,
+    });
+};
+
+const mergeStyles = (...styles: (Partial<ParagraphStyle> | undefined)[]): ParagraphStyle => {
+    return styles.reduce<ParagraphStyle>((acc, s) => s ? { ...acc, ...s, run: { ...acc.run, ...(s.run || {}) } } : acc, { run: {} });
+};
+
+const loadStyles = (zip: any): { styles: Map<string, StyleDefinition>; defaults: ParagraphStyle } => {
+    const styles = new Map<string, StyleDefinition>();
+    const doc = readPart(zip, 'word/styles.xml');
+    if (!doc) return { styles, defaults: { run: { fontSize: DEFAULT_FONT_SIZE } } };
+    const root = doc.documentElement;
+    const docDefaults = first(root, 'w:docDefaults');
+    const defaults = mergeStyles(
+        { run: { fontSize: DEFAULT_FONT_SIZE } },
+        { ...parseParagraphProps(first(first(docDefaults, 'w:pPrDefault'), 'w:pPr')), run: parseRunProps(first(first(docDefaults, 'w:rPrDefault'), 'w:rPr'), false) }
+    );
+    let normal: StyleDefinition | undefined;
+    elements(root, 'w:style').forEach(style => {
+        const id = val(style, 'styleId');
+        if (!id) return;
+        const definition: StyleDefinition = {
+            ...parseParagraphProps(first(style, 'w:pPr')),
+            run: parseRunProps(first(style, 'w:rPr'), false),
+            basedOn: val(first(style, 'w:basedOn')) || undefined,
+        };
+        styles.set(id, definition);
+        // Paragraphs without a pStyle use the default paragraph style ("Normal")
+        if (val(style, 'type') === 'paragraph' && ['1', 'true', 'on'].includes(val(style, 'default') || '')) normal = definition;
+    });
+    return { styles, defaults: mergeStyles(defaults, normal) };
+};
+
+const resolveStyle = (ctx: Context, id: string | null, depth = 0): ParagraphStyle | undefined => {
+    const style = id ? ctx.styles.get(id) : undefined;
+    if (!style) return undefined;
+    // basedOn chains are short in practice; the depth guard protects against cycles
+    const parent = style.basedOn && depth < 10 ? resolveStyle(ctx, style.basedOn, depth + 1) : undefined;
+    return mergeStyles(parent, style);
+};
+
+const loadRels = (zip: any, partPath: string): Map<string, string> => {
+    const rels = new Map<string, string>();
+    const slash = partPath.lastIndexOf('/');
+    const dir = partPath.slice(0, slash + 1);
+    const doc = readPart(zip, `${dir}_rels/${partPath.slice(slash + 1)}.rels`);
+    if (!doc) return rels;
+    elements(doc.documentElement, 'Relationship').forEach(rel => {
+        const target = rel.getAttribute('Target') || '';
+        rels.set(rel.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : dir + target);
+    });
+    return rels;
+};
+
+const IMAGE_TYPES: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg' };
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return window.btoa(binary);
+};
+
+// pdfMake only embeds PNG and JPEG; other formats (EMF, WMF, GIF) are left out
+const convertDrawing = (drawing: Element, ctx: Context, part: Part, alignment?: string): any | null => {
+    const blip = drawing.getElementsByTagName('a:blip')[0];
+    const target = blip ? part.rels.get(blip.getAttribute('r:embed') || '') : undefined;
+    const type = target ? IMAGE_TYPES[target.split('.').pop()!.toLowerCase()] : undefined;
+    const file = target && type ? ctx.zip.file(target) : null;
+    if (!file) return null;
+    const extent = drawing.getElementsByTagName('wp:extent')[0];
+    const width = Number(extent?.getAttribute('cx')) / EMU_PER_POINT;
+    const height = Number(extent?.getAttribute('cy')) / EMU_PER_POINT;
+    return {
+        image: `data:${type};base64,${bytesToBase64(file.asUint8Array())}`,
+        ...(width > 0 && height > 0 ? { width, height } : { fit: [300, 300] }),
+        alignment: alignment || 'left',
+    };
+};
+
+// Runs can be wrapped in hyperlinks, tracked insertions, smart tags or content controls
+const collectRuns = (el: Element, runs: Element[] = []): Element[] => {
+    elements(el).forEach(child => {
+        if (child.tagName === 'w:r') runs.push(child);
+        else if (child.tagName !== 'w:pPr' && child.tagName !== 'w:del') collectRuns(child, runs);
+    });
+    return runs;
+};
+
+
+const convertParagraph = (p: Element, ctx: Context, part: Part, width: number): any[] => {
+    const pPr = first(p, 'w:pPr');
+    const style = mergeStyles(ctx.defaults, resolveStyle(ctx, val(first(pPr, 'w:pStyle'))), parseParagraphProps(pPr));
+    const blocks: any[] = [];
+    const runs: any[] = [];
+    let pageBreak = false;
+
+    collectRuns(p).forEach(r => {
+        const rPr = first(r, 'w:rPr');
+        const runText = elements(r, 'w:t').map(t => t.textContent || '').join('');
+        const complex = toggle(first(rPr, 'w:rtl')) || containsRtl(runText);
+        const runStyle = { ...style.run, ...(resolveStyle(ctx, val(first(rPr, 'w:rStyle')))?.run || {}), ...parseRunProps(rPr, !!complex) };
+        elements(r).forEach(child => {
+            switch (child.tagName) {
+                case 'w:t': runs.push({ text: child.textContent || '', ...runStyle }); break;
+                case 'w:tab': runs.push({ text: '    ', ...runStyle }); break;
+                case 'w:noBreakHyphen': runs.push({ text: '-', ...runStyle }); break;
+                case 'w:cr': runs.push({ text: '\n', ...runStyle }); break;
+                case 'w:br':
+                    if (val(child, 'type') === 'page') pageBreak = true;
+                    else runs.push({ text: '\n', ...runStyle });
+                    break;
+                case 'w:drawing': {
+                    const image = convertDrawing(child, ctx, part, style.alignment);
+                    if (image) blocks.push(image);
+                    break;
+                }
+            }
+        });
+    });
+
+    const plain = runs.map(r => r.text).join('');
+    const rtl = style.rtl ?? firstStrongIsRtl(plain);
+    const bullet = first(pPr, 'w:numPr') ? '•  ' : '';
+    const fontSize = style.run.fontSize || DEFAULT_FONT_SIZE;
+    const paragraph: any = {
+        alignment: style.alignment || (rtl ? 'right' : 'left'),
+        fontSize,
+        lineHeight: style.lineHeight || 1.15,
+        margin: [rtl ? 0 : style.indent || 0, style.before || 0, rtl ? style.indent || 0 : 0, style.after || 0],
+    };
+    ctx.texts.push(plain);
+
+    if (!plain.trim()) {
+        // Empty paragraphs are kept as vertical space, unless they only carry an image or a page break
+        if (blocks.length === 0 && !pageBreak) blocks.push({ ...paragraph, text: ' ' });
+    } else if (containsRtl(plain)) {
+        // pdfMake cannot lay out bidirectional runs, so the paragraph is reordered as a whole
+        // and keeps the formatting of its first run
+        const maxChars = Math.max(20, Math.floor((width - (style.indent || 0)) / (fontSize * 0.5)));
+        const { text, ...firstRun } = runs.find(r => r.text.trim()) || runs[0];
+        blocks.unshift({ ...paragraph, ...firstRun, text: pdfText(rtl ? `${plain}${bullet.trim() ? ' •' : ''}` : `${bullet}${plain}`, rtl, maxChars) });
+    } else {
+        blocks.unshift({ ...paragraph, text: bullet ? [{ text: bullet }, ...runs] : runs });
+    }
+    if (pageBreak) blocks.push({ text: '', pageBreak: 'after' });
+    return blocks;
+};
+
+const hasVisibleBorders = (tblPr: Element | undefined, ctx: Context) => {
+    const borders = first(tblPr, 'w:tblBorders');
+    if (borders) return elements(borders).some(b => !['none', 'nil'].includes(val(b) || ''));
+    // Without explicit borders, fall back to the style name ("Table Grid" has lines, "Normal Table" does not)
+    const styleId = val(first(tblPr, 'w:tblStyle'));
+    return !!styleId && /grid/i.test(styleId) && ctx.styles.has(styleId);
+};
+
+const convertTable = (tbl: Element, ctx: Context, part: Part, width: number): any => {
+    const tblPr = first(tbl, 'w:tblPr');
+    const bidiVisual = toggle(first(tblPr, 'w:bidiVisual'));
+    let grid = elements(first(tbl, 'w:tblGrid'), 'w:gridCol').map(col => (num(col, 'w') || 0) * POINTS_PER_TWIP);
+    if (bidiVisual) grid = grid.reverse();
+    const columnCount = Math.max(grid.length, 1);
+    // Scale the grid down if the template is wider than the page content area
+    const gridTotal = grid.reduce((a, b) => a + b, 0);
+    const scale = gridTotal > width ? width / gridTotal : 1;
+    const widths = grid.length > 0 && gridTotal > 0 ? grid.map(w => w * scale) : Array(columnCount).fill(width / columnCount);
+
+    const body: any[][] = [];
+    const mergeStarts: Record<number, any> = {}; // Column index -> cell that started a vertical merge
+    let headerRows = 0;
+
+    elements(tbl, 'w:tr').forEach((tr, rowIndex) => {
+        if (toggle(first(first(tr, 'w:trPr'), 'w:tblHeader')) && headerRows === rowIndex) headerRows++;
+        const cells = elements(tr, 'w:tc');
+        const row: any[] = [];
+        let column = 0;
+        (bidiVisual ? cells.reverse() : cells).forEach(tc => {
+            const tcPr = first(tc, 'w:tcPr');
+            const span = num(first(tcPr, 'w:gridSpan'), 'val') || 1;
+            const vMerge = first(tcPr, 'w:vMerge');
+            const cellWidth = widths.slice(column, column + span).reduce((a, b) => a + b, 0) || width / columnCount;
+
+            if (vMerge && val(vMerge) !== 'restart' && mergeStarts[column]) {
+                mergeStarts[column].rowSpan = (mergeStarts[column].rowSpan || 1) + 1;
+                row.push({});
+            } else {
+                const fill = val(first(tcPr, 'w:shd'), 'fill');
+                const cell: any = {
+                    stack: convertBlocks(tc, ctx, part, cellWidth - 8),
+                    ...(span > 1 ? { colSpan: span } : {}),
+                    ...(fill && fill !== 'auto' ? { fillColor: `#${fill}` } : {}),
+                };
+                if (vMerge) mergeStarts[column] = cell;
+                else delete mergeStarts[column];
+                row.push(cell);
+            }
+            for (let i = 1; i < span; i++) row.push({});
+            column += span;
+        });
+        while (row.length < columnCount) row.push({ text: '' });
+        body.push(row.slice(0, Math.max(columnCount, 1)));
+    });
+
+    if (body.length === 0) return null;
+    return {
+        table: { widths: widths.slice(0, columnCount), body, ...(headerRows > 0 ? { headerRows } : {}) },
+        layout: hasVisibleBorders(tblPr, ctx) ? undefined : 'noBorders',
+        margin: [0, 0, 0, 6],
+    };
+};
+
+// Converts the block-level children (paragraphs and tables) of a body, header, footer or table cell
+const convertBlocks = (container: Element, ctx: Context, part: Part, width: number): any[] => {
+    return elements(container).flatMap(el => {
+        switch (el.tagName) {
+            case 'w:p': return convertParagraph(el, ctx, part, width);
+            case 'w:tbl': return [convertTable(el, ctx, part, width)].filter(Boolean);
+            case 'w:sdt': return convertBlocks(first(el, 'w:sdtContent')!, ctx, part, width);
+            case 'w:customXml': return convertBlocks(el, ctx, part, width);
+            default: return [];
+        }
+    });
+};
+
+// Header and footer content of the "default" type, which Word shows on every page
+const convertHeaderFooter = (sectPr: Element | undefined, kind: 'header' | 'footer', ctx: Context, documentRels: Map<string, string>, width: number): any[] => {
+    const ref = elements(sectPr, `w:${kind}Reference`).find(r => (val(r, 'type') || 'default') === 'default');
+    const path = ref ? documentRels.get(ref.getAttribute('r:id') || '') : undefined;
+    const doc = path ? readPart(ctx.zip, path) : null;
+    if (!doc || !path) return [];
+    return convertBlocks(doc.documentElement, ctx, { rels: loadRels(ctx.zip, path) }, width);
+};
+
+export const docxToPdfBlob = async (docx: ArrayBuffer): Promise<Blob> => {
+    const PizZip = (window as any).PizZip;
+    if (!PizZip) throw new Error("PizZip library not loaded.");
+    if (typeof pdfMake === 'undefined') {
+        throw new Error("PDF generation library not loaded. Internet connection required for first load.");
+    }
+    const zip = new PizZip(docx);
+    const doc = readPart(zip, 'word/document.xml');
+    const body = doc ? first(doc.documentElement, 'w:body') : undefined;
+    if (!body) throw new Error("The document has no body.");
+
+    const ctx: Context = { zip, ...loadStyles(zip), texts: [] };
+    const documentRels = loadRels(zip, 'word/document.xml');
+
+    // The last section's properties apply to the whole PDF; section breaks are not reproduced
+    const sectPr = first(body, 'w:sectPr');
+    const pgSz = first(sectPr, 'w:pgSz');
+    const pgMar = first(sectPr, 'w:pgMar');
+    const pageWidth = (num(pgSz, 'w') || 11906) * POINTS_PER_TWIP;
+    const pageHeight = (num(pgSz, 'h') || 16838) * POINTS_PER_TWIP;
+    const [top, right, bottom, left] = ['top', 'right', 'bottom', 'left'].map(side => Math.abs(num(pgMar, side) ?? 1440) * POINTS_PER_TWIP);
+    const headerDistance = (num(pgMar, 'header') ?? 720) * POINTS_PER_TWIP;
+    const footerDistance = (num(pgMar, 'footer') ?? 720) * POINTS_PER_TWIP;
+    const contentWidth = pageWidth - left - right;
+
+    const content = convertBlocks(body, ctx, { rels: documentRels }, contentWidth);
+    const header = convertHeaderFooter(sectPr, 'header', ctx, documentRels, contentWidth);
+    const footer = convertHeaderFooter(sectPr, 'footer', ctx, documentRels, contentWidth);
+    const font = await pickPdfFont(false, ctx.texts);
+
+    const docDefinition = {
+        pageSize: { width: pageWidth, height: pageHeight },
+        pageMargins: [left, top, right, bottom],
+        header: header.length > 0 ? () => ({ stack: header, margin: [left, headerDistance, right, 0] }) : undefined,
+        footer: footer.length > 0 ? () => ({ stack: footer, margin: [left, 0, right, footerDistance] }) : undefined,
+        content,
+        defaultStyle: { font, fontSize: ctx.defaults.run.fontSize || DEFAULT_FONT_SIZE }
+    };
+
+    return new Promise((resolve, reject) => {
+        try {
+            pdfMake.createPdf(docDefinition).getBlob((blob: Blob) => resolve(blob));
+        } catch (e) {
+            reject(e);
+        }
+    });
+};
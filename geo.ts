@@ -0,0 +1,138 @@
+import { GeoArea, GeoPoint, Mission } from './types';
+
+// --- Geolocation & Mission Map ---
+// Coordinates are captured with the Geolocation API at the start and end of a mission and
+// kept next to the typed location. The dashboard map needs no tile server: missions are
+// plotted on a plain latitude/longitude grid fitted to them, over country borders shipped
+// with the app, so it also works offline.
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6; // About 10 cm
+
+export const captureLocation = (): Promise<GeoPoint> => new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+        reject(new Error("Location is not available on this device."));
+        return;
+    }
+    navigator.geolocation.getCurrentPosition(
+        ({ coords, timestamp }) => resolve({ lat: round(coords.latitude), lng: round(coords.longitude), accuracy: Math.round(coords.accuracy), at: timestamp }),
+        error => reject(new Error(
+            error.code === error.PERMISSION_DENIED ? "Location permission was denied."
+                : error.code === error.TIMEOUT ? "Timed out while finding your location."
+                : "Your location could not be determined."
+        )),
+        { enableHighAccuracy: true, timeout: 20000, maximumAge: 60000 }
+    );
+});
+
+export const formatCoords = (point: GeoPoint) => `${point.lat.toFixed(5)}, ${point.lng.toFixed(5)}`;
+
+export const mapLink = (point: GeoPoint) => `https://www.openstreetmap.org/?mlat=${point.lat}&mlon=${point.lng}#map=16/${point.lat}/${point.lng}`;
+
+export const missionPoints = (mission: Mission): GeoPoint[] => [mission.startCoords, mission.finishCoords].filter(Boolean) as GeoPoint[];
+
+// A mission is in an area when it started or ended there
+export const isMissionInArea = (mission: Mission, area: GeoArea) =>
+    missionPoints(mission).some(p => p.lat >= area.south && p.lat <= area.north && p.lng >= area.west && p.lng <= area.east);
+
+// --- Map Projection ---
+// Equirectangular, with longitudes shrunk by the cosine of the middle latitude so that
+// distances look right locally. Good enough for the extent of one user's missions.
+
+const MIN_SPAN = 0.01; // Degrees; a single mission is shown with roughly a kilometre around it
+const PADDING = 0.15;
+
+export interface MapProjection {
+    view: GeoArea;
+    toXY: (point: { lat: number; lng: number }) => { x: number; y: number };
+    toPoint: (x: number, y: number) => { lat: number; lng: number };
+}
+
+export const fitProjection = (points: { lat: number; lng: number }[], width: number, height: number): MapProjection => {
+    const lats = points.map(p => p.lat);
+    const lngs = points.map(p => p.lng);
+    let south = points.length > 0 ? Math.min(...lats) : -60;
+    let north = points.length > 0 ? Math.max(...lats) : 75;
+    let west = points.length > 0 ? Math.min(...lngs) : -180;
+    let east = points.length > 0 ? Math.max(...lngs) : 180;
+    const midLat = (south + north) / 2;
+    const midLng = (west + east) / 2;
+    const shrink = Math.max(Math.cos(midLat * Math.PI / 180), 0.1);
+    // Degrees per pixel, large enough for both dimensions
+    const spanLat = Math.max(north - south, MIN_SPAN) * (1 + 2 * PADDING);
+    const spanLng = Math.max(east - west, MIN_SPAN) * (1 + 2 * PADDING);
+    const scale = Math.max(spanLat / height, spanLng * shrink / width);
+    south = midLat - scale * height / 2;
+    north = midLat + scale * height / 2;
+    west = midLng - scale * width / shrink / 2;
+    east = midLng + scale * width / shrink / 2;
+    return {
+        view: { south, west, north, east },
+        toXY: ({ lat, lng }) => ({ x: (lng - west) * shrink / scale, y: (north - lat) / scale }),
+        toPoint: (x, y) => ({ lat: north - y * scale, lng: west + x * scale / shrink }),
+    };
+};
+
+// Round-numbered grid lines (1, 2 or 5 × 10^n degrees), about `count` across the range
+export const gridLines = (from: number, to: number, count = 4): number[] => {
+    const rough = (to - from) / count;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+    const step = [1, 2, 5, 10].map(f => f * magnitude).find(s => s >= rough) || rough;
+    const lines: number[] = [];
+    for (let v = Math.ceil(from / step) * step; v <= to; v += step) lines.push(round(v));
+    return lines;
+};
+
+// --- Map Outline ---
+// Country borders from Natural Earth 1:110m (public domain, via the world-atlas package) with
+// coordinates rounded to 0.1°, in public/world-outline.json. The service worker precaches it.
+
+const OUTLINE_URL = '/world-outline.json';
+
+type Ring = [number, number][]; // [lng, lat] pairs, as in GeoJSON
+
+export interface WorldOutline {
+    type: 'FeatureCollection';
+    features: { type: 'Feature'; properties: { name: string }; geometry: { type: 'MultiPolygon'; coordinates: Ring[][] } }[];
+}
+
+let outlinePromise: Promise<WorldOutline | null> | null = null;
+
+// Resolves to null (and retries next time) if the outline cannot be loaded; the map then only shows the grid
+export const loadWorldOutline = (): Promise<WorldOutline | null> => {
+    if (outlinePromise) return outlinePromise;
+    outlinePromise = (async () => {
+        try {
+            const response = await fetch(OUTLINE_URL);
+            if (!response.ok) throw new Error(`Map outline download failed: ${response.status}`);
+            return await response.json() as WorldOutline;
+        } catch (e) {
+            console.warn("Map outline unavailable", e);
+            outlinePromise = null;
+            return null;
+        }
+    })();
+    return outlinePromise;
+};
+
+// One SVG path for the borders. Rings entirely outside the view are skipped, as most are on a close-up map.
+export const outlinePath = (outline: WorldOutline, projection: MapProjection): string => {
+    const { view } = projection;
+    const parts: string[] = [];
+    outline.features.forEach(feature => feature.geometry.coordinates.forEach(polygon => polygon.forEach(ring => {
+        const lngs = ring.map(p => p[0]);
+        const lats = ring.map(p => p[1]);
+        if (Math.max(...lngs) < view.west || Math.min(...lngs) > view.east || Math.max(...lats) < view.south || Math.min(...lats) > view.north) return;
+        parts.push(`M${ring.map(([lng, lat]) => {
+            const { x, y } = projection.toXY({ lat, lng });
+            return `${x.toFixed(1)},${y.toFixed(1)}`;
+        }).join('L')}Z`);
+    })));
+    return parts.join('');
+};
+
+export const areaFromCorners = (a: { lat: number; lng: number }, b: { lat: number; lng: number }): GeoArea => ({
+    south: Math.min(a.lat, b.lat),
+    north: Math.max(a.lat, b.lat),
+    west: Math.min(a.lng, b.lng),
+    east: Math.max(a.lng, b.lng),
+});
@@ -0,0 +1,540 @@
+import { Mission } from './types';
+
+// --- iCalendar Export ---
+// Missions store wall-clock dates and times without a zone. The zone they were recorded in
+// is chosen in settings (the device zone by default); timed events are converted to UTC
+// instants with that zone, so calendars in any other zone show them at the right moment.
+// Missions without both times become all-day events, which have no zone by definition.
+// The sync server serves the same events as a feed calendar apps can subscribe to (/calendar.ics).
+
+export const ICS_MIME = 'text/calendar;charset=utf-8';
+
+const PRODUCT_ID = '-//MissionLog AI//Missions//EN';
+const UID_DOMAIN = 'missionlog.app';
+const MAX_LINE_OCTETS = 75;
+
+export const deviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// IANA zone names offered in settings; older browsers only know the device zone
+export const availableTimeZones = (): string[] => {
+    const supported = (Intl as any).supportedValuesOf?.('timeZone') as string[] | undefined;
+    const zones = supported && supported.length > 0 ? [...supported] : [];
+    [deviceTimeZone(), 'UTC'].forEach(zone => { if (!zones.includes(zone)) zones.unshift(zone); });
+    return zones;
+};
+
+export const isValidTimeZone = (zone: string) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: zone });
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+export const resolveTimeZone = (zone?: string) => (zone && isValidTimeZone(zone) ? zone : deviceTimeZone());
+
+// Offset of `zone` from UTC at the given instant, in milliseconds
+const zoneOffset = (instant: number, zone: string): number => {
+    const parts: Record<string, number> = {};
+    new Intl.DateTimeFormat('en-US', {
+        timeZone: zone, hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(new Date(instant)).forEach(p => { if (p.type !== 'literal') parts[p.type] = Number(p.value); });
+    const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return asUtc - Math.floor(instant / 1000) * 1000;
+};
+
+// Converts a wall-clock date and time in `zone` to a UTC timestamp. The offset is measured a
+// second time at the result so days that switch to or from daylight saving time come out right.
+export const zonedTimeToUtc = (date: string, time: string, zone: string): number => {
+    const [y, mo, d] = date.split('-').map(Number);
+    const [h, mi] = time.split(':').map(Number);
+    const wallClock = Date.UTC(y, mo - 1, d, h, mi);
+    const guess = wallClock - zoneOffset(wallClock, zone);
+    return wallClock - zoneOffset(guess, zone);
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatUtc = (timestamp: number) => {
+    const d = new Date(timestamp);
+    return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const formatDateValue = (date: string) => date.replace(/-/g, '');
+
+const nextDay = (date: string) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().split('T')[0];
+};
+
+// RFC 5545 text escaping
+const escapeText = (text: string) => text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded with CRLF + space, without splitting a UTF-8 character
+const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const chunks: string[] = [];
+    let current = '';
+    let octets = 0;
+    for (const ch of line) {
+        const size = encoder.encode(ch).length;
+        const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (octets + size > limit) {
+            chunks.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += ch;
+        octets += size;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+};
+
+export const missionUid = (mission: Mission) => `${mission.id}@${UID_DOMAIN}`;
+
+const missionDescription = (mission: Mission): string => {
+    const parts = [mission.notes || ''];
+    (mission.itinerary || []).forEach(entry => {
+        const hours = entry.startTime || entry.finishTime ? ` ${entry.startTime || '--:--'} - ${entry.finishTime || '--:--'}` : '';
+        parts.push(`${entry.date}${hours}${entry.site ? ` ${entry.site}` : ''}${entry.activities ? `: ${entry.activities}` : ''}`);
+    });
+    return parts.filter(Boolean).join('\n');
+};
+
+const missionEvent = (mission: Mission, zone: string): string[] => {
+    const finishDate = mission.finishDate && mission.finishDate >= mission.date ? mission.finishDate : mission.date;
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${missionUid(mission)}`,
+        `DTSTAMP:${formatUtc(mission.updatedAt || mission.createdAt)}`,
+        `CREATED:${formatUtc(mission.createdAt)}`,
+    ];
+    if (mission.startTime && mission.finishTime) {
+        const start = zonedTimeToUtc(mission.date, mission.startTime, zone);
+        let end = zonedTimeToUtc(finishDate, mission.finishTime, zone);
+        // A single-day mission ending before it starts runs past midnight
+        if (end <= start) end = zonedTimeToUtc(nextDay(finishDate), mission.finishTime, zone);
+        lines.push(`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`);
+    } else {
+        // DTEND of an all-day event is exclusive
+        lines.push(`DTSTART;VALUE=DATE:${formatDateValue(mission.date)}`, `DTEND;VALUE=DATE:${formatDateValue(nextDay(finishDate))}`);
+    }
+    lines.push(`SUMMARY:${escapeText(mission.title || '')}`);
+    if (mission.location) lines.push(`LOCATION:${escapeText(mission.location)}`);
+    const description = missionDescription(mission);
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+// Builds a VCALENDAR with one VEVENT per mission. `zone` is the IANA zone the missions were recorded in.
+export const missionsToIcs = (missions: Mission[], zone: string, calendarName?: string): string => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-TIMEZONE:${zone}`,
+    ];
+    if (calendarName) lines.push(`X-WR-CALNAME:${escapeText(calendarName)}`);
+    missions.forEach(mission => lines.push(...missionEvent(mission, zone)));
+    lines.push('END:VCALENDAR');
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+export const missionsToIcsBlob = (missions: Mission[], zone: string, calendarName?: string): Blob =>
+    new Blob([missionsToIcs(missions, zone, calendarName)], { type: ICS_MIME });
+
+export const icsFileName = (start: string, end: string) => `Missions_${start}_${end}.ics`;
+
+// --- iCalendar Import ---
+// VEVENTs become missions in the zone chosen in settings: UTC and TZID times are converted,
+// floating times are taken as they are. Repeating events are expanded on the wall clock of
+// their own zone (so 09:00 stays 09:00 across daylight saving changes) within a chosen window.
+
+export interface IcsProperty {
+    value: string;
+    params: Record<string, string>;
+}
+
+export interface IcsEvent {
+    props: Record<string, IcsProperty[]>;
+    zoneAliases: Record<string, string>; // Non-IANA TZIDs mapped through their VTIMEZONE
+}
+
+export interface IcsImportRow {
+    key: string; // Stored as Mission.sourceUid
+    mission: Mission;
+    recurring: boolean;
+    alreadyImported: boolean;
+}
+
+interface WallClock {
+    date: string; // YYYY-MM-DD
+    time?: string; // HH:mm; absent for all-day values
+}
+
+interface IcsDateValue extends WallClock {
+    zone: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Upper bound on generated recurrence periods, so a daily rule without an end cannot hang the
+// import. Rules without COUNT are expanded from the import window, so the bound applies from there.
+const MAX_RECURRENCE_PERIODS = 5000;
+
+const unescapeText = (text: string) => text.replace(/\\([\\;,nN])/g, (_, ch) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+
+// Splits "NAME;PARAM=a;PARAM2="b:c":value" at the first colon outside quotes
+const parseContentLine = (line: string): { name: string; prop: IcsProperty } | null => {
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+    }
+    if (colon < 0) return null;
+    const [name, ...paramParts] = line.slice(0, colon).split(';');
+    const params: Record<string, string> = {};
+    paramParts.forEach(part => {
+        const eq = part.indexOf('=');
+        if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+    });
+    return { name: name.toUpperCase(), prop: { value: line.slice(colon + 1), params } };
+};
+
+// Reads the VEVENTs of a calendar file. Nested components such as VALARM are ignored.
+export const parseIcs = (text: string): IcsEvent[] => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) throw new Error("Not an iCalendar file.");
+    const events: IcsEvent[] = [];
+    const zoneAliases: Record<string, string> = {};
+    const stack: string[] = [];
+    let event: IcsEvent | null = null;
+    let timeZoneId = '';
+    lines.forEach(raw => {
+        const parsed = parseContentLine(raw.trim());
+        if (!parsed) return;
+        const { name, prop } = parsed;
+        if (name === 'BEGIN') {
+            const component = prop.value.toUpperCase();
+            stack.push(component);
+            if (component === 'VEVENT' && stack.length === 2) event = { props: {}, zoneAliases };
+            if (component === 'VTIMEZONE') timeZoneId = '';
+            return;
+        }
+        if (name === 'END') {
+            const component = stack.pop();
+            if (component === 'VEVENT' && event) { events.push(event); event = null; }
+            return;
+        }
+        const current = stack[stack.length - 1];
+        if (current === 'VEVENT' && event) {
+            (event.props[name] = event.props[name] || []).push(prop);
+        } else if (current === 'VTIMEZONE') {
+            if (name === 'TZID') timeZoneId = prop.value;
+            // Outlook names zones like "Romance Standard Time"; some exporters add the IANA name here
+            if (name === 'X-LIC-LOCATION' && timeZoneId) zoneAliases[timeZoneId] = prop.value;
+        }
+    });
+    return events;
+};
+
+// Resolves a TZID to an IANA zone, or null when it cannot be identified (the time is then treated as floating)
+const resolveTzid = (tzid: string, aliases: Record<string, string>): string | null => {
+    const candidates = [tzid, aliases[tzid], tzid.match(/([A-Za-z_]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/)?.[1]];
+    return candidates.find((zone): zone is string => !!zone && isValidTimeZone(zone)) || null;
+};
+
+// Wall-clock date and time of a UTC timestamp in `zone`
+export const utcToZonedTime = (timestamp: number, zone: string): Required<WallClock> => {
+    const iso = new Date(timestamp + zoneOffset(timestamp, zone)).toISOString();
+    return { date: iso.slice(0, 10), time: iso.slice(11, 16) };
+};
+
+const parseDateValue = (value: string, params: Record<string, string>, aliases: Record<string, string>, floatingZone: string): IcsDateValue | null => {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    if (!match[4] || params.VALUE === 'DATE') return { date, zone: floatingZone };
+    const time = `${match[4]}:${match[5]}`;
+    if (match[7]) return { date, time, zone: 'UTC' };
+    return { date, time, zone: (params.TZID && resolveTzid(params.TZID, aliases)) || floatingZone };
+};
+
+const addDays = (date: string, days: number) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + days);
+    return d.toISOString().split('T')[0];
+};
+
+const dayDiff = (from: string, to: string) => Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+const weekday = (date: string) => new Date(`${date}T00:00:00Z`).getUTCDay();
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const toDate = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+
+// ISO 8601 duration (P1DT2H30M, P2W) in milliseconds
+const parseDuration = (value: string): number => {
+    const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return 0;
+    const [, sign, w, d, h, m, sec] = match;
+    const ms = ((Number(w || 0) * 7 + Number(d || 0)) * 86400 + Number(h || 0) * 3600 + Number(m || 0) * 60 + Number(sec || 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+};
+
+interface RecurrenceRule {
+    freq: string;
+    interval: number;
+    count?: number;
+    until?: string; // "YYYY-MM-DD HH:mm" on the event's wall clock, for string comparison
+    byDay: { n: number; day: number }[];
+    byMonthDay: number[];
+    byMonth: number[];
+}
+
+const parseRule = (value: string, start: IcsDateValue, aliases: Record<string, string>): RecurrenceRule | null => {
+    const parts: Record<string, string> = {};
+    value.split(';').forEach(part => {
+        const [k, v] = part.split('=');
+        if (k && v) parts[k.toUpperCase()] = v.toUpperCase();
+    });
+    if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(parts.FREQ)) return null;
+    let until: string | undefined;
+    if (parts.UNTIL) {
+        const u = parseDateValue(parts.UNTIL, {}, aliases, start.zone);
+        if (u) {
+            const local = u.time && u.zone !== start.zone ? utcToZonedTime(zonedTimeToUtc(u.date, u.time, u.zone), start.zone) : u;
+            until = `${local.date} ${local.time || '23:59'}`;
+        }
+    }
+    return {
+        freq: parts.FREQ,
+        interval: Math.max(1, Number(parts.INTERVAL) || 1),
+        count: parts.COUNT ? Number(parts.COUNT) : undefined,
+        until,
+        byDay: (parts.BYDAY || '').split(',').filter(Boolean).map(d => {
+            const m = d.match(/^([+-]?\d+)?([A-Z]{2})$/);
+            return { n: m && m[1] ? Number(m[1]) : 0, day: m ? WEEKDAYS.indexOf(m[2]) : -1 };
+        }).filter(d => d.day >= 0),
+        byMonthDay: (parts.BYMONTHDAY || '').split(',').filter(Boolean).map(Number),
+        byMonth: (parts.BYMONTH || '').split(',').filter(Boolean).map(Number),
+    };
+};
+
+// Candidate days of one month for MONTHLY/YEARLY rules
+const monthCandidates = (year: number, month: number, rule: RecurrenceRule, startDay: number): string[] => {
+    const total = daysInMonth(year, month);
+    let days: number[];
+    if (rule.byMonthDay.length > 0) {
+        days = rule.byMonthDay.map(d => (d < 0 ? total + d + 1 : d)).filter(d => d >= 1 && d <= total);
+        if (rule.byDay.length > 0) days = days.filter(d => rule.byDay.some(b => b.day === weekday(toDate(year, month, d))));
+    } else if (rule.byDay.length > 0) {
+        days = [];
+        rule.byDay.forEach(({ n, day }) => {
+            const matching = Array.from({ length: total }, (_, i) => i + 1).filter(d => weekday(toDate(year, month, d)) === day);
+            if (n === 0) days.push(...matching);
+            else {
+                const picked = n > 0 ? matching[n - 1] : matching[matching.length + n];
+                if (picked) days.push(picked);
+            }
+        });
+    } else {
+        // Months without that day (e.g. the 31st) are skipped, as RFC 5545 requires
+        days = startDay <= total ? [startDay] : [];
+    }
+    return days.map(d => toDate(year, month, d));
+};
+
+// The period that `windowStart` falls in. Periods before it can only be skipped when no COUNT
+// needs the occurrences before the window to be counted.
+const firstPeriod = (rule: RecurrenceRule, start: IcsDateValue, windowStart: string): number => {
+    if (rule.count !== undefined || windowStart <= start.date) return 0;
+    const [startYear, startMonth] = start.date.split('-').map(Number);
+    const [windowYear, windowMonth] = windowStart.split('-').map(Number);
+    const elapsed = rule.freq === 'DAILY' ? dayDiff(start.date, windowStart)
+        : rule.freq === 'WEEKLY' ? Math.floor(dayDiff(startOfWeek(start.date), windowStart) / 7)
+        : rule.freq === 'MONTHLY' ? (windowYear - startYear) * 12 + windowMonth - startMonth
+        : windowYear - startYear;
+    return Math.floor(elapsed / rule.interval);
+};
+
+// Weeks start on Monday (the WKST default)
+const startOfWeek = (date: string) => addDays(date, -((weekday(date) + 6) % 7));
+
+// Occurrence dates of a repeating event, on the wall clock of its zone, from the period
+// containing `windowStart` up to `windowEnd`
+const expandRule = (rule: RecurrenceRule, start: IcsDateValue, windowStart: string, windowEnd: string): string[] => {
+    const [startYear, startMonth, startDay] = start.date.split('-').map(Number);
+    const time = start.time || '00:00';
+    const dates: string[] = [];
+    let produced = 0;
+    const first = firstPeriod(rule, start, windowStart);
+    for (let period = first; period < first + MAX_RECURRENCE_PERIODS; period++) {
+        let candidates: string[];
+        let periodStart: string;
+        if (rule.freq === 'DAILY') {
+            periodStart = addDays(start.date, period * rule.interval);
+            // BYDAY and BYMONTHDAY only limit which days count
+            const total = daysInMonth(Number(periodStart.slice(0, 4)), Number(periodStart.slice(5, 7)));
+            const dayOfMonth = Number(periodStart.slice(8, 10));
+            const matchesDay = rule.byDay.length === 0 || rule.byDay.some(b => b.day === weekday(periodStart));
+            const matchesMonthDay = rule.byMonthDay.length === 0 || rule.byMonthDay.some(d => (d < 0 ? total + d + 1 : d) === dayOfMonth);
+            candidates = matchesDay && matchesMonthDay ? [periodStart] : [];
+        } else if (rule.freq === 'WEEKLY') {
+            const monday = startOfWeek(start.date);
+            periodStart = addDays(monday, period * rule.interval * 7);
+            const days = rule.byDay.length > 0 ? rule.byDay.map(b => b.day) : [weekday(start.date)];
+            candidates = Array.from({ length: 7 }, (_, i) => addDays(periodStart, i)).filter(d => days.includes(weekday(d)));
+        } else if (rule.freq === 'MONTHLY') {
+            const monthIndex = startMonth - 1 + period * rule.interval;
+            const year = startYear + Math.floor(monthIndex / 12);
+            const month = (monthIndex % 12) + 1;
+            periodStart = toDate(year, month, 1);
+            candidates = monthCandidates(year, month, rule, startDay);
+        } else {
+            const year = startYear + period * rule.interval;
+            periodStart = toDate(year, 1, 1);
+            const months = rule.byMonth.length > 0 ? rule.byMonth : [startMonth];
+            candidates = months.flatMap(month => monthCandidates(year, month, rule, startDay));
+        }
+        if (periodStart > windowEnd) break;
+        const sorted = [...new Set(candidates)]
+            .filter(d => rule.byMonth.length === 0 || rule.byMonth.includes(Number(d.slice(5, 7))))
+            .filter(d => d >= start.date)
+            .sort();
+        for (const date of sorted) {
+            if (rule.until && `${date} ${time}` > rule.until) return dates;
+            if (rule.count !== undefined && produced >= rule.count) return dates;
+            produced++;
+            dates.push(date);
+        }
+    }
+    return dates;
+};
+
+const firstValue = (event: IcsEvent, name: string) => event.props[name]?.[0];
+
+// Builds the mission for one occurrence starting on the event's wall clock at `date` (+ the DTSTART time)
+const occurrenceMission = (event: IcsEvent, start: IcsDateValue, durationMs: number, zone: string, key: string, createdAt: number): Mission => {
+    const text = (name: string) => unescapeText(firstValue(event, name)?.value || '').trim();
+    const mission: Mission = {
+        id: Math.random().toString(36).substr(2, 9),
+        title: text('SUMMARY'),
+        location: text('LOCATION'),
+        date: start.date,
+        notes: text('DESCRIPTION'),
+        createdAt,
+        sourceUid: key,
+    };
+    if (start.time) {
+        const begin = zonedTimeToUtc(start.date, start.time, start.zone);
+        const from = utcToZonedTime(begin, zone);
+        const to = utcToZonedTime(begin + Math.max(0, durationMs), zone);
+        mission.date = from.date;
+        mission.startTime = from.time;
+        mission.finishTime = to.time;
+        if (to.date !== from.date) mission.finishDate = to.date;
+    } else {
+        // All-day events end on the (exclusive) day after their last day
+        const days = Math.max(1, Math.round(durationMs / 86400000));
+        if (days > 1) mission.finishDate = addDays(start.date, days - 1);
+    }
+    return mission;
+};
+
+// Converts parsed events to missions in `zone`. Repeating events are expanded to occurrences that start
+// between `windowStart` and `windowEnd` (YYYY-MM-DD). Events whose UID (or UID + occurrence date) was
+// already imported, or that were exported from one of `existing`, are flagged so the caller can skip them.
+export const buildIcsImportRows = (events: IcsEvent[], zone: string, windowStart: string, windowEnd: string, existing: Mission[]): IcsImportRow[] => {
+    const importedKeys = new Set(existing.map(m => m.sourceUid).filter(Boolean));
+    const exportedIds = new Set(existing.map(m => missionUid(m)));
+    const isCancelled = (event: IcsEvent) => (firstValue(event, 'STATUS')?.value || '').toUpperCase() === 'CANCELLED';
+    const startOf = (event: IcsEvent) => {
+        const prop = firstValue(event, 'DTSTART');
+        return prop ? parseDateValue(prop.value, prop.params, event.zoneAliases, zone) : null;
+    };
+    // Measured on the event's own DTSTART, then applied to each occurrence
+    const durationOf = (event: IcsEvent): number => {
+        const start = startOf(event);
+        if (!start) return 0;
+        const end = firstValue(event, 'DTEND');
+        const endValue = end ? parseDateValue(end.value, end.params, event.zoneAliases, zone) : null;
+        if (endValue && start.time && endValue.time) {
+            return zonedTimeToUtc(endValue.date, endValue.time, endValue.zone) - zonedTimeToUtc(start.date, start.time, start.zone);
+        }
+        if (endValue) return dayDiff(start.date, endValue.date) * 86400000;
+        const duration = firstValue(event, 'DURATION');
+        if (duration) return parseDuration(duration.value.trim());
+        return start.time ? 0 : 86400000;
+    };
+    // Changed occurrences of repeating events carry the master's UID and the original start as RECURRENCE-ID
+    const overrides = new Map<string, IcsEvent>();
+    events.forEach(event => {
+        const uid = firstValue(event, 'UID')?.value;
+        const recurrenceId = firstValue(event, 'RECURRENCE-ID');
+        if (!uid || !recurrenceId) return;
+        const master = events.find(e => e !== event && !firstValue(e, 'RECURRENCE-ID') && firstValue(e, 'UID')?.value === uid);
+        const original = parseDateValue(recurrenceId.value, recurrenceId.params, event.zoneAliases, zone);
+        const masterStart = master && startOf(master);
+        if (!original || !masterStart) return;
+        const local = original.time && original.zone !== masterStart.zone
+            ? utcToZonedTime(zonedTimeToUtc(original.date, original.time, original.zone), masterStart.zone)
+            : original;
+        overrides.set(`${uid}/${local.date}`, event);
+    });
+
+    const rows: IcsImportRow[] = [];
+    const seen = new Set<string>();
+    const now = Date.now();
+    const addRow = (event: IcsEvent, start: IcsDateValue, key: string, uid: string, recurring: boolean) => {
+        if (seen.has(key) || isCancelled(event)) return;
+        seen.add(key);
+        const mission = occurrenceMission(event, start, durationOf(event), zone, key, now + rows.length);
+        rows.push({ key, mission, recurring, alreadyImported: importedKeys.has(key) || exportedIds.has(uid) });
+    };
+
+    const usedOverrides = new Set(overrides.values());
+    events.forEach((event, index) => {
+        const start = startOf(event);
+        if (!start) return;
+        const uid = firstValue(event, 'UID')?.value || `event-${index}`;
+        if (firstValue(event, 'RECURRENCE-ID')) {
+            // A changed occurrence sent without its series is imported on its own
+            if (!usedOverrides.has(event) && start.date >= windowStart && start.date <= windowEnd) addRow(event, start, `${uid}/${start.date}`, uid, true);
+            return;
+        }
+        const rrule = firstValue(event, 'RRULE');
+        const rule = rrule ? parseRule(rrule.value, start, event.zoneAliases) : null;
+        if (!rule && !event.props.RDATE) {
+            addRow(event, start, uid, uid, false);
+            return;
+        }
+        const toLocalDate = (prop: IcsProperty) => prop.value.split(',').map(v => parseDateValue(v, prop.params, event.zoneAliases, start.zone))
+            .filter((v): v is IcsDateValue => !!v)
+            .map(v => (v.time && v.zone !== start.zone ? utcToZonedTime(zonedTimeToUtc(v.date, v.time, v.zone), start.zone).date : v.date));
+        const excluded = new Set((event.props.EXDATE || []).flatMap(toLocalDate));
+        const dates = new Set([...(rule ? expandRule(rule, start, windowStart, windowEnd) : [start.date]), ...(event.props.RDATE || []).flatMap(toLocalDate)]);
+        [...dates].sort().filter(date => date >= windowStart && date <= windowEnd && !excluded.has(date)).forEach(date => {
+            const key = `${uid}/${date}`;
+            const override = overrides.get(key);
+            const overrideStart = override && startOf(override);
+            if (override && overrideStart) addRow(override, overrideStart, key, uid, true);
+            else addRow(event, { ...start, date }, key, uid, true);
+        });
+    });
+    return rows.sort((a, b) => a.mission.date.localeCompare(b.mission.date) || (a.mission.startTime || '').localeCompare(b.mission.startTime || ''));
+};
+
+export const hasRecurringEvents = (events: IcsEvent[]) => events.some(e => e.props.RRULE || e.props.RDATE);
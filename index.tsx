@@ -3,6 +3,8 @@ import { createRoot } from 'react-dom/client';
 import { GoogleGenAI, Type } from "@google/genai";
 import {
   Calendar,
+  SlidersHorizontal,
+  CalendarPlus,
   MapPin,
   FileText,
   Settings as SettingsIcon,
@@ -24,7 +26,19 @@ import {
   Archive,
   Clock,
   ChevronDown,
+  ChevronUp,
   User,
+  Users,
+  UserPlus,
+  Lock,
+  KeyRound,
+  Fingerprint,
+  Cloud,
+  AlertTriangle,
+  ShieldCheck,
+  Inbox,
+  MessageSquare,
+  Send,
   Briefcase,
   Sparkles,
   Globe,
@@ -39,16 +53,57 @@ import {
   FileType,
   Monitor,
   Wifi,
-  WifiOff
+  WifiOff,
+  Pencil,
+  Camera,
+  Paperclip,
+  Image as ImageIcon,
+  Map as MapIcon,
+  Crosshair,
+  Sheet
 } from 'lucide-react';
-import { Mission, Settings, Template, UserProfile, Language, BeforeInstallPromptEvent } from './types';
-import { 
-  DEFAULT_TEMPLATE_BASE64, 
-  TRANSLATIONS, 
-  STORAGE_KEY_MISSIONS, 
-  STORAGE_KEY_SETTINGS, 
-  STORAGE_KEY_USER_PROFILE 
-} from './constants';
+import { Mission, MissionStatus, Settings, Template, UserProfile, Language, BeforeInstallPromptEvent, BackupFile, RestoreMode, EmailDraft, AIMagicFillResponse, AISearchResponse, PendingDraft, ItineraryEntry, AttachmentRef, PdfField, PdfLayout, LockConfig, SyncState, SyncConflict, GeoArea, TeamState, TeamRole, ReviewStatus, ReviewEvent, MissionReview } from './types';
+import { DEFAULT_TEMPLATE_BASE64, TRANSLATIONS } from './constants';
+import {
+  migrateFromLocalStorage,
+  loadMissions,
+  saveMissions,
+  loadSettings,
+  saveSettings,
+  loadProfiles,
+  saveProfiles,
+  loadActiveProfileId,
+  saveActiveProfileId,
+  loadDrafts,
+  saveDrafts,
+  deleteAttachments,
+  deleteMissionAttachments,
+  clearAllData,
+  loadPreferences,
+  loadLockConfig,
+  saveLockConfig,
+  setDataKey,
+  resealAll,
+  loadSyncState,
+  saveSyncState,
+  loadTeamState,
+  saveTeamState
+} from './storage';
+import { saveAttachment, loadAttachmentBlob, loadMissionImages, blobToDataUrl, isImage, formatFileSize } from './attachments';
+import { pdfText, pickPdfFont, getActivePdfLayout, createPdfLayout, PDF_FIELDS, PDF_ROW_FIELDS, PDF_PAGE_SIZES, DOCX_PDF_LAYOUT_ID } from './pdf';
+import { docxToPdfBlob } from './docxToPdf';
+import { ACTIVITY_REPORT_LOOPS, ACTIVITY_REPORT_TAGS, formatDuration, activityReportFileName, generateActivityReportDocx, generateActivityReportPdf, summarizeMissions } from './activityReport';
+import { missionsToCsv, missionsToXlsx, spreadsheetFileName, readSpreadsheet, guessMapping, buildImportRows, IMPORT_FIELDS, ParsedSheet } from './spreadsheet';
+import { missionsToIcsBlob, icsFileName, availableTimeZones, resolveTimeZone, deviceTimeZone, parseIcs, buildIcsImportRows, hasRecurringEvents, IcsEvent } from './ics';
+import { MISSION_STATUSES, getMissionStatus, earliestStatus, localToday, localDate } from './status';
+import { EMPTY_FILTER, MISSION_SORTS, MissionFilter, MissionSort, SearchIntent, filterMissions, isFilterActive, locationFacets, filterFromAi, aggregateMissions, isMissionInRange } from './search';
+import { DEFAULT_PROFILE_ID, createProfileId, assignOwner, findProfile, applyProfilePreferences } from './profiles';
+import { SyncData, createSyncState, defaultDeviceName, checkSyncServer, trackLocalChanges, pendingChangeCount, syncNow, applyRemoteRecords, restoreConflict } from './sync';
+import { captureLocation, formatCoords, mapLink, missionPoints, fitProjection, gridLines, areaFromCorners, loadWorldOutline, outlinePath, WorldOutline } from './geo';
+import { createTeamState, fetchTeamMember, addReviewEvent, approvalOf, isApprovalOutdated, canSubmitForReview, markPending, reviewInboxItem, syncTeam, applyReviews } from './team';
+import { MIN_PIN_LENGTH, createLock, setPin, unlockWithPin, isBiometricAvailable, enrollBiometric, unlockWithBiometric } from './lock';
+import { createBackup, createBackupFromStorage, backupFileName, parseBackup, applyBackup, restoreAttachments, RestoreResult } from './backup';
+import { BUILTIN_TEMPLATE_TAGS, APPROVAL_TEMPLATE_TAGS, DOCX_MIME, extractTemplateTags, appendParagraph, getTemplateTags, getActiveCustomFields, humanizeTag, renderTemplate, validateTemplate, TemplateValidationReport } from './templates';
 
 // External libraries loaded via script tags
 declare const PizZip: any;
@@ -59,16 +114,12 @@ declare const pdfMake: any;
 
 const generateId = () => Math.random().toString(36).substr(2, 9);
 
-function safeJsonParse(key: string, fallback: any): any {
-    try {
-        const item = localStorage.getItem(key);
-        return item ? JSON.parse(item) : fallback;
-    } catch (e) {
-        console.warn(`Failed to parse ${key}, resetting to default.`);
-        return fallback;
-    }
-}
+// Shared Gemini client setup for every AI feature
+const AI_MODEL = 'gemini-3-flash-preview';
+const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+// Mission dates are zone-less calendar days; 'YYYY-MM-DD' parses as UTC midnight, so it is formatted in UTC
+// to show the stored day everywhere. Zone conversions for calendar export live in ics.ts.
 const formatDate = (dateStr: string, locale: string = 'en-US') => {
   if (!dateStr) return '';
   const date = new Date(dateStr);
@@ -90,6 +141,32 @@ const formatTime = (timeStr?: string) => {
     return `${hour12}:${m} ${ampm}`;
 };
 
+const formatHours = (entry: { startTime?: string; finishTime?: string }) =>
+    entry.startTime || entry.finishTime ? `${entry.startTime || '--:--'} - ${entry.finishTime || '--:--'}` : '';
+
+// Tailwind classes per status: badge/chip, calendar day, list accent bar, map marker
+const STATUS_STYLES: Record<MissionStatus, { badge: string; day: string; bar: string; dot: string }> = {
+    planned: { badge: 'bg-sky-50 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300', day: 'bg-sky-100 dark:bg-sky-900/60 text-sky-700 dark:text-sky-300 hover:bg-sky-200 dark:hover:bg-sky-800', bar: 'bg-sky-400', dot: 'fill-sky-400' },
+    in_progress: { badge: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300', day: 'bg-amber-100 dark:bg-amber-900/60 text-amber-700 dark:text-amber-300 hover:bg-amber-200 dark:hover:bg-amber-800', bar: 'bg-amber-400', dot: 'fill-amber-400' },
+    completed: { badge: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300', day: 'bg-green-100 dark:bg-green-900/60 text-green-700 dark:text-green-300 hover:bg-green-200 dark:hover:bg-green-800', bar: 'bg-green-500', dot: 'fill-green-500' },
+    reported: { badge: 'bg-brand-50 dark:bg-brand-900/30 text-brand-700 dark:text-brand-300', day: 'bg-brand-100 dark:bg-brand-900 text-brand-700 dark:text-brand-300 hover:bg-brand-200 dark:hover:bg-brand-800', bar: 'bg-brand-500', dot: 'fill-brand-500' },
+};
+
+const statusLabel = (t: any, status: MissionStatus) => ({ planned: t.planned, in_progress: t.inProgress, completed: t.completed, reported: t.reported })[status];
+
+const REVIEW_STYLES: Record<ReviewStatus, string> = {
+    submitted: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300',
+    changes_requested: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300',
+    approved: 'bg-green-50 dark:bg-green-900/30 text-green-700 dark:text-green-300',
+};
+
+const reviewStatusLabel = (t: any, status: ReviewStatus) => ({ submitted: t.reviewSubmitted, changes_requested: t.reviewChangesRequested, approved: t.reviewApproved })[status];
+
+const reviewEventLabel = (t: any, type: ReviewEvent['type']) => ({ submitted: t.eventSubmitted, comment: t.eventComment, changes_requested: t.eventChangesRequested, approved: t.eventApproved })[type];
+
+// Printed on reports of approved missions
+const approvalLine = (t: any, approval: ReviewEvent) => `${t.approvedBy} ${approval.by} · ${localDate(new Date(approval.at))}`;
+
 const getGreeting = (t: any) => {
     if (!t) return 'Hello';
     const hour = new Date().getHours();
@@ -98,6 +175,22 @@ const getGreeting = (t: any) => {
     return t.greetingEvening;
 };
 
+const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a"); a.href = url; a.download = fileName; a.style.display = 'none';
+    document.body.appendChild(a); a.click();
+    setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(url); }, 100);
+};
+
+const reportFileName = (mission: Mission, ext: 'docx' | 'pdf' | 'ics') => {
+    const safeName = mission.title.replace(/[^a-z0-9]/gi, '_').substring(0, 30);
+    return `${mission.date}_${safeName}.${ext}`;
+};
+
+const downloadBackup = (backup: BackupFile) => {
+    downloadBlob(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }), backupFileName());
+};
+
 const base64ToArrayBuffer = (base64: string) => {
     if (!base64 || base64.length % 4 !== 0) {
         throw new Error("Invalid Base64 string");
@@ -111,47 +204,136 @@ const base64ToArrayBuffer = (base64: string) => {
     return bytes.buffer;
 };
 
-const generatePdfBlob = (mission: Mission, userProfile: UserProfile): Promise<Blob> => {
-    return new Promise((resolve, reject) => {
-        if (typeof pdfMake === 'undefined') {
-             reject(new Error("PDF generation library not loaded. Internet connection required for first load."));
-             return;
+const generatePdfBlob = async (mission: Mission, userProfile: UserProfile, settings: Settings): Promise<Blob> => {
+    if (typeof pdfMake === 'undefined') {
+        throw new Error("PDF generation library not loaded. Internet connection required for first load.");
+    }
+    // Converting the rendered DOCX keeps the official template's layout in the PDF
+    if (settings.activePdfLayoutId === DOCX_PDF_LAYOUT_ID) {
+        const docx = await generateDocxBlob(mission, settings, userProfile);
+        if (!docx) throw new Error("The DOCX report could not be generated.");
+        return docxToPdfBlob(await docx.arrayBuffer());
+    }
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const layout = getActivePdfLayout(settings, t.missionReport, t.generatedBy);
+    const rtl = settings.language === 'ar';
+    const align = rtl ? 'right' : 'left';
+    const shows = (field: PdfField) => layout.fields.includes(field);
+    const itinerary = shows('itinerary') ? mission.itinerary || [] : [];
+    const customRows = shows('customFields') ? Object.entries(mission.customFields || {}).filter(([, value]) => value) : [];
+
+    // pdfMake only accepts images as data URLs; other attachment types are listed by name
+    const images = shows('attachments') ? await Promise.all((await loadMissionImages(mission)).map(async ({ blob }) => blobToDataUrl(blob))) : [];
+    const otherFiles = shows('attachments') ? (mission.attachments || []).filter(ref => !isImage(ref)) : [];
+    const approval = approvalOf(mission);
+    const font = await pickPdfFont(rtl, [layout.headerText, layout.footerText, layout.signature.label, mission.title, mission.location, mission.notes, userProfile.fullName, userProfile.profession, approval?.by || '', ...customRows.map(([, value]) => value), ...itinerary.flatMap(e => [e.site, e.activities])]);
+
+    // RTL reports mirror every table: the label column sits on the right
+    const txt = (value: string, maxChars?: number) => pdfText(value || '', rtl, maxChars);
+    const mirror = <T,>(cells: T[]) => rtl ? [...cells].reverse() : cells;
+    const label = (text: string) => ({ text: txt(text), bold: true, fillColor: '#f3f4f6', alignment: align });
+    const row = ([name, value]: [string, string]) => mirror([label(name), { text: txt(value, 60), alignment: align }]);
+    const subheader = (text: string) => ({ text: txt(text), style: 'subheader', alignment: align, margin: [0, 0, 0, 5] });
+
+    const rowsFor = (field: PdfField): [string, string][] => {
+        switch (field) {
+            case 'title': return [[t.title, mission.title]];
+            case 'date': return [[t.date, mission.date]];
+            case 'time': return [[t.time, formatHours(mission) || '--:-- - --:--']];
+            case 'location': return [
+                [t.location, mission.location],
+                ...(mission.startCoords ? [[t.startCoords, formatCoords(mission.startCoords)] as [string, string]] : []),
+                ...(mission.finishCoords ? [[t.finishCoords, formatCoords(mission.finishCoords)] as [string, string]] : []),
+            ];
+            case 'reporter': return [[t.reporter, userProfile.fullName]];
+            case 'profession': return [[t.profession, userProfile.profession]];
+            case 'cni': return [[t.cni, userProfile.cni]];
+            case 'ppn': return [[t.ppn, userProfile.ppn]];
+            case 'customFields': return customRows.map(([key, value]) => [humanizeTag(key), value]);
+            default: return [];
         }
+    };
 
-        try {
-            const docDefinition = {
-                content: [
-                    { text: 'MISSION REPORT', style: 'header', alignment: 'center', margin: [0, 0, 0, 20] },
-                    {
-                        style: 'tableExample',
-                        table: {
-                            widths: ['30%', '70%'],
-                            body: [
-                                [{ text: 'Title', bold: true, fillColor: '#f3f4f6' }, mission.title],
-                                [{ text: 'Date', bold: true, fillColor: '#f3f4f6' }, mission.date],
-                                [{ text: 'Time', bold: true, fillColor: '#f3f4f6' }, `${mission.startTime || '--:--'} - ${mission.finishTime || '--:--'}`],
-                                [{ text: 'Location', bold: true, fillColor: '#f3f4f6' }, mission.location],
-                                [{ text: 'Reporter', bold: true, fillColor: '#f3f4f6' }, userProfile.fullName],
-                                [{ text: 'Profession', bold: true, fillColor: '#f3f4f6' }, userProfile.profession],
-                                [{ text: 'ID / CNI', bold: true, fillColor: '#f3f4f6' }, userProfile.cni],
-                            ]
-                        },
-                        layout: 'lightHorizontalLines',
-                        margin: [0, 0, 0, 20]
+    const sectionFor = (field: PdfField): any[] => {
+        switch (field) {
+            case 'itinerary': return itinerary.length === 0 ? [] : [
+                subheader(t.itinerary),
+                {
+                    table: {
+                        headerRows: 1,
+                        widths: mirror(['auto', '25%', '*', 'auto']),
+                        body: [
+                            mirror([t.date, t.site, t.activities, t.hours].map(label)),
+                            ...itinerary.map(entry => mirror([entry.date, txt(entry.site, 20), txt(entry.activities, 40), formatHours(entry)].map(text => ({ text, alignment: align }))))
+                        ]
                     },
-                    { text: 'Notes', style: 'subheader', margin: [0, 0, 0, 5] },
-                    { text: mission.notes || "No notes provided.", fontSize: 11, lineHeight: 1.5, margin: [0, 0, 0, 20] },
-                    { text: `Generated by MissionLog AI`, style: 'footer', alignment: 'center', color: '#9ca3af', fontSize: 8, margin: [0, 20, 0, 0] }
-                ],
-                styles: {
-                    header: { fontSize: 18, bold: true, color: '#2563eb' },
-                    subheader: { fontSize: 14, bold: true, color: '#374151' },
-                    footer: { fontSize: 8 }
-                },
-                defaultStyle: {
-                    font: 'Roboto'
+                    layout: 'lightHorizontalLines',
+                    fontSize: 10,
+                    margin: [0, 0, 0, 20]
                 }
-            };
+            ];
+            case 'notes': return [
+                subheader(t.notes),
+                { text: txt(mission.notes || t.noNotes), fontSize: 11, lineHeight: 1.5, alignment: align, margin: [0, 0, 0, 20] }
+            ];
+            case 'attachments': return images.length === 0 && otherFiles.length === 0 ? [] : [
+                subheader(t.attachments),
+                ...images.map(image => ({ image, fit: [500, 350], alignment: 'center', margin: [0, 5, 0, 10] })),
+                ...otherFiles.map(ref => ({ text: rtl ? `${txt(ref.name)} •` : `• ${ref.name}`, fontSize: 10, alignment: align }))
+            ];
+            default: return [];
+        }
+    };
+
+    // Walk the layout's fields in order, collecting consecutive row fields into one table
+    const body: any[] = [];
+    let rows: any[] = [];
+    const flushRows = () => {
+        if (rows.length === 0) return;
+        body.push({ table: { widths: mirror(['30%', '70%']), body: rows }, layout: 'lightHorizontalLines', margin: [0, 0, 0, 20] });
+        rows = [];
+    };
+    layout.fields.forEach(field => {
+        if (PDF_ROW_FIELDS.includes(field)) {
+            rows.push(...rowsFor(field).map(row));
+        } else {
+            flushRows();
+            body.push(...sectionFor(field));
+        }
+    });
+    flushRows();
+
+    const signature = {
+        width: 200,
+        unbreakable: true,
+        stack: [
+            { text: txt(layout.signature.label), bold: true, fontSize: 10, alignment: align },
+            { canvas: [{ type: 'line', x1: 0, y1: 40, x2: 200, y2: 40, lineWidth: 0.5 }] },
+            ...(layout.signature.showName ? [{ text: txt(userProfile.fullName), fontSize: 10, alignment: align, margin: [0, 5, 0, 0] }] : [])
+        ]
+    };
+
+    const docDefinition = {
+        pageSize: layout.pageSize,
+        content: [
+            ...(layout.logo ? [{ image: layout.logo, fit: [160, 60], alignment: 'center', margin: [0, 0, 0, 10] }] : []),
+            ...(layout.headerText ? [{ text: txt(layout.headerText), style: 'header', alignment: 'center', margin: [0, 0, 0, 20] }] : []),
+            ...(approval ? [{ table: { widths: ['*'], body: [[{ text: txt(approvalLine(t, approval)), bold: true, color: '#15803d', alignment: 'center', margin: [0, 4, 0, 4] }]] }, layout: { hLineColor: () => '#15803d', vLineColor: () => '#15803d' }, margin: [0, 0, 0, 20] }] : []),
+            ...body,
+            ...(layout.signature.enabled ? [{ columns: mirror([{ width: '*', text: '' }, signature]), margin: [0, 30, 0, 0] }] : [])
+        ],
+        footer: layout.footerText ? () => ({ text: txt(layout.footerText), alignment: 'center', color: '#9ca3af', fontSize: 8, margin: [40, 20, 40, 0] }) : undefined,
+        styles: {
+            header: { fontSize: 18, bold: true, color: '#2563eb' },
+            subheader: { fontSize: 14, bold: true, color: '#374151' }
+        },
+        defaultStyle: {
+            font
+        }
+    };
+
+    return new Promise((resolve, reject) => {
+        try {
             pdfMake.createPdf(docDefinition).getBlob((blob: Blob) => resolve(blob));
         } catch (e) {
             reject(e);
@@ -159,6 +341,93 @@ const generatePdfBlob = (mission: Mission, userProfile: UserProfile): Promise<Bl
     });
 };
 
+// `referenceDate` stands in for "today" so that text queued offline keeps its original meaning
+const parseMissionText = async (text: string, referenceDate: Date = new Date()): Promise<AIMagicFillResponse> => {
+    const ai = getAiClient();
+    const prompt = `Extract event details from this text: "${text}". Use today's date ${referenceDate.toISOString().split('T')[0]} if date is not specified.`;
+    const response = await ai.models.generateContent({
+        model: AI_MODEL,
+        contents: prompt,
+        config: { 
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: { 
+                    title: { type: Type.STRING }, 
+                    location: { type: Type.STRING }, 
+                    date: { type: Type.STRING }, 
+                    finishDate: { type: Type.STRING }, 
+                    startTime: { type: Type.STRING }, 
+                    finishTime: { type: Type.STRING }, 
+                    notes: { type: Type.STRING } 
+                }
+            }
+        }
+    });
+    if (!response.text) throw new Error("AI returned no data. Please try again.");
+    const data = JSON.parse(response.text);
+    return { ...data, finishDate: data.finishDate || data.date };
+};
+
+const draftMissionEmail = async (mission: Mission, userProfile: UserProfile, language: Language, attachmentName: string): Promise<EmailDraft> => {
+    const ai = getAiClient();
+    const prompt = `Write a short, professional email sending the report of a field mission to a supervisor.
+Write it entirely in ${language === 'ar' ? 'Arabic' : 'English'}.
+Mention that the report is attached as "${attachmentName}". Sign it with the sender's name and profession.
+
+Mission: ${JSON.stringify({ title: mission.title, location: mission.location, date: mission.date, finishDate: mission.finishDate, startTime: mission.startTime, finishTime: mission.finishTime, notes: mission.notes })}
+Sender: ${JSON.stringify({ fullName: userProfile.fullName, profession: userProfile.profession })}`;
+    const response = await ai.models.generateContent({
+        model: AI_MODEL,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    subject: { type: Type.STRING },
+                    body: { type: Type.STRING }
+                },
+                required: ['subject', 'body']
+            }
+        }
+    });
+    if (!response.text) throw new Error("AI returned no data. Please try again.");
+    const data = JSON.parse(response.text);
+    return { subject: data.subject || '', body: data.body || '' };
+};
+
+// Known locations are listed so vague names ("the northern depot") can be mapped to the ones actually used
+const parseSearchQuestion = async (question: string, locations: string[], today: string): Promise<AISearchResponse> => {
+    const ai = getAiClient();
+    const prompt = `Turn this question about a user's field missions into a search filter: "${question}".
+The question may be in English, French or Arabic. Today is ${today}; resolve relative periods ("last quarter", "in March") to dates in YYYY-MM-DD, leaving dates empty when no period is mentioned.
+Pick locations from this list when the question refers to them: ${JSON.stringify(locations)}.
+Put any other subject words in keywords, in the language of the missions; a mission matching any one keyword is included, so add likely variants rather than a phrase. Only set statuses when the question asks about planned, in progress, completed or reported missions.
+Set intent to "count" for "how many" questions, "totalDays" or "totalHours" for questions about time spent, and "list" otherwise.`;
+    const response = await ai.models.generateContent({
+        model: AI_MODEL,
+        contents: prompt,
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    keywords: { type: Type.STRING },
+                    dateFrom: { type: Type.STRING },
+                    dateTo: { type: Type.STRING },
+                    locations: { type: Type.ARRAY, items: { type: Type.STRING } },
+                    statuses: { type: Type.ARRAY, items: { type: Type.STRING, enum: MISSION_STATUSES } },
+                    intent: { type: Type.STRING, enum: ['list', 'count', 'totalDays', 'totalHours'] }
+                },
+                required: ['intent']
+            }
+        }
+    });
+    if (!response.text) throw new Error("AI returned no data. Please try again.");
+    return JSON.parse(response.text);
+};
+
 const getTemplateBuffer = async (settings: Settings): Promise<ArrayBuffer> => {
     // 1. Custom Template
     if (settings.activeTemplateId !== 'default') {
@@ -205,20 +474,31 @@ const generateDocxBlob = async (mission: Mission, settings: Settings, userProfil
              return null;
         }
         
-        let zip;
+        // Reading the tags also checks the template is a valid .docx; a broken one is replaced by the default
+        let templateTags: string[];
         try {
-            zip = new PizZip(templateBuffer);
+            templateTags = extractTemplateTags(templateBuffer);
         } catch (e) {
             try {
                 templateBuffer = base64ToArrayBuffer(DEFAULT_TEMPLATE_BASE64);
-                zip = new PizZip(templateBuffer);
+                templateTags = extractTemplateTags(templateBuffer);
             } catch(fallbackError) {
                 alert("Critical Error: Fallback template is also invalid.");
                 return null;
             }
         }
 
+        const photos = await Promise.all((await loadMissionImages(mission)).map(async ({ ref, blob }) => ({
+            data: await blob.arrayBuffer(),
+            type: ref.type,
+            width: ref.width || 800,
+            height: ref.height || 600
+        })));
+
+        const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+        const approval = approvalOf(mission);
         const data = {
+            ...(mission.customFields || {}),
             title: mission.title || "",
             location: mission.location || "",
             date: mission.date || "",
@@ -229,31 +509,34 @@ const generateDocxBlob = async (mission: Mission, settings: Settings, userProfil
             fullName: userProfile.fullName || "",
             profession: userProfile.profession || "",
             cni: userProfile.cni || "",
-            ppn: userProfile.ppn || ""
+            ppn: userProfile.ppn || "",
+            approvalStatus: approval ? t.reviewApproved : "",
+            approvedBy: approval?.by || "",
+            approvedAt: approval ? localDate(new Date(approval.at)) : "",
+            startCoords: mission.startCoords ? formatCoords(mission.startCoords) : "",
+            startLat: mission.startCoords ? mission.startCoords.lat.toFixed(5) : "",
+            startLng: mission.startCoords ? mission.startCoords.lng.toFixed(5) : "",
+            finishCoords: mission.finishCoords ? formatCoords(mission.finishCoords) : "",
+            finishLat: mission.finishCoords ? mission.finishCoords.lat.toFixed(5) : "",
+            finishLng: mission.finishCoords ? mission.finishCoords.lng.toFixed(5) : "",
+            // Rendered through {#itinerary}...{/itinerary}; paragraphLoop repeats whole paragraphs or table rows
+            itinerary: (mission.itinerary || []).map(entry => ({
+                date: entry.date,
+                site: entry.site,
+                activities: entry.activities,
+                startTime: entry.startTime || "",
+                finishTime: entry.finishTime || "",
+                hours: formatHours(entry)
+            }))
         };
 
         try {
-            const doc1 = new Docxtemplater(zip, {
-                paragraphLoop: true,
-                linebreaks: true,
-                delimiters: {start: '{', end: '}'},
-                nullGetter: (part: any) => part.raw || ""
-            });
-            doc1.render(data);
-
-            const zip2 = new PizZip(doc1.getZip().generate({type: "uint8array"}));
-            const doc2 = new Docxtemplater(zip2, {
-                paragraphLoop: true,
-                linebreaks: true,
-                delimiters: {start: '(', end: ')'},
-                nullGetter: (part: any) => part.raw || ""
-            });
-            doc2.render(data);
-
-            return doc2.getZip().generate({
-                type: "blob",
-                mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
-            });
+            let rendered = renderTemplate(templateBuffer, data, { attachments: photos });
+            // Templates without approval placeholders get the approval as a last paragraph
+            if (approval && !templateTags.some(tag => APPROVAL_TEMPLATE_TAGS.includes(tag))) {
+                rendered = appendParagraph(rendered, approvalLine(t, approval), settings.language === 'ar');
+            }
+            return new Blob([rendered], { type: DOCX_MIME });
         } catch(renderError: any) {
              console.error("Render Error", renderError);
              alert(`Document Generation Error: ${renderError.message}`);
@@ -289,6 +572,19 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
     console.error("ErrorBoundary caught an error", error, errorInfo);
   }
 
+  handleBackup = async () => {
+    try {
+      downloadBackup(await createBackupFromStorage());
+    } catch (e: any) {
+      alert(`Backup failed: ${e.message || "Unknown error"}`);
+    }
+  };
+
+  handleReset = () => {
+    if (!confirm(TRANSLATIONS.en.confirmReset)) return;
+    clearAllData().finally(() => window.location.reload());
+  };
+
   render() {
     if (this.state.hasError) {
       return (
@@ -297,7 +593,8 @@ class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
                 <Trash2 size={24} className="text-red-500 mx-auto mb-4" />
                 <h1 className="text-lg font-bold text-gray-900 dark:text-gray-100 mb-2">Something went wrong</h1>
                 <p className="text-xs text-gray-500 dark:text-gray-400 mb-6 font-mono bg-gray-50 dark:bg-gray-900 p-2 rounded break-all">{this.state.error?.message}</p>
-                <button onClick={() => { localStorage.clear(); window.location.reload(); }} className="w-full py-3 bg-red-600 text-white rounded-xl font-bold text-sm shadow-lg hover:bg-red-700">Reset App Data</button>
+                <button onClick={this.handleBackup} className="w-full py-3 mb-3 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-700 rounded-xl font-bold text-sm hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center justify-center gap-2"><Download size={16} /> Download Backup</button>
+                <button onClick={this.handleReset} className="w-full py-3 bg-red-600 text-white rounded-xl font-bold text-sm shadow-lg hover:bg-red-700">Reset App Data</button>
             </div>
         </div>
       );
@@ -310,10 +607,11 @@ interface OnboardingViewProps {
     onSave: (p: UserProfile) => void;
     settings: Settings;
     onUpdateSettings: (s: Settings) => void;
+    onCancel?: () => void; // Set when adding another profile rather than setting up the first one
 }
 
-const OnboardingView = ({ onSave, settings, onUpdateSettings }: OnboardingViewProps) => {
-    const [form, setForm] = useState<UserProfile>({ fullName: '', profession: '', cni: '', ppn: '' });
+const OnboardingView = ({ onSave, settings, onUpdateSettings, onCancel }: OnboardingViewProps) => {
+    const [form, setForm] = useState<UserProfile>({ id: createProfileId(), fullName: '', profession: '', cni: '', ppn: '' });
     const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
 
     const handleSubmit = () => {
@@ -336,13 +634,14 @@ const OnboardingView = ({ onSave, settings, onUpdateSettings }: OnboardingViewPr
             <button onClick={toggleLanguage} className="absolute top-6 right-6 z-20 bg-white/10 backdrop-blur-md px-3 py-1.5 rounded-full text-xs font-bold border border-white/20 hover:bg-white/20 transition-all flex items-center gap-2 rtl:left-6 rtl:right-auto">
                 <Globe size={14} /> {settings.language === 'en' ? 'العربية' : 'English'}
             </button>
+            {onCancel && (<button onClick={onCancel} className="absolute top-6 left-6 z-20 bg-white/10 backdrop-blur-md p-1.5 rounded-full border border-white/20 hover:bg-white/20 transition-all rtl:right-6 rtl:left-auto"><X size={16} /></button>)}
             <div className="w-full max-w-sm relative z-10">
                 <div className="text-center mb-10">
                     <div className="w-20 h-20 bg-white/10 backdrop-blur-md rounded-2xl flex items-center justify-center mx-auto mb-6 shadow-glow border border-white/20">
                          <Sparkles size={40} className="text-white" />
                     </div>
                     <h1 className="text-3xl font-bold mb-2 tracking-tight">MissionLog AI</h1>
-                    <p className="text-brand-100 text-sm">{t.welcomeDesc}</p>
+                    <p className="text-brand-100 text-sm">{onCancel ? t.newProfileDesc : t.welcomeDesc}</p>
                 </div>
                 <div className="bg-white/10 backdrop-blur-md rounded-3xl p-6 border border-white/20 shadow-2xl space-y-4">
                     <div className="space-y-1">
@@ -363,9 +662,356 @@ const OnboardingView = ({ onSave, settings, onUpdateSettings }: OnboardingViewPr
                             <input type="text" value={form.ppn} onChange={e => setForm({...form, ppn: e.target.value})} className="w-full p-3 rounded-xl bg-black/20 border border-transparent text-white placeholder-white/40 focus:ring-2 focus:ring-brand-400 outline-none transition-all text-start" placeholder={t.passport} />
                         </div>
                     </div>
-                    <button onClick={handleSubmit} className="w-full mt-4 py-4 bg-white text-brand-700 rounded-xl font-bold shadow-lg hover:bg-brand-50 active:scale-[0.98] transition-all">{t.getStarted}</button>
+                    <button onClick={handleSubmit} className="w-full mt-4 py-4 bg-white text-brand-700 rounded-xl font-bold shadow-lg hover:bg-brand-50 active:scale-[0.98] transition-all">{onCancel ? t.addProfile : t.getStarted}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+interface LockScreenProps {
+    config: LockConfig;
+    settings: Settings;
+    onUnlockPin: (pin: string) => Promise<boolean>;
+    onUnlockBiometric: () => Promise<void>;
+}
+
+const LockScreen = ({ config, settings, onUnlockPin, onUnlockBiometric }: LockScreenProps) => {
+    const [entry, setEntry] = useState('');
+    const [error, setError] = useState('');
+    const [isChecking, setIsChecking] = useState(false);
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const attemptsLeft = config.wipeAfter > 0 ? config.wipeAfter - config.failedAttempts : null;
+
+    const submit = async () => {
+        if (!entry || isChecking) return;
+        setIsChecking(true);
+        const ok = await onUnlockPin(entry);
+        setIsChecking(false);
+        if (!ok) { setEntry(''); setError(t.wrongPin); }
+    };
+
+    return (
+        <div className="h-screen w-full bg-gradient-to-br from-brand-600 to-brand-900 flex flex-col items-center justify-center p-6 text-white relative overflow-hidden" style={{ height: '100dvh' }}>
+            <div className="absolute top-0 left-0 w-64 h-64 bg-white opacity-5 rounded-full -translate-x-1/2 -translate-y-1/2 blur-3xl"></div>
+            <div className="w-full max-w-xs relative z-10 text-center space-y-6">
+                <div className="w-20 h-20 bg-white/10 backdrop-blur-md rounded-2xl flex items-center justify-center mx-auto shadow-glow border border-white/20"><Lock size={36} className="text-white" /></div>
+                <div><h1 className="text-2xl font-bold tracking-tight">{t.appLocked}</h1><p className="text-brand-100 text-sm mt-1">{t.enterPin}</p></div>
+                <input type="password" inputMode="numeric" autoComplete="off" autoFocus value={entry} onChange={e => { setEntry(e.target.value.replace(/\D/g, '')); setError(''); }} onKeyDown={e => { if (e.key === 'Enter') submit(); }} className="w-full bg-white/10 border border-white/20 rounded-xl p-3 text-center text-2xl tracking-[0.5em] text-white placeholder-brand-200 focus:bg-white/20 outline-none transition-all" dir="ltr" />
+                {error && (<p className="text-sm font-bold text-red-200">{error}{attemptsLeft !== null && config.failedAttempts > 0 && ` ${attemptsLeft} ${t.attemptsLeft}`}</p>)}
+                <button onClick={submit} disabled={!entry || isChecking} className="w-full bg-white text-brand-700 font-bold py-3.5 rounded-xl shadow-lg hover:bg-brand-50 disabled:opacity-60 transition-all flex items-center justify-center gap-2">{isChecking ? <Loader2 size={18} className="animate-spin" /> : <KeyRound size={18} />} {t.unlock}</button>
+                {config.biometric && (<button onClick={onUnlockBiometric} className="w-full bg-white/10 border border-white/20 font-bold py-3 rounded-xl hover:bg-white/20 transition-all flex items-center justify-center gap-2"><Fingerprint size={18} /> {t.unlockBiometric}</button>)}
+            </div>
+        </div>
+    );
+};
+
+interface PdfLayoutEditorProps {
+    layout: PdfLayout;
+    language: Language;
+    onSave: (layout: PdfLayout) => void;
+    onCancel: () => void;
+}
+
+const PdfLayoutEditor = ({ layout, language, onSave, onCancel }: PdfLayoutEditorProps) => {
+    const t = TRANSLATIONS[language] || TRANSLATIONS['en'];
+    const [form, setForm] = useState<PdfLayout>(layout);
+    const logoInputRef = useRef<HTMLInputElement>(null);
+
+    const fieldLabels: Record<PdfField, string> = {
+        title: t.title, date: t.date, time: t.time, location: t.location, reporter: t.reporter, profession: t.profession,
+        cni: t.cni, ppn: t.ppn, customFields: t.templateFields, itinerary: t.itinerary, notes: t.notes, attachments: t.attachments
+    };
+    // Shown fields keep their chosen order; hidden ones are listed after them
+    const listedFields = [...form.fields, ...PDF_FIELDS.filter(f => !form.fields.includes(f))];
+
+    const toggleField = (field: PdfField) => {
+        setForm({ ...form, fields: form.fields.includes(field) ? form.fields.filter(f => f !== field) : [...form.fields, field] });
+    };
+
+    const moveField = (index: number, offset: number) => {
+        const target = index + offset;
+        if (target < 0 || target >= form.fields.length) return;
+        const fields = [...form.fields];
+        [fields[index], fields[target]] = [fields[target], fields[index]];
+        setForm({ ...form, fields });
+    };
+
+    const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        blobToDataUrl(file).then(logo => setForm(prev => ({ ...prev, logo }))).catch(() => alert("Could not read image."));
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-gray-900 rounded-3xl p-6 w-full max-w-sm shadow-2xl space-y-4 animate-in zoom-in-95 duration-200 max-h-[90dvh] overflow-y-auto">
+                <div className="flex justify-between items-center"><h3 className="font-bold text-lg text-gray-800 dark:text-gray-100">{t.editLayout}</h3><button onClick={onCancel} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"><X size={20} /></button></div>
+                <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.layoutName}</label><input type="text" value={form.name} onChange={e => setForm({...form, name: e.target.value})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" /></div>
+                <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.logo}</label>
+                    <input type="file" ref={logoInputRef} onChange={handleLogoUpload} accept="image/png,image/jpeg" className="hidden" />
+                    {form.logo ? (
+                        <div className="flex items-center gap-3 p-2 bg-gray-50 dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700"><img src={form.logo} alt="" className="h-10 max-w-[120px] object-contain" /><div className="flex-1" /><button onClick={() => logoInputRef.current?.click()} className="text-gray-400 hover:text-brand-600 p-1.5"><RefreshCw size={14} /></button><button onClick={() => setForm({...form, logo: undefined})} className="text-gray-400 hover:text-red-500 p-1.5"><Trash2 size={14} /></button></div>
+                    ) : (
+                        <button onClick={() => logoInputRef.current?.click()} className="w-full py-2 bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-700 rounded-lg text-brand-600 dark:text-brand-400 font-bold text-xs hover:bg-brand-50 dark:hover:bg-gray-700 flex items-center justify-center gap-2"><Upload size={14} /> {t.uploadLogo}</button>
+                    )}
+                </div>
+                <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.headerText}</label><input type="text" value={form.headerText} onChange={e => setForm({...form, headerText: e.target.value})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" dir="auto" /></div>
+                <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.footerText}</label><input type="text" value={form.footerText} onChange={e => setForm({...form, footerText: e.target.value})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" dir="auto" /></div>
+                <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.pageSize}</label>
+                    <div className="flex gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl">
+                        {PDF_PAGE_SIZES.map(size => (<button key={size} onClick={() => setForm({...form, pageSize: size})} className={`flex-1 py-1.5 rounded-lg text-xs font-bold transition-all ${form.pageSize === size ? 'bg-white dark:bg-gray-700 shadow text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400'}`}>{size}</button>))}
+                    </div>
+                </div>
+                <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.layoutFields}</label>
+                    <div className="bg-gray-50 dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-700">
+                        {listedFields.map(field => {
+                            const index = form.fields.indexOf(field);
+                            return (
+                                <div key={field} className="flex items-center gap-2 px-3 py-1.5">
+                                    <input type="checkbox" checked={index !== -1} onChange={() => toggleField(field)} className="accent-brand-600" />
+                                    <span className={`flex-1 text-sm ${index !== -1 ? 'text-gray-700 dark:text-gray-200' : 'text-gray-400 dark:text-gray-500'}`}>{fieldLabels[field]}</span>
+                                    {index !== -1 && (<><button onClick={() => moveField(index, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-brand-600 disabled:opacity-30"><ChevronUp size={14} /></button><button onClick={() => moveField(index, 1)} disabled={index === form.fields.length - 1} className="p-1 text-gray-400 hover:text-brand-600 disabled:opacity-30"><ChevronDown size={14} /></button></>)}
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+                <div className="space-y-2">
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider"><input type="checkbox" checked={form.signature.enabled} onChange={e => setForm({...form, signature: {...form.signature, enabled: e.target.checked}})} className="accent-brand-600" /> {t.signature}</label>
+                    {form.signature.enabled && (
+                        <div className="space-y-2 ps-6">
+                            <input type="text" value={form.signature.label} onChange={e => setForm({...form, signature: {...form.signature, label: e.target.value}})} placeholder={t.signatureLabelPlaceholder} aria-label={t.signatureLabel} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" dir="auto" />
+                            <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300"><input type="checkbox" checked={form.signature.showName} onChange={e => setForm({...form, signature: {...form.signature, showName: e.target.checked}})} className="accent-brand-600" /> {t.signatureShowName}</label>
+                        </div>
+                    )}
+                </div>
+                <div className="flex gap-3 pt-2"><button onClick={onCancel} className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.cancel}</button><button onClick={() => onSave({ ...form, name: form.name.trim() || t.newLayout })} className="flex-1 py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 transition-all">{t.save}</button></div>
+            </div>
+        </div>
+    );
+};
+
+// Auto-lock and wipe choices offered in Settings; 0 means never
+const AUTO_LOCK_MINUTES = [0, 1, 5, 15, 30];
+const WIPE_AFTER_ATTEMPTS = [0, 5, 10, 20];
+
+interface AppLockSettingsProps {
+    config: LockConfig | null;
+    settings: Settings;
+    userName: string;
+    onEnable: (pin: string) => Promise<void>;
+    onDisable: () => Promise<void>;
+    onChange: (config: LockConfig) => void;
+    onLockNow: () => void;
+}
+
+// PIN changes, biometric enrollment and turning the lock off all ask for the current PIN first
+const AppLockSettings = ({ config, settings, userName, onEnable, onDisable, onChange, onLockNow }: AppLockSettingsProps) => {
+    const [action, setAction] = useState<'enable' | 'change' | 'disable' | 'biometric' | null>(null);
+    const [pins, setPins] = useState({ current: '', next: '', confirm: '' });
+    const [isWorking, setIsWorking] = useState(false);
+    const [canUseBiometric, setCanUseBiometric] = useState(false);
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+
+    useEffect(() => { isBiometricAvailable().then(setCanUseBiometric); }, []);
+
+    const startAction = (next: typeof action) => { setPins({ current: '', next: '', confirm: '' }); setAction(next); };
+
+    const newPinError = () => {
+        if (pins.next.length < MIN_PIN_LENGTH) return t.pinTooShort;
+        if (pins.next !== pins.confirm) return t.pinMismatch;
+        return null;
+    };
+
+    const submit = async () => {
+        const needsNewPin = action === 'enable' || action === 'change';
+        const error = needsNewPin ? newPinError() : null;
+        if (error) { alert(error); return; }
+        setIsWorking(true);
+        try {
+            if (action === 'enable') {
+                await onEnable(pins.next);
+            } else if (config) {
+                const key = await unlockWithPin(config, pins.current);
+                if (!key) { alert(t.wrongPin); return; }
+                if (action === 'change') onChange(await setPin(config, key, pins.next));
+                if (action === 'biometric') onChange(await enrollBiometric(config, key, userName));
+                if (action === 'disable') await onDisable();
+            }
+            setAction(null);
+        } catch (e: any) {
+            console.error("App lock error", e);
+            alert(e?.message || "Could not update the app lock.");
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const pinInput = (field: keyof typeof pins, label: string) => (
+        <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{label}</label><input type="password" inputMode="numeric" autoComplete="off" value={pins[field]} onChange={e => setPins({ ...pins, [field]: e.target.value.replace(/\D/g, '') })} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm tracking-widest" dir="ltr" /></div>
+    );
+
+    return (
+        <div className="space-y-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t.appLockDesc}</p>
+            {config && !action && (
+                <>
+                    <div className="grid grid-cols-2 gap-3">
+                        <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.autoLock}</label><select value={config.autoLockMinutes} onChange={e => onChange({ ...config, autoLockMinutes: Number(e.target.value) })} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm">{AUTO_LOCK_MINUTES.map(m => (<option key={m} value={m}>{m === 0 ? t.never : `${m} ${t.minutesShort}`}</option>))}</select></div>
+                        <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.wipeAfter}</label><select value={config.wipeAfter} onChange={e => onChange({ ...config, wipeAfter: Number(e.target.value) })} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm">{WIPE_AFTER_ATTEMPTS.map(n => (<option key={n} value={n}>{n === 0 ? t.never : n}</option>))}</select></div>
+                    </div>
+                    {canUseBiometric && (
+                        <div className="flex items-center justify-between p-3 bg-white dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700"><span className="text-sm font-medium flex items-center gap-2 text-gray-700 dark:text-gray-200"><Fingerprint size={16} className="text-brand-500" /> {t.biometricUnlock}</span>{config.biometric
+                            ? <button onClick={() => onChange({ ...config, biometric: undefined })} className="text-xs font-bold text-red-500 hover:text-red-600">{t.removeBiometric}</button>
+                            : <button onClick={() => startAction('biometric')} className="text-xs font-bold text-brand-600 dark:text-brand-400 hover:text-brand-700">{t.enableBiometric}</button>}</div>
+                    )}
+                    <div className="grid grid-cols-3 gap-2">
+                        <button onClick={onLockNow} className="py-2.5 bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300 rounded-xl font-bold text-xs hover:bg-brand-100 dark:hover:bg-brand-900/40 transition-colors">{t.lockNow}</button>
+                        <button onClick={() => startAction('change')} className="py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-xl font-bold text-xs hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors">{t.changePin}</button>
+                        <button onClick={() => startAction('disable')} className="py-2.5 bg-red-50 dark:bg-red-900/20 text-red-500 rounded-xl font-bold text-xs hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">{t.disableLock}</button>
+                    </div>
+                </>
+            )}
+            {!config && !action && (<button onClick={() => startAction('enable')} className="w-full py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 transition-all flex items-center justify-center gap-2"><Lock size={16} /> {t.setUpPin}</button>)}
+            {action && (
+                <div className="space-y-3">
+                    {action !== 'enable' && pinInput('current', t.currentPin)}
+                    {(action === 'enable' || action === 'change') && (<>{pinInput('next', t.newPin)}{pinInput('confirm', t.confirmPin)}</>)}
+                    <div className="flex gap-3"><button onClick={() => setAction(null)} className="flex-1 py-2.5 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-xs hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.cancel}</button><button onClick={submit} disabled={isWorking} className="flex-1 py-2.5 bg-brand-600 text-white rounded-xl font-bold text-xs hover:bg-brand-700 disabled:opacity-60 transition-all flex items-center justify-center gap-2">{isWorking && <Loader2 size={14} className="animate-spin" />} {t.save}</button></div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface SyncSettingsProps {
+    syncState: SyncState | null;
+    isSyncing: boolean;
+    settings: Settings;
+    onEnable: (serverUrl: string, token: string, deviceName: string) => Promise<void>;
+    onDisable: () => void;
+    onSyncNow: () => void;
+    onRestoreConflict: (conflict: SyncConflict) => void;
+    onDismissConflict: (id: string) => void;
+}
+
+const SyncSettings = ({ syncState, isSyncing, settings, onEnable, onDisable, onSyncNow, onRestoreConflict, onDismissConflict }: SyncSettingsProps) => {
+    const [form, setForm] = useState({ serverUrl: '', token: '', deviceName: defaultDeviceName() });
+    const [isConnecting, setIsConnecting] = useState(false);
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const locale = settings.language === 'ar' ? 'ar-EG' : 'en-US';
+
+    const connect = async () => {
+        if (!form.serverUrl.trim()) { alert(t.pleaseFill); return; }
+        setIsConnecting(true);
+        try {
+            await onEnable(form.serverUrl, form.token, form.deviceName);
+        } catch (e: any) {
+            alert(e?.message || "Could not connect to the sync server.");
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
+    if (!syncState) {
+        return (
+            <div className="space-y-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t.syncDesc}</p>
+                <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.serverUrl}</label><input type="url" value={form.serverUrl} onChange={e => setForm({ ...form, serverUrl: e.target.value })} placeholder="http://localhost:8787" className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" dir="ltr" /></div>
+                <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.accessToken}</label><input type="password" autoComplete="off" value={form.token} onChange={e => setForm({ ...form, token: e.target.value })} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" dir="ltr" /></div>
+                    <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.deviceName}</label><input type="text" value={form.deviceName} onChange={e => setForm({ ...form, deviceName: e.target.value })} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" /></div>
+                </div>
+                <button onClick={connect} disabled={isConnecting} className="w-full py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-60 transition-all flex items-center justify-center gap-2">{isConnecting ? <Loader2 size={16} className="animate-spin" /> : <Cloud size={16} />} {t.enableSync}</button>
+            </div>
+        );
+    }
+
+    const pending = pendingChangeCount(syncState);
+    return (
+        <div className="space-y-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800">
+            <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-800 dark:text-gray-100 truncate" dir="ltr">{syncState.serverUrl}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{syncState.deviceName} · {syncState.lastSyncAt ? `${t.lastSynced} ${new Date(syncState.lastSyncAt).toLocaleString(locale)}` : t.neverSynced}</p>
+                    {pending > 0 && (<p className="text-xs text-brand-600 dark:text-brand-400">{pending} {t.pendingChanges}</p>)}
+                    {syncState.lastError && (<p className="text-xs text-red-500 mt-1">{syncState.lastError}</p>)}
+                </div>
+                <button onClick={onSyncNow} disabled={isSyncing} className="shrink-0 p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-full text-brand-600 dark:text-brand-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-60" aria-label={t.syncNow}><RefreshCw size={16} className={isSyncing ? 'animate-spin' : ''} /></button>
+            </div>
+            {syncState.conflicts.length > 0 && (
+                <div className="space-y-2">
+                    <p className="text-[10px] font-bold text-yellow-700 dark:text-yellow-400 uppercase tracking-wider flex items-center gap-1"><AlertTriangle size={12} /> {t.syncConflicts}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{t.syncConflictsDesc}</p>
+                    {syncState.conflicts.map(conflict => (
+                        <div key={conflict.id} className="p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-xl border border-yellow-100 dark:border-yellow-900/30 space-y-2">
+                            <p className="text-sm font-bold text-gray-800 dark:text-gray-100 truncate" dir="auto">{conflict.label || t.settings}</p>
+                            <p className="text-xs text-gray-600 dark:text-gray-300">{t.keptVersion}: {conflict.keptFrom} · {t.discardedVersion}: {conflict.discardedFrom}{conflict.discarded === null && ` (${t.deletion})`} · {new Date(conflict.resolvedAt).toLocaleString(locale)}</p>
+                            <div className="flex gap-2"><button onClick={() => onRestoreConflict(conflict)} className="flex-1 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg font-bold text-xs hover:bg-gray-100 dark:hover:bg-gray-700">{t.restoreDiscarded}</button><button onClick={() => onDismissConflict(conflict.id)} className="flex-1 py-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 rounded-lg font-bold text-xs hover:bg-gray-100 dark:hover:bg-gray-700">{t.dismiss}</button></div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <button onClick={onDisable} className="w-full py-2.5 text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl font-bold text-xs hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">{t.disableSync}</button>
+        </div>
+    );
+};
+
+interface TeamSettingsProps {
+    teamState: TeamState | null;
+    isSyncing: boolean;
+    settings: Settings;
+    onJoin: (serverUrl: string, token: string) => Promise<void>;
+    onLeave: () => void;
+    onSyncNow: () => void;
+}
+
+const TeamSettings = ({ teamState, isSyncing, settings, onJoin, onLeave, onSyncNow }: TeamSettingsProps) => {
+    const [form, setForm] = useState({ serverUrl: '', token: '' });
+    const [isConnecting, setIsConnecting] = useState(false);
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const locale = settings.language === 'ar' ? 'ar-EG' : 'en-US';
+
+    const join = async () => {
+        if (!form.serverUrl.trim() || !form.token.trim()) { alert(t.pleaseFill); return; }
+        setIsConnecting(true);
+        try {
+            await onJoin(form.serverUrl, form.token);
+        } catch (e: any) {
+            alert(e?.message || "Could not connect to the team server.");
+        } finally {
+            setIsConnecting(false);
+        }
+    };
+
+    if (!teamState) {
+        return (
+            <div className="space-y-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t.teamDesc}</p>
+                <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.serverUrl}</label><input type="url" value={form.serverUrl} onChange={e => setForm({ ...form, serverUrl: e.target.value })} placeholder="https://team.example.com" className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" dir="ltr" /></div>
+                <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.memberToken}</label><input type="password" autoComplete="off" value={form.token} onChange={e => setForm({ ...form, token: e.target.value })} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" dir="ltr" /></div>
+                <button onClick={join} disabled={isConnecting} className="w-full py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-60 transition-all flex items-center justify-center gap-2">{isConnecting ? <Loader2 size={16} className="animate-spin" /> : <Users size={16} />} {t.joinTeam}</button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800">
+            <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                    <p className="text-sm font-bold text-gray-800 dark:text-gray-100 truncate" dir="ltr">{teamState.serverUrl}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">{teamState.memberName} · {t[teamState.role]} · {teamState.lastSyncAt ? `${t.lastSynced} ${new Date(teamState.lastSyncAt).toLocaleString(locale)}` : t.neverSynced}</p>
+                    {teamState.pending.length > 0 && (<p className="text-xs text-brand-600 dark:text-brand-400">{teamState.pending.length} {t.pendingChanges}</p>)}
+                    {teamState.lastError && (<p className="text-xs text-red-500 mt-1">{teamState.lastError}</p>)}
                 </div>
+                <button onClick={onSyncNow} disabled={isSyncing} className="shrink-0 p-2 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-full text-brand-600 dark:text-brand-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-60" aria-label={t.syncNow}><RefreshCw size={16} className={isSyncing ? 'animate-spin' : ''} /></button>
             </div>
+            <button onClick={onLeave} className="w-full py-2.5 text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl font-bold text-xs hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors">{t.leaveTeam}</button>
         </div>
     );
 };
@@ -374,34 +1020,144 @@ interface SettingsViewProps {
     settings: Settings;
     onUpdate: (s: Settings) => void;
     userProfile: UserProfile;
+    profiles: UserProfile[];
     onUpdateProfile: (p: UserProfile) => void;
+    onDeleteProfile: (id: string) => void;
+    missions: Mission[]; // Every profile's missions, for backups
+    onRestore: (backup: BackupFile, mode: RestoreMode) => Promise<void>;
+    lockConfig: LockConfig | null;
+    onEnableLock: (pin: string) => Promise<void>;
+    onDisableLock: () => Promise<void>;
+    onUpdateLock: (config: LockConfig) => void;
+    onLockNow: () => void;
+    syncState: SyncState | null;
+    isSyncing: boolean;
+    onEnableSync: (serverUrl: string, token: string, deviceName: string) => Promise<void>;
+    onDisableSync: () => void;
+    onSyncNow: () => void;
+    onRestoreConflict: (conflict: SyncConflict) => void;
+    onDismissConflict: (id: string) => void;
+    teamState: TeamState | null;
+    isTeamSyncing: boolean;
+    onJoinTeam: (serverUrl: string, token: string) => Promise<void>;
+    onLeaveTeam: () => void;
+    onTeamSyncNow: () => void;
     onBack: () => void;
     installPrompt: BeforeInstallPromptEvent | null;
     onInstall: () => void;
 }
 
-const SettingsView = ({ settings, onUpdate, userProfile, onUpdateProfile, onBack, installPrompt, onInstall }: SettingsViewProps) => {
+const SettingsView = ({ settings, onUpdate, userProfile, profiles, onUpdateProfile, onDeleteProfile, missions, onRestore, lockConfig, onEnableLock, onDisableLock, onUpdateLock, onLockNow, syncState, isSyncing, onEnableSync, onDisableSync, onSyncNow, onRestoreConflict, onDismissConflict, teamState, isTeamSyncing, onJoinTeam, onLeaveTeam, onTeamSyncNow, onBack, installPrompt, onInstall }: SettingsViewProps) => {
     const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const backupInputRef = useRef<HTMLInputElement>(null);
+    const [pendingBackup, setPendingBackup] = useState<BackupFile | null>(null);
+    const [pendingTemplate, setPendingTemplate] = useState<{ template: Template; report: TemplateValidationReport } | null>(null);
+    const [editingLayout, setEditingLayout] = useState<PdfLayout | null>(null);
+    const activityInputRef = useRef<HTMLInputElement>(null);
+    const pendingErrors = pendingTemplate ? pendingTemplate.report.issues.filter(i => i.severity === 'error') : [];
+    const pendingWarnings = pendingTemplate ? pendingTemplate.report.issues.filter(i => i.severity === 'warning') : [];
+
+    const handleBackupImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            try {
+                setPendingBackup(parseBackup(event.target?.result as string));
+            } catch (err: any) {
+                alert(`${t.invalidBackup}: ${err.message}`);
+            }
+        };
+        reader.readAsText(file);
+    };
+
+    const handleBackupExport = async () => {
+        try {
+            downloadBackup(await createBackup(missions, settings, profiles, userProfile.id));
+        } catch (e: any) {
+            alert(`Backup failed: ${e.message || "Unknown error"}`);
+        }
+    };
 
+    const confirmRestore = async (mode: RestoreMode) => {
+        if (!pendingBackup) return;
+        const backup = pendingBackup;
+        setPendingBackup(null);
+        try {
+            await onRestore(backup, mode);
+            alert(t.restoreDone);
+        } catch (e: any) {
+            alert(`Restore failed: ${e.message || "Unknown error"}`);
+        }
+    };
+
+    // Uploads are validated and previewed first; nothing is saved until the user activates the template
     const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
         const file = e.target.files?.[0];
+        e.target.value = '';
         if (file) {
             const reader = new FileReader();
             reader.onload = (event) => {
-                const base64 = (event.target?.result as string).split(',')[1];
-                const newTemplate: Template = { id: generateId(), name: file.name.replace('.docx', ''), data: base64 };
-                onUpdate({ ...settings, customTemplates: [newTemplate, ...settings.customTemplates], activeTemplateId: newTemplate.id });
+                const base64 = (event.target?.result as string).split(',')[1] || '';
+                const report = validateTemplate(base64);
+                setPendingTemplate({ template: { id: generateId(), name: file.name.replace('.docx', ''), data: base64, tags: report.tags }, report });
             };
             reader.readAsDataURL(file);
         }
     };
 
+    const activatePendingTemplate = () => {
+        if (!pendingTemplate) return;
+        const newTemplate = pendingTemplate.template;
+        onUpdate({ ...settings, customTemplates: [newTemplate, ...settings.customTemplates], activeTemplateId: newTemplate.id });
+        setPendingTemplate(null);
+    };
+
     const deleteTemplate = (id: string) => {
         onUpdate({ ...settings, customTemplates: settings.customTemplates.filter(t => t.id !== id), activeTemplateId: settings.activeTemplateId === id ? 'default' : settings.activeTemplateId });
     };
 
-    const activeTemplateName = settings.activeTemplateId === 'default' ? t.defaultTemplate : settings.customTemplates.find(t => t.id === settings.activeTemplateId)?.name || 'Unknown';
+    // The activity template is test-rendered with an empty period so broken templates are rejected on upload
+    const handleActivityTemplateUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = (event) => {
+            const base64 = (event.target?.result as string).split(',')[1] || '';
+            const template: Template = { id: generateId(), name: file.name.replace('.docx', ''), data: base64 };
+            const today = new Date().toISOString().split('T')[0];
+            try {
+                generateActivityReportDocx(summarizeMissions([], today, today), userProfile, { ...settings, activityTemplate: template });
+            } catch (err: any) {
+                alert(`${t.invalidTemplate}: ${err.message}`);
+                return;
+            }
+            onUpdate({ ...settings, activityTemplate: template });
+        };
+        reader.readAsDataURL(file);
+    };
+
+    // Saving a new layout also makes it the active one
+    const saveLayout = (layout: PdfLayout) => {
+        const exists = settings.pdfLayouts.some(l => l.id === layout.id);
+        onUpdate({
+            ...settings,
+            pdfLayouts: exists ? settings.pdfLayouts.map(l => l.id === layout.id ? layout : l) : [...settings.pdfLayouts, layout],
+            activePdfLayoutId: exists ? settings.activePdfLayoutId : layout.id
+        });
+        setEditingLayout(null);
+    };
+
+    const deleteLayout = (id: string) => {
+        onUpdate({ ...settings, pdfLayouts: settings.pdfLayouts.filter(l => l.id !== id), activePdfLayoutId: settings.activePdfLayoutId === id ? 'default' : settings.activePdfLayoutId });
+    };
+
+    const activeTemplate = settings.customTemplates.find(t => t.id === settings.activeTemplateId);
+    const activeTemplateName = settings.activeTemplateId === 'default' ? t.defaultTemplate : activeTemplate?.name || 'Unknown';
+    const activeTags = activeTemplate ? getTemplateTags(activeTemplate) : [];
 
     return (
         <div className="flex flex-col h-full bg-white dark:bg-gray-950 transition-colors duration-300">
@@ -443,6 +1199,14 @@ const SettingsView = ({ settings, onUpdate, userProfile, onUpdateProfile, onBack
                             <div><p className="text-xs text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider mb-1">Active Template</p><h4 className="font-bold text-gray-800 dark:text-gray-200 text-lg flex items-center gap-2"><FileCheck size={20} className="text-brand-600" />{activeTemplateName}</h4></div>
                             {settings.activeTemplateId !== 'default' && (<button onClick={() => onUpdate({...settings, activeTemplateId: 'default'})} className="p-2 text-gray-400 hover:text-red-500 hover:bg-red-50 rounded-lg transition-colors"><RefreshCw size={18} /></button>)}
                         </div>
+                        {activeTags.length > 0 && (
+                            <div className="mb-4 pl-3 rtl:pl-0 rtl:pr-3">
+                                <p className="text-xs text-gray-400 dark:text-gray-500 font-bold uppercase tracking-wider mb-2">{t.templatePlaceholders}</p>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {activeTags.map(tag => (<span key={tag} className={`text-[11px] font-mono px-2 py-0.5 rounded-md ${BUILTIN_TEMPLATE_TAGS.includes(tag) ? 'bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400' : 'bg-brand-50 dark:bg-brand-900/30 text-brand-700 dark:text-brand-300 font-bold'}`}>{tag}</span>))}
+                                </div>
+                            </div>
+                        )}
                         <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept=".docx" className="hidden" />
                         <button onClick={() => fileInputRef.current?.click()} className="w-full py-3 bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-700 rounded-xl text-brand-600 dark:text-brand-400 font-bold text-sm hover:bg-brand-50 dark:hover:bg-gray-700 hover:border-brand-300 transition-all flex items-center justify-center gap-2"><Upload size={16} />{settings.activeTemplateId === 'default' ? 'Replace Default Template' : 'Upload New Template'}</button>
                     </div>
@@ -458,6 +1222,37 @@ const SettingsView = ({ settings, onUpdate, userProfile, onUpdateProfile, onBack
                         </div>
                     )}
                 </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1 flex items-center gap-2"><FileText size={18} className="text-brand-500" /> {t.pdfLayouts}</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{t.pdfLayoutsDesc}</p>
+                    <div className="space-y-2">
+                        {[{ id: 'default', name: t.defaultLayout } as PdfLayout, { id: DOCX_PDF_LAYOUT_ID, name: t.docxLayout } as PdfLayout, ...settings.pdfLayouts].map(layout => (
+                            <div key={layout.id} onClick={() => onUpdate({...settings, activePdfLayoutId: layout.id})} className={`p-3 rounded-xl border flex items-center justify-between cursor-pointer transition-all ${settings.activePdfLayoutId === layout.id ? 'border-brand-500 bg-brand-50 dark:bg-brand-900/20' : 'border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800 hover:bg-gray-100 dark:hover:bg-gray-700'}`}>
+                                <span className={`text-sm font-medium ${settings.activePdfLayoutId === layout.id ? 'text-brand-800 dark:text-brand-300' : 'text-gray-600 dark:text-gray-400'}`}>{layout.name}</span>
+                                {layout.id !== 'default' && layout.id !== DOCX_PDF_LAYOUT_ID && (
+                                    <div className="flex items-center">
+                                        <button onClick={(e) => { e.stopPropagation(); setEditingLayout(layout); }} className="text-gray-400 hover:text-brand-600 p-1.5"><Pencil size={14} /></button>
+                                        {settings.activePdfLayoutId !== layout.id && (<button onClick={(e) => { e.stopPropagation(); deleteLayout(layout.id); }} className="text-gray-400 hover:text-red-500 p-1.5"><Trash2 size={14} /></button>)}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                    <button onClick={() => setEditingLayout(createPdfLayout(generateId(), t.newLayout, t.missionReport, t.generatedBy))} className="mt-3 w-full py-3 bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-700 rounded-xl text-brand-600 dark:text-brand-400 font-bold text-sm hover:bg-brand-50 dark:hover:bg-gray-700 hover:border-brand-300 transition-all flex items-center justify-center gap-2"><Plus size={16} /> {t.newLayout}</button>
+                </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-1 flex items-center gap-2"><Calendar size={18} className="text-brand-500" /> {t.activityTemplate}</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{t.activityTemplateDesc}</p>
+                    <div className="flex flex-wrap gap-1.5 mb-3">
+                        {[...ACTIVITY_REPORT_TAGS, ...Object.entries(ACTIVITY_REPORT_LOOPS).map(([loop, fields]) => `#${loop}: ${fields.join(', ')}`)].map(tag => (<span key={tag} className="text-[11px] font-mono px-2 py-0.5 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400">{tag}</span>))}
+                    </div>
+                    <div className="p-3 rounded-xl border border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800 flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400 flex items-center gap-2"><FileCheck size={16} className="text-brand-600" />{settings.activityTemplate ? settings.activityTemplate.name : t.defaultTemplate}</span>
+                        {settings.activityTemplate && (<button onClick={() => onUpdate({ ...settings, activityTemplate: undefined })} className="text-gray-400 hover:text-red-500 p-1.5"><RefreshCw size={14} /></button>)}
+                    </div>
+                    <input type="file" ref={activityInputRef} onChange={handleActivityTemplateUpload} accept=".docx" className="hidden" />
+                    <button onClick={() => activityInputRef.current?.click()} className="mt-3 w-full py-3 bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-700 rounded-xl text-brand-600 dark:text-brand-400 font-bold text-sm hover:bg-brand-50 dark:hover:bg-gray-700 hover:border-brand-300 transition-all flex items-center justify-center gap-2"><Upload size={16} /> Upload New Template</button>
+                </section>
                 <section>
                     <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><Globe size={18} className="text-brand-500" /> {t.language}</h3>
                     <div className="flex gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl">
@@ -465,6 +1260,42 @@ const SettingsView = ({ settings, onUpdate, userProfile, onUpdateProfile, onBack
                         <button onClick={() => onUpdate({...settings, language: 'ar'})} className={`flex-1 py-2 rounded-lg text-sm font-bold transition-all ${settings.language === 'ar' ? 'bg-white dark:bg-gray-700 shadow text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400'}`}>العربية</button>
                     </div>
                 </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><CalendarPlus size={18} className="text-brand-500" /> {t.calendar}</h3>
+                    <div className="space-y-1 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800">
+                        <label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.timeZone}</label>
+                        <select value={settings.timeZone || ''} onChange={e => onUpdate({...settings, timeZone: e.target.value || undefined})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm">
+                            <option value="">{t.deviceTimeZone} ({deviceTimeZone()})</option>
+                            {availableTimeZones().map(zone => (<option key={zone} value={zone}>{zone}</option>))}
+                        </select>
+                        <p className="text-[11px] text-gray-400 dark:text-gray-500">{t.timeZoneDesc}</p>
+                    </div>
+                </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><Mail size={18} className="text-brand-500" /> {t.email}</h3>
+                    <div className="space-y-1 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.defaultRecipient}</label><input type="email" value={settings.emailRecipient} onChange={e => onUpdate({...settings, emailRecipient: e.target.value})} placeholder={t.recipientPlaceholder} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" /></div>
+                </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><Lock size={18} className="text-brand-500" /> {t.appLock}</h3>
+                    <AppLockSettings config={lockConfig} settings={settings} userName={userProfile.fullName} onEnable={onEnableLock} onDisable={onDisableLock} onChange={onUpdateLock} onLockNow={onLockNow} />
+                </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><Cloud size={18} className="text-brand-500" /> {t.sync}</h3>
+                    <SyncSettings syncState={syncState} isSyncing={isSyncing} settings={settings} onEnable={onEnableSync} onDisable={onDisableSync} onSyncNow={onSyncNow} onRestoreConflict={onRestoreConflict} onDismissConflict={onDismissConflict} />
+                </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><ShieldCheck size={18} className="text-brand-500" /> {t.team}</h3>
+                    <TeamSettings teamState={teamState} isSyncing={isTeamSyncing} settings={settings} onJoin={onJoinTeam} onLeave={onLeaveTeam} onSyncNow={onTeamSyncNow} />
+                </section>
+                <section>
+                    <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><Archive size={18} className="text-brand-500" /> {t.backupRestore}</h3>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">{t.backupDesc}</p>
+                    <input type="file" ref={backupInputRef} onChange={handleBackupImport} accept=".json,application/json" className="hidden" />
+                    <div className="grid grid-cols-2 gap-3">
+                        <button onClick={handleBackupExport} className="py-3 bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300 rounded-xl font-bold text-xs hover:bg-brand-100 dark:hover:bg-brand-900/40 transition-colors flex items-center justify-center gap-2"><Download size={16} /> {t.exportBackup}</button>
+                        <button onClick={() => backupInputRef.current?.click()} className="py-3 bg-gray-50 dark:bg-gray-800 border border-dashed border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-xl font-bold text-xs hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors flex items-center justify-center gap-2"><Upload size={16} /> {t.importBackup}</button>
+                    </div>
+                </section>
                 <section>
                     <h3 className="font-bold text-gray-900 dark:text-gray-100 mb-3 flex items-center gap-2"><User size={18} className="text-brand-500" /> {t.profile}</h3>
                     <div className="space-y-3 bg-gray-50 dark:bg-gray-900 p-4 rounded-2xl border border-gray-100 dark:border-gray-800">
@@ -474,9 +1305,46 @@ const SettingsView = ({ settings, onUpdate, userProfile, onUpdateProfile, onBack
                              <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.cni}</label><input type="text" value={userProfile.cni} onChange={e => onUpdateProfile({...userProfile, cni: e.target.value})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" /></div>
                              <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.ppn}</label><input type="text" value={userProfile.ppn} onChange={e => onUpdateProfile({...userProfile, ppn: e.target.value})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm" /></div>
                          </div>
+                         <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.profileTemplate}</label><select value={userProfile.defaultTemplateId || ''} onChange={e => onUpdateProfile({...userProfile, defaultTemplateId: e.target.value || undefined})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm"><option value="">{t.keepCurrent}</option><option value="default">{t.defaultTemplate}</option>{settings.customTemplates.map(tpl => (<option key={tpl.id} value={tpl.id}>{tpl.name}</option>))}</select></div>
+                         <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.profileLanguage}</label><select value={userProfile.language || ''} onChange={e => onUpdateProfile({...userProfile, language: (e.target.value || undefined) as Language | undefined})} className="w-full p-2 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm"><option value="">{t.keepCurrent}</option><option value="en">English</option><option value="ar">العربية</option></select></div>
+                         {profiles.length > 1 && (<button onClick={() => { if (confirm(t.deleteProfileConfirm)) onDeleteProfile(userProfile.id); }} className="w-full py-2.5 text-red-500 bg-red-50 dark:bg-red-900/20 rounded-xl font-bold text-xs hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors flex items-center justify-center gap-2"><Trash2 size={14} /> {t.deleteProfile}</button>)}
                     </div>
                 </section>
             </div>
+            {editingLayout && (<PdfLayoutEditor layout={editingLayout} language={settings.language} onSave={saveLayout} onCancel={() => setEditingLayout(null)} />)}
+            {pendingTemplate && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="bg-white dark:bg-gray-900 rounded-3xl p-6 w-full max-w-sm shadow-2xl space-y-4 animate-in zoom-in-95 duration-200 max-h-[90dvh] overflow-y-auto">
+                        <div className="flex justify-between items-center"><h3 className="font-bold text-lg text-gray-800 dark:text-gray-100 truncate">{pendingTemplate.template.name}</h3><button onClick={() => setPendingTemplate(null)} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"><X size={20} /></button></div>
+                        {pendingErrors.length === 0 && pendingWarnings.length === 0 && (<p className="text-sm text-green-600 dark:text-green-400 flex items-center gap-2"><CheckCircle size={16} /> {t.templateValid}</p>)}
+                        {pendingErrors.length > 0 && (
+                            <div className="bg-red-50 dark:bg-red-900/20 p-3 rounded-xl space-y-1"><p className="text-xs font-bold text-red-600 dark:text-red-400 uppercase">{t.templateErrors}</p>{pendingErrors.map((issue, i) => (<p key={i} className="text-xs text-red-700 dark:text-red-300 break-words">• {issue.message}</p>))}</div>
+                        )}
+                        {pendingWarnings.length > 0 && (
+                            <div className="bg-yellow-50 dark:bg-yellow-900/20 p-3 rounded-xl space-y-1"><p className="text-xs font-bold text-yellow-700 dark:text-yellow-400 uppercase">{t.templateWarnings}</p>{pendingWarnings.map((issue, i) => (<p key={i} className="text-xs text-yellow-800 dark:text-yellow-300 break-words">• {issue.message}</p>))}</div>
+                        )}
+                        {pendingTemplate.report.preview.length > 0 && (
+                            <div className="space-y-1">
+                                <p className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.samplePreview}</p>
+                                <div className="max-h-48 overflow-y-auto bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl p-3 space-y-1.5 text-xs text-gray-700 dark:text-gray-300 text-start" dir="auto">{pendingTemplate.report.preview.map((p, i) => (<p key={i} className="whitespace-pre-wrap">{p}</p>))}</div>
+                            </div>
+                        )}
+                        {pendingTemplate.report.sample && (<button onClick={() => downloadBlob(pendingTemplate.report.sample!, `${pendingTemplate.template.name}_sample.docx`)} className="w-full py-2.5 bg-gray-50 dark:bg-gray-800 text-brand-600 dark:text-brand-400 rounded-xl font-bold text-xs border border-gray-100 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center gap-2"><Download size={14} /> {t.downloadSample}</button>)}
+                        <div className="flex gap-3 pt-2"><button onClick={() => setPendingTemplate(null)} className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.cancel}</button><button onClick={activatePendingTemplate} disabled={pendingErrors.length > 0} className="flex-1 py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all">{t.activateTemplate}</button></div>
+                    </div>
+                </div>
+            )}
+            {pendingBackup && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="bg-white dark:bg-gray-900 rounded-3xl p-6 w-full max-w-sm shadow-2xl space-y-4 animate-in zoom-in-95 duration-200">
+                        <div className="flex justify-between items-center"><h3 className="font-bold text-lg text-gray-800 dark:text-gray-100">{t.restoreTitle}</h3><button onClick={() => setPendingBackup(null)} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"><X size={20} /></button></div>
+                        <p className="text-sm text-gray-600 dark:text-gray-300"><span className="font-bold">{pendingBackup.missions.length}</span> {t.restoreSummary}{pendingBackup.exportedAt && ` (${formatDate(pendingBackup.exportedAt.split('T')[0], settings.language === 'ar' ? 'ar-EG' : 'en-US')})`}</p>
+                        <button onClick={() => confirmRestore('merge')} className="w-full p-4 rounded-2xl bg-brand-50 dark:bg-brand-900/20 text-start hover:bg-brand-100 dark:hover:bg-brand-900/40 transition-colors"><p className="font-bold text-sm text-brand-700 dark:text-brand-300">{t.restoreMerge}</p><p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t.restoreMergeDesc}</p></button>
+                        <button onClick={() => confirmRestore('replace')} className="w-full p-4 rounded-2xl bg-red-50 dark:bg-red-900/20 text-start hover:bg-red-100 dark:hover:bg-red-900/40 transition-colors"><p className="font-bold text-sm text-red-600 dark:text-red-400">{t.restoreReplace}</p><p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t.restoreReplaceDesc}</p></button>
+                        <button onClick={() => setPendingBackup(null)} className="w-full py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.cancel}</button>
+                    </div>
+                </div>
+            )}
         </div>
     );
 };
@@ -498,7 +1366,9 @@ const CalendarWidget = ({ missions, selectedDate, onDateSelect, viewDate, onView
     const daysInMonth = new Date(year, month + 1, 0).getDate();
     const firstDayOfMonth = new Date(year, month, 1).getDay();
     const getDateString = (d: number) => `${year}-${String(month + 1).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
-    const hasMission = (dateStr: string) => missions.some(m => m.date === dateStr);
+    const today = localToday();
+    const dayStatus = (dateStr: string) => earliestStatus(missions.filter(m => m.date === dateStr).map(m => getMissionStatus(m, today)));
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
 
     const renderDays = () => {
         const els = [];
@@ -506,12 +1376,13 @@ const CalendarWidget = ({ missions, selectedDate, onDateSelect, viewDate, onView
         for(let d=1; d<=daysInMonth; d++) {
             const dateStr = getDateString(d);
             const isSelected = selectedDate === dateStr;
-            const isMissionDay = hasMission(dateStr);
-            const isToday = dateStr === new Date().toISOString().split('T')[0];
+            const status = dayStatus(dateStr);
+            const isMissionDay = status !== null;
+            const isToday = dateStr === today;
             els.push(
-                <button key={d} onClick={() => onDateSelect(isSelected ? null : dateStr)} className={`h-9 w-9 rounded-full flex items-center justify-center text-xs font-medium transition-all relative mx-auto ${isSelected ? 'bg-brand-600 text-white shadow-lg shadow-brand-500/40 transform scale-105' : isMissionDay ? 'bg-brand-100 dark:bg-brand-900 text-brand-700 dark:text-brand-300 font-bold hover:bg-brand-200 dark:hover:bg-brand-800' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'} ${!isSelected && isToday ? 'ring-2 ring-brand-400 text-brand-600' : ''}`}>
+                <button key={d} onClick={() => onDateSelect(isSelected ? null : dateStr)} className={`h-9 w-9 rounded-full flex items-center justify-center text-xs font-medium transition-all relative mx-auto ${isSelected ? 'bg-brand-600 text-white shadow-lg shadow-brand-500/40 transform scale-105' : status ? `${STATUS_STYLES[status].day} font-bold` : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800'} ${!isSelected && isToday ? 'ring-2 ring-brand-400 text-brand-600' : ''}`}>
                     {d.toLocaleString(settings.language === 'ar' ? 'ar-EG' : 'en-US')}
-                    {isMissionDay && !isSelected && (<div className="absolute bottom-1.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-brand-500 opacity-60"></div>)}
+                    {status && !isSelected && (<div className={`absolute bottom-1.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full opacity-60 ${STATUS_STYLES[status].bar}`}></div>)}
                 </button>
             );
         }
@@ -529,46 +1400,430 @@ const CalendarWidget = ({ missions, selectedDate, onDateSelect, viewDate, onView
                 {dayNames.map(d => (<div key={d} className="text-center text-[10px] uppercase font-bold text-gray-400 dark:text-gray-500">{d}</div>))}
             </div>
             <div className="grid grid-cols-7 gap-y-2 gap-x-1">{renderDays()}</div>
+            <div className="flex flex-wrap justify-center gap-x-3 gap-y-1 mt-4">
+                {MISSION_STATUSES.map(s => (<span key={s} className="flex items-center gap-1 text-[10px] font-medium text-gray-500 dark:text-gray-400"><span className={`w-2 h-2 rounded-full ${STATUS_STYLES[s].bar}`}></span>{statusLabel(t, s)}</span>))}
+            </div>
         </div>
     );
 };
 
-interface DashboardProps {
+interface MissionMapProps {
     missions: Mission[];
-    settings: Settings;
-    userProfile: UserProfile;
+    matching: Mission[]; // Missions passing the current filter; the others are dimmed
+    area: GeoArea | null;
+    onAreaChange: (area: GeoArea | null) => void;
     onSelect: (id: string) => void;
-    onAdd: () => void;
-    onOpenSettings: () => void;
+    settings: Settings;
 }
 
-const Dashboard = ({ missions, settings, userProfile, onSelect, onAdd, onOpenSettings }: DashboardProps) => {
-  const [search, setSearch] = useState('');
-  const [selectedDate, setSelectedDate] = useState<string | null>(null);
-  const [viewDate, setViewDate] = useState(new Date()); 
-  const [isExporting, setIsExporting] = useState(false);
-  const [showExportModal, setShowExportModal] = useState(false);
-  const [exportDates, setExportDates] = useState({ start: '', end: '' });
-  const [exportFormat, setExportFormat] = useState<'docx' | 'pdf'>('docx');
-  const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+const MAP_WIDTH = 320;
+const MAP_HEIGHT = 220;
 
-  const filteredMissions = missions.filter(m => {
-    const searchMatch = m.title.toLowerCase().includes(search.toLowerCase()) || m.location.toLowerCase().includes(search.toLowerCase()) || m.date.includes(search);
-    let dateMatch = true;
-    if (selectedDate) dateMatch = m.date === selectedDate;
-    return searchMatch && dateMatch;
-  });
+// Start and end points of every mission with coordinates, on a plain grid over country borders (see geo.ts).
+// In drawing mode a drag selects the area the mission list is filtered by.
+const MissionMap = ({ missions, matching, area, onAreaChange, onSelect, settings }: MissionMapProps) => {
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [isDrawing, setIsDrawing] = useState(false);
+    const [drag, setDrag] = useState<{ from: { x: number; y: number }; to: { x: number; y: number } } | null>(null);
+    const [outline, setOutline] = useState<WorldOutline | null>(null);
+    useEffect(() => { loadWorldOutline().then(setOutline); }, []);
+    const located = missions.filter(m => missionPoints(m).length > 0);
+    const projection = fitProjection(located.flatMap(missionPoints), MAP_WIDTH, MAP_HEIGHT);
+    const { view } = projection;
+    const matchingIds = new Set(matching.map(m => m.id));
+    const today = localToday();
+
+    const toSvg = (e: React.PointerEvent) => {
+        const box = svgRef.current!.getBoundingClientRect();
+        return { x: (e.clientX - box.left) / box.width * MAP_WIDTH, y: (e.clientY - box.top) / box.height * MAP_HEIGHT };
+    };
+    const startDrag = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (!isDrawing) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        const point = toSvg(e);
+        setDrag({ from: point, to: point });
+    };
+    const moveDrag = (e: React.PointerEvent<SVGSVGElement>) => { if (drag) setDrag({ ...drag, to: toSvg(e) }); };
+    const endDrag = () => {
+        if (!drag) return;
+        // A tap is not an area
+        if (Math.abs(drag.to.x - drag.from.x) > 8 && Math.abs(drag.to.y - drag.from.y) > 8) {
+            onAreaChange(areaFromCorners(projection.toPoint(drag.from.x, drag.from.y), projection.toPoint(drag.to.x, drag.to.y)));
+            setIsDrawing(false);
+        }
+        setDrag(null);
+    };
+
+    const areaBox = drag
+        ? { x: Math.min(drag.from.x, drag.to.x), y: Math.min(drag.from.y, drag.to.y), width: Math.abs(drag.to.x - drag.from.x), height: Math.abs(drag.to.y - drag.from.y) }
+        : area ? (() => {
+            const topLeft = projection.toXY({ lat: area.north, lng: area.west });
+            const bottomRight = projection.toXY({ lat: area.south, lng: area.east });
+            return { x: topLeft.x, y: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y };
+        })() : null;
+
+    return (
+        <div className="bg-white dark:bg-gray-900 rounded-3xl shadow-soft p-5 border border-gray-100/50 dark:border-gray-800 space-y-3">
+            {located.length === 0 ? (<p className="text-xs text-gray-400 dark:text-gray-500 text-center py-12">{t.noCoordinates}</p>) : (
+                <svg ref={svgRef} viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`} className={`w-full rounded-2xl bg-sky-50 dark:bg-gray-800 touch-none select-none ${isDrawing ? 'cursor-crosshair' : ''}`} onPointerDown={startDrag} onPointerMove={moveDrag} onPointerUp={endDrag} onPointerCancel={() => setDrag(null)}>
+                    {outline && (<path d={outlinePath(outline, projection)} fillRule="evenodd" className="fill-white dark:fill-gray-700 stroke-gray-300 dark:stroke-gray-600" strokeWidth={0.5} strokeLinejoin="round" />)}
+                    {gridLines(view.south, view.north).map(lat => {
+                        const { y } = projection.toXY({ lat, lng: view.west });
+                        return (<g key={`lat-${lat}`}><line x1={0} x2={MAP_WIDTH} y1={y} y2={y} className="stroke-gray-200 dark:stroke-gray-700" strokeWidth={0.5} /><text x={3} y={y - 2} className="fill-gray-400" fontSize={7}>{lat}°</text></g>);
+                    })}
+                    {gridLines(view.west, view.east).map(lng => {
+                        const { x } = projection.toXY({ lat: view.south, lng });
+                        return (<g key={`lng-${lng}`}><line x1={x} x2={x} y1={0} y2={MAP_HEIGHT} className="stroke-gray-200 dark:stroke-gray-700" strokeWidth={0.5} /><text x={x + 2} y={MAP_HEIGHT - 3} className="fill-gray-400" fontSize={7}>{lng}°</text></g>);
+                    })}
+                    {located.map(mission => {
+                        const points = missionPoints(mission).map(projection.toXY);
+                        const status = getMissionStatus(mission, today);
+                        return (
+                            <g key={mission.id} opacity={matchingIds.has(mission.id) ? 1 : 0.25} onClick={() => { if (!isDrawing) onSelect(mission.id); }} className={isDrawing ? '' : 'cursor-pointer'}>
+                                <title>{mission.title}</title>
+                                {points.length === 2 && (<line x1={points[0].x} y1={points[0].y} x2={points[1].x} y2={points[1].y} className="stroke-gray-400" strokeWidth={1} strokeDasharray="2 2" />)}
+                                {points.map((p, i) => (<circle key={i} cx={p.x} cy={p.y} r={i === 0 ? 5 : 3.5} className={`${STATUS_STYLES[status].dot} stroke-white dark:stroke-gray-900`} strokeWidth={1.5} />))}
+                            </g>
+                        );
+                    })}
+                    {areaBox && (<rect {...areaBox} className="fill-brand-500/10 stroke-brand-500" strokeWidth={1} strokeDasharray="4 2" />)}
+                </svg>
+            )}
+            <div className="flex items-center gap-2">
+                <p className="flex-1 text-[11px] text-gray-400 dark:text-gray-500">{isDrawing ? t.drawAreaHint : `${located.length.toLocaleString(settings.language === 'ar' ? 'ar-EG' : 'en-US')} / ${missions.length.toLocaleString(settings.language === 'ar' ? 'ar-EG' : 'en-US')} ${t.missionsOnMap}`}</p>
+                {area && !isDrawing && (<button onClick={() => onAreaChange(null)} className="text-xs font-bold text-gray-500 dark:text-gray-400 bg-gray-50 dark:bg-gray-800 px-3 py-1.5 rounded-lg">{t.clearArea}</button>)}
+                {located.length > 0 && (<button onClick={() => { setIsDrawing(!isDrawing); setDrag(null); }} className={`text-xs font-bold px-3 py-1.5 rounded-lg flex items-center gap-1 ${isDrawing ? 'bg-brand-600 text-white' : 'text-brand-600 dark:text-brand-400 bg-brand-50 dark:bg-brand-900/20'}`}><Crosshair size={12} /> {isDrawing ? t.cancel : t.drawArea}</button>)}
+            </div>
+        </div>
+    );
+};
+
+interface PendingDraftsListProps {
+    drafts: PendingDraft[];
+    settings: Settings;
+    isOnline: boolean;
+    onReview: (id: string) => void;
+    onRetry: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+const PendingDraftsList = ({ drafts, settings, isOnline, onReview, onRetry, onDelete }: PendingDraftsListProps) => {
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const statusLabel = { pending: t.draftStatusPending, processing: t.draftStatusProcessing, ready: t.draftStatusReady, failed: t.draftStatusFailed };
+    const statusColor = { pending: 'text-yellow-600 dark:text-yellow-400', processing: 'text-brand-600 dark:text-brand-400', ready: 'text-green-600 dark:text-green-400', failed: 'text-red-500' };
+
+    return (
+        <div className="space-y-3">
+            <h2 className="text-sm font-bold text-gray-800 dark:text-gray-100 flex items-center gap-2"><Sparkles size={14} className="text-brand-500" /> {t.pendingDrafts}</h2>
+            {drafts.map(draft => (
+                <div key={draft.id} className="bg-white dark:bg-gray-900 p-4 rounded-2xl shadow-soft border border-dashed border-brand-200 dark:border-brand-900 space-y-2">
+                    <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-2 text-start">{draft.text}</p>
+                    <div className="flex items-center justify-between gap-2">
+                        <span className={`text-[11px] font-bold flex items-center gap-1 ${statusColor[draft.status]}`}>
+                            {draft.status === 'processing' ? <Loader2 size={12} className="animate-spin" /> : draft.status === 'ready' ? <CheckCircle size={12} /> : draft.status === 'pending' ? <WifiOff size={12} /> : <Info size={12} />}
+                            {statusLabel[draft.status]}
+                        </span>
+                        <div className="flex items-center gap-1">
+                            {draft.status === 'ready' && (<button onClick={() => onReview(draft.id)} className="text-xs font-bold text-white bg-brand-600 hover:bg-brand-700 px-3 py-1.5 rounded-lg">{t.review}</button>)}
+                            {draft.status === 'failed' && isOnline && (<button onClick={() => onRetry(draft.id)} className="text-xs font-bold text-brand-600 bg-brand-50 dark:bg-brand-900/20 px-3 py-1.5 rounded-lg flex items-center gap-1"><RefreshCw size={12} /> {t.retry}</button>)}
+                            {draft.status !== 'processing' && (<button onClick={() => onDelete(draft.id)} className="text-gray-400 hover:text-red-500 p-1.5"><Trash2 size={14} /></button>)}
+                        </div>
+                    </div>
+                    {draft.status === 'failed' && draft.error && (<p className="text-[11px] text-red-400 break-words">{draft.error}</p>)}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+interface ImportWizardProps {
+    sheet: ParsedSheet;
+    fileName: string;
+    missions: Mission[];
+    settings: Settings;
+    onImport: (missions: Mission[]) => void;
+    onClose: () => void;
+}
+
+const ImportWizard = ({ sheet, fileName, missions, settings, onImport, onClose }: ImportWizardProps) => {
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const customKeys = getActiveCustomFields(settings);
+    const [mapping, setMapping] = useState<string[]>(() => guessMapping(sheet.headers, customKeys));
+    const [step, setStep] = useState<'map' | 'preview'>('map');
+    const [skipDuplicates, setSkipDuplicates] = useState(true);
+
+    const fieldLabels: Record<string, string> = {
+        title: t.title, location: t.location, date: t.startDate, finishDate: t.endDate, startTime: t.startTime, finishTime: t.endTime, notes: t.notes,
+        ...Object.fromEntries(customKeys.map(key => [`custom:${key}`, humanizeTag(key)]))
+    };
+    const canPreview = mapping.includes('title') && mapping.includes('date');
+    const rows = step === 'preview' ? buildImportRows(sheet, mapping, missions) : [];
+    const importable = rows.filter(r => r.mission && !(skipDuplicates && r.duplicate));
+
+    // A field can only come from one column; picking it again clears the previous column
+    const mapColumn = (column: number, field: string) => {
+        setMapping(mapping.map((f, i) => i === column ? field : (field && f === field ? '' : f)));
+    };
+
+    const confirmImport = () => {
+        onImport(importable.map(r => r.mission!));
+        alert(`${importable.length} ${t.importDone}`);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-gray-900 rounded-3xl p-6 w-full max-w-md shadow-2xl space-y-4 animate-in zoom-in-95 duration-200 max-h-[90dvh] flex flex-col">
+                <div className="flex justify-between items-center"><div className="min-w-0"><h3 className="font-bold text-lg text-gray-800 dark:text-gray-100">{t.importMissions}</h3><p className="text-xs text-gray-400 truncate">{fileName}</p></div><button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"><X size={20} /></button></div>
+                {step === 'map' ? (
+                    <>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{t.mapColumns}</p>
+                        <div className="flex-1 overflow-y-auto space-y-2 min-h-0">
+                            {sheet.headers.map((header, column) => (
+                                <div key={column} className="flex items-center gap-3 p-2 bg-gray-50 dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700">
+                                    <div className="flex-1 min-w-0"><p className="text-sm font-bold text-gray-700 dark:text-gray-200 truncate" dir="auto">{header}</p><p className="text-[11px] text-gray-400 truncate" dir="auto">{String(sheet.rows[0]?.[column] ?? '')}</p></div>
+                                    <select value={mapping[column]} onChange={e => mapColumn(column, e.target.value)} className="w-36 p-2 bg-white dark:bg-gray-900 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-xs">
+                                        <option value="">{t.skipColumn}</option>
+                                        {[...IMPORT_FIELDS, ...customKeys.map(key => `custom:${key}`)].map(field => (<option key={field} value={field}>{fieldLabels[field]}</option>))}
+                                    </select>
+                                </div>
+                            ))}
+                        </div>
+                        {!canPreview && (<p className="text-xs text-yellow-700 dark:text-yellow-400">{t.requiredColumns}</p>)}
+                        <div className="flex gap-3 pt-2"><button onClick={onClose} className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.cancel}</button><button onClick={() => setStep('preview')} disabled={!canPreview} className="flex-1 py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all">{t.next}</button></div>
+                    </>
+                ) : (
+                    <>
+                        <div className="flex flex-wrap gap-2 text-xs font-bold">
+                            <span className="px-2 py-1 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400">{rows.filter(r => r.mission).length} {t.rowsReady}</span>
+                            {rows.some(r => r.errors.length > 0) && (<span className="px-2 py-1 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400">{rows.filter(r => r.errors.length > 0).length} {t.rowsWithErrors}</span>)}
+                            {rows.some(r => r.duplicate) && (<span className="px-2 py-1 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-yellow-700 dark:text-yellow-400">{rows.filter(r => r.duplicate).length} {t.possibleDuplicate}</span>)}
+                        </div>
+                        <div className="flex-1 overflow-y-auto space-y-1.5 min-h-0">
+                            {rows.map(row => {
+                                const values = Object.fromEntries(mapping.map((field, column) => [field, String(sheet.rows[row.line - 2][column] ?? '')]));
+                                return (
+                                    <div key={row.line} className={`p-2 rounded-xl border text-xs ${row.errors.length > 0 ? 'border-red-100 dark:border-red-900/40 bg-red-50/50 dark:bg-red-900/10' : row.duplicate ? 'border-yellow-100 dark:border-yellow-900/40 bg-yellow-50/50 dark:bg-yellow-900/10' : 'border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800'}`}>
+                                        <div className="flex items-center gap-2"><span className="text-gray-400 font-mono">#{row.line}</span><span className="font-bold text-gray-700 dark:text-gray-200 truncate flex-1" dir="auto">{row.mission?.title || values.title}</span><span className="text-gray-500 dark:text-gray-400">{row.mission?.date || values.date}</span></div>
+                                        {(row.mission?.location || values.location) && (<p className="text-gray-500 dark:text-gray-400 truncate mt-0.5" dir="auto">{row.mission?.location || values.location}</p>)}
+                                        {row.errors.map((error, i) => (<p key={i} className="text-red-600 dark:text-red-400 mt-0.5">• {error}</p>))}
+                                        {row.duplicate && row.errors.length === 0 && (<p className="text-yellow-700 dark:text-yellow-400 mt-0.5">• {t.possibleDuplicate}</p>)}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300"><input type="checkbox" checked={skipDuplicates} onChange={e => setSkipDuplicates(e.target.checked)} className="accent-brand-600" /> {t.skipDuplicates}</label>
+                        <div className="flex gap-3 pt-2"><button onClick={() => setStep('map')} className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.back}</button><button onClick={confirmImport} disabled={importable.length === 0} className="flex-1 py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all">{t.importData} ({importable.length})</button></div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+interface IcsImportDialogProps {
+    events: IcsEvent[];
+    fileName: string;
+    missions: Mission[];
+    settings: Settings;
+    onImport: (missions: Mission[]) => void;
+    onClose: () => void;
+}
+
+const IcsImportDialog = ({ events, fileName, missions, settings, onImport, onClose }: IcsImportDialogProps) => {
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const [range, setRange] = useState(() => {
+        const now = new Date();
+        return { start: localDate(new Date(now.getFullYear(), now.getMonth(), 1)), end: localDate(new Date(now.getFullYear(), now.getMonth() + 3, 0)) };
+    });
+    const recurring = hasRecurringEvents(events);
+    const rows = range.start && range.end ? buildIcsImportRows(events, resolveTimeZone(settings.timeZone), range.start, range.end, missions) : [];
+    const importable = rows.filter(r => !r.alreadyImported);
+
+    const confirmImport = () => {
+        onImport(importable.map(r => r.mission));
+        alert(`${importable.length} ${t.importDone}`);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-gray-900 rounded-3xl p-6 w-full max-w-md shadow-2xl space-y-4 animate-in zoom-in-95 duration-200 max-h-[90dvh] flex flex-col">
+                <div className="flex justify-between items-center"><div className="min-w-0"><h3 className="font-bold text-lg text-gray-800 dark:text-gray-100">{t.importMissions}</h3><p className="text-xs text-gray-400 truncate">{fileName}</p></div><button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"><X size={20} /></button></div>
+                {recurring && (
+                    <div className="space-y-1">
+                        <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.repeatWindow}</label>
+                        <div className="flex gap-2">
+                            <input type="date" value={range.start} onChange={e => setRange({...range, start: e.target.value})} className="flex-1 min-w-0 p-2.5 rounded-xl bg-gray-50 dark:bg-gray-800 dark:text-white border border-gray-100 dark:border-gray-700 outline-none text-sm text-start" />
+                            <input type="date" value={range.end} onChange={e => setRange({...range, end: e.target.value})} className="flex-1 min-w-0 p-2.5 rounded-xl bg-gray-50 dark:bg-gray-800 dark:text-white border border-gray-100 dark:border-gray-700 outline-none text-sm text-start" />
+                        </div>
+                    </div>
+                )}
+                <div className="flex flex-wrap gap-2 text-xs font-bold">
+                    <span className="px-2 py-1 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-400">{importable.length} {t.eventsReady}</span>
+                    {rows.length > importable.length && (<span className="px-2 py-1 rounded-lg bg-gray-100 dark:bg-gray-800 text-gray-500 dark:text-gray-400">{rows.length - importable.length} {t.alreadyImported}</span>)}
+                </div>
+                <div className="flex-1 overflow-y-auto space-y-1.5 min-h-0">
+                    {rows.length === 0 && (<p className="text-xs text-gray-400 text-center py-6">{t.noEvents}</p>)}
+                    {rows.map(row => (
+                        <div key={row.key} className={`p-2 rounded-xl border text-xs border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-800 ${row.alreadyImported ? 'opacity-50' : ''}`}>
+                            <div className="flex items-center gap-2"><span className="font-bold text-gray-700 dark:text-gray-200 truncate flex-1" dir="auto">{row.mission.title || t.untitled}</span><span className="text-gray-500 dark:text-gray-400">{row.mission.date}{row.mission.startTime && ` ${formatHours(row.mission)}`}</span></div>
+                            {row.mission.location && (<p className="text-gray-500 dark:text-gray-400 truncate mt-0.5" dir="auto">{row.mission.location}</p>)}
+                            {(row.recurring || row.alreadyImported) && (<p className="text-gray-400 mt-0.5">{[row.recurring && t.repeats, row.alreadyImported && t.alreadyImported].filter(Boolean).join(' · ')}</p>)}
+                        </div>
+                    ))}
+                </div>
+                <div className="flex gap-3 pt-2"><button onClick={onClose} className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.cancel}</button><button onClick={confirmImport} disabled={importable.length === 0} className="flex-1 py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all">{t.importData} ({importable.length})</button></div>
+            </div>
+        </div>
+    );
+};
+
+// Missions rendered per page of the Dashboard list; "Show more" adds another page
+const MISSION_PAGE_SIZE = 30;
+const VISIBLE_LOCATION_FACETS = 12;
+
+interface DashboardProps {
+    missions: Mission[];
+    settings: Settings;
+    userProfile: UserProfile;
+    profiles: UserProfile[];
+    drafts: PendingDraft[];
+    isOnline: boolean;
+    onSelect: (id: string) => void;
+    onAdd: () => void;
+    onOpenSettings: () => void;
+    onSwitchProfile: (id: string) => void;
+    onAddProfile: () => void;
+    syncConflictCount: number;
+    reviewInboxCount: number | null; // Missions awaiting review; null unless this device is a supervisor's
+    onOpenInbox: () => void;
+    onReviewDraft: (id: string) => void;
+    onRetryDraft: (id: string) => void;
+    onDeleteDraft: (id: string) => void;
+    onImport: (missions: Mission[]) => void;
+}
+
+const Dashboard = ({ missions, settings, userProfile, profiles, drafts, isOnline, onSelect, onAdd, onOpenSettings, onSwitchProfile, onAddProfile, syncConflictCount, reviewInboxCount, onOpenInbox, onReviewDraft, onRetryDraft, onDeleteDraft, onImport }: DashboardProps) => {
+  const [filter, setFilter] = useState<MissionFilter>(EMPTY_FILTER);
+  const [showProfiles, setShowProfiles] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [aiMode, setAiMode] = useState(false);
+  const [aiQuestion, setAiQuestion] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [aiAnswer, setAiAnswer] = useState<{ question: string; intent: SearchIntent } | null>(null);
+  const [visibleCount, setVisibleCount] = useState(MISSION_PAGE_SIZE);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [viewDate, setViewDate] = useState(new Date()); 
+  const [showMap, setShowMap] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [exportDates, setExportDates] = useState({ start: '', end: '' });
+  const [exportFormat, setExportFormat] = useState<'docx' | 'pdf' | 'csv' | 'xlsx' | 'ics'>('docx');
+  const [exportContent, setExportContent] = useState<'missions' | 'summary'>('missions');
+  const [importFile, setImportFile] = useState<{ sheet: ParsedSheet; name: string } | null>(null);
+  const [calendarFile, setCalendarFile] = useState<{ events: IcsEvent[]; name: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+
+  const today = localToday();
+  const filteredMissions = filterMissions(missions, filter, today).filter(m => !selectedDate || m.date === selectedDate);
+  const visibleMissions = filteredMissions.slice(0, visibleCount);
+  const facets = showFilters || filter.locations.length > 0 ? locationFacets(missions) : [];
+  const sortLabels: Record<MissionSort, string> = { date_desc: t.sortDateDesc, date_asc: t.sortDateAsc, created_desc: t.sortCreated, title: t.sortTitle, location: t.sortLocation };
+
+  // Any change to the criteria starts again from the first page
+  const updateFilter = (changes: Partial<MissionFilter>) => {
+    setFilter({ ...filter, ...changes });
+    setVisibleCount(MISSION_PAGE_SIZE);
+  };
+  const askAi = async () => {
+    if (!aiQuestion.trim()) return;
+    if (!isOnline) { alert(t.aiSearchOffline); return; }
+    setIsAsking(true);
+    try {
+        const result = await parseSearchQuestion(aiQuestion, locationFacets(missions).slice(0, 100).map(f => f.label), today);
+        const { filter: next, intent } = filterFromAi(result, missions, filter.sort);
+        updateFilter(next);
+        setSelectedDate(null);
+        setAiAnswer({ question: aiQuestion, intent });
+    } catch (e: any) {
+        console.error("AI Search Error", e);
+        alert(`AI Search failed: ${e.message || "Network or API Key Error"}.`);
+    } finally {
+        setIsAsking(false);
+    }
+  };
+
+  // The answer follows the current filter, so editing the chips updates it
+  const renderAnswer = (intent: SearchIntent) => {
+    const locale = settings.language === 'ar' ? 'ar-EG' : 'en-US';
+    const { count, days, minutes } = aggregateMissions(filteredMissions, filter);
+    if (intent === 'totalDays') return `${t.totalDays}: ${days.toLocaleString(locale)} ${t.days}`;
+    if (intent === 'totalHours') return `${t.totalHours}: ${formatDuration(minutes)}`;
+    return `${count.toLocaleString(locale)} ${t.missionsFound}`;
+  };
+
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+        if (/\.ics$/i.test(file.name) || file.type === 'text/calendar') setCalendarFile({ events: parseIcs(await file.text()), name: file.name });
+        else setImportFile({ sheet: await readSpreadsheet(file), name: file.name });
+    } catch (err: any) {
+        alert(`${t.importFailed}: ${err.message}`);
+    }
+  };
+
+  // One summary document for the whole range instead of a zip of mission reports
+  const performSummaryExport = async () => {
+    const summary = summarizeMissions(missions, exportDates.start, exportDates.end);
+    if (summary.rows.length === 0) { alert(t.noMissions); return; }
+    const blob = exportFormat === 'pdf' ? await generateActivityReportPdf(summary, userProfile, settings) : generateActivityReportDocx(summary, userProfile, settings);
+    downloadBlob(blob, activityReportFileName(summary, exportFormat === 'pdf' ? 'pdf' : 'docx'));
+  };
+
+  const performSpreadsheetExport = (format: 'csv' | 'xlsx') => {
+    const missionsInRange = missions
+        .filter(m => isMissionInRange(m, exportDates.start, exportDates.end))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    if (missionsInRange.length === 0) { alert(t.noMissions); return; }
+    const blob = format === 'csv' ? missionsToCsv(missionsInRange, userProfile, settings.language) : missionsToXlsx(missionsInRange, userProfile, settings.language);
+    downloadBlob(blob, spreadsheetFileName(exportDates.start, exportDates.end, format));
+  };
+
+  const performCalendarExport = () => {
+    const missionsInRange = missions
+        .filter(m => isMissionInRange(m, exportDates.start, exportDates.end))
+        .sort((a, b) => a.date.localeCompare(b.date));
+    if (missionsInRange.length === 0) { alert(t.noMissions); return; }
+    downloadBlob(missionsToIcsBlob(missionsInRange, resolveTimeZone(settings.timeZone), 'MissionLog AI'), icsFileName(exportDates.start, exportDates.end));
+  };
 
   const performExport = async () => {
     setIsExporting(true);
     setShowExportModal(false);
+    if (exportContent === 'summary' || exportFormat === 'csv' || exportFormat === 'xlsx' || exportFormat === 'ics') {
+        try {
+            if (exportContent === 'summary') await performSummaryExport();
+            else if (exportFormat === 'ics') performCalendarExport();
+            else performSpreadsheetExport(exportFormat as 'csv' | 'xlsx');
+        } catch (e: any) {
+            console.error("Export Error", e);
+            alert(`Document Generation Error: ${e.message}`);
+        } finally {
+            setIsExporting(false);
+        }
+        return;
+    }
     try {
         const PizZip = (window as any).PizZip;
         if (!PizZip) throw new Error("PizZip not loaded");
-        const start = new Date(exportDates.start);
-        const end = new Date(exportDates.end);
-        end.setHours(23, 59, 59, 999);
-        const missionsInRange = missions.filter(m => { const mDate = new Date(m.date); return mDate >= start && mDate <= end; });
+        const missionsInRange = missions.filter(m => isMissionInRange(m, exportDates.start, exportDates.end));
         if (missionsInRange.length === 0) { alert(t.noMissions); return; }
         const masterZip = new PizZip();
         for (const mission of missionsInRange) {
@@ -577,7 +1832,7 @@ const Dashboard = ({ missions, settings, userProfile, onSelect, onAdd, onOpenSet
             
             if (exportFormat === 'pdf') {
                 try {
-                    blob = await generatePdfBlob(mission, userProfile);
+                    blob = await generatePdfBlob(mission, userProfile, settings);
                     ext = 'pdf';
                 } catch (e) {
                     console.error("PDF Export Error", e);
@@ -587,11 +1842,15 @@ const Dashboard = ({ missions, settings, userProfile, onSelect, onAdd, onOpenSet
                 ext = 'docx';
             }
 
+            const safeName = mission.title.replace(/[^a-z0-9]/gi, '_').substring(0, 30);
             if (blob) {
                 const buffer = await blob.arrayBuffer();
-                const safeName = mission.title.replace(/[^a-z0-9]/gi, '_').substring(0, 30);
                 masterZip.file(`${mission.date}_${safeName}.${ext}`, new Uint8Array(buffer));
             }
+            for (const ref of mission.attachments || []) {
+                const file = await loadAttachmentBlob(ref);
+                if (file) masterZip.file(`${mission.date}_${safeName}_attachments/${ref.id}_${ref.name}`, new Uint8Array(await file.arrayBuffer()));
+            }
         }
         const content = masterZip.generate({ type: "blob" });
         const url = URL.createObjectURL(content);
@@ -605,14 +1864,44 @@ const Dashboard = ({ missions, settings, userProfile, onSelect, onAdd, onOpenSet
         <div className="bg-gradient-to-br from-brand-600 to-brand-800 text-white p-6 pt-8 pb-10 rounded-b-[2.5rem] shadow-lg relative overflow-hidden">
             <div className="absolute top-0 right-0 w-32 h-32 bg-white opacity-5 rounded-full -translate-y-1/2 translate-x-1/2 blur-2xl rtl:right-auto rtl:left-0 rtl:-translate-x-1/2"></div>
             <div className="relative z-10 mb-6">
+                <div className="absolute left-0 top-0 z-20 rtl:left-auto rtl:right-0">
+                    <button onClick={() => setShowProfiles(!showProfiles)} className="p-2 bg-white/10 backdrop-blur-sm rounded-full hover:bg-white/20 transition-colors"><Users size={20} className="text-white" /></button>
+                    {showProfiles && (
+                        <div className="absolute left-0 top-12 w-56 bg-white dark:bg-gray-900 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-800 py-2 text-gray-900 dark:text-gray-100 rtl:left-auto rtl:right-0">
+                            <p className="px-4 pb-2 text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.profiles}</p>
+                            {profiles.map(p => (
+                                <button key={p.id} onClick={() => { setShowProfiles(false); onSwitchProfile(p.id); }} className="w-full px-4 py-2 flex items-center gap-3 text-start hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
+                                    <div className="flex-1 min-w-0"><p className="text-sm font-bold truncate">{p.fullName}</p><p className="text-xs text-gray-400 dark:text-gray-500 truncate">{p.profession}</p></div>
+                                    {p.id === userProfile.id && <CheckCircle size={16} className="text-brand-600 dark:text-brand-400 shrink-0" />}
+                                </button>
+                            ))}
+                            <button onClick={() => { setShowProfiles(false); onAddProfile(); }} className="w-full px-4 py-2 mt-1 flex items-center gap-3 text-sm font-bold text-brand-600 dark:text-brand-400 border-t border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"><UserPlus size={16} /> {t.addProfile}</button>
+                        </div>
+                    )}
+                </div>
                 <div className="absolute right-0 top-0 rtl:right-auto rtl:left-0"><button onClick={onOpenSettings} className="p-2 bg-white/10 backdrop-blur-sm rounded-full hover:bg-white/20 transition-colors"><User size={20} className="text-white" /></button></div>
                 <div className="text-center px-8"><p className="text-brand-200 text-xs uppercase tracking-wider font-semibold">{getGreeting(t)}</p><h1 className="text-2xl font-bold mt-1">{userProfile.fullName}</h1><p className="text-sm text-brand-100 opacity-80 mt-1">{userProfile.profession}</p></div>
             </div>
-            <div className="relative z-10"><Search className="absolute left-4 top-1/2 -translate-y-1/2 text-brand-200 rtl:left-auto rtl:right-4" size={18} /><input type="text" placeholder={t.searchPlaceholder} className="w-full pl-11 pr-4 py-3.5 rounded-2xl border-none bg-white/10 backdrop-blur-md text-white placeholder-brand-200 focus:bg-white focus:text-gray-900 focus:placeholder-gray-400 shadow-inner outline-none transition-all rtl:pl-4 rtl:pr-11 text-start" value={search} onChange={(e) => setSearch(e.target.value)} /></div>
+            <div className="relative z-10">
+                {aiMode ? <Sparkles className="absolute left-4 top-1/2 -translate-y-1/2 text-brand-200 rtl:left-auto rtl:right-4" size={18} /> : <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-brand-200 rtl:left-auto rtl:right-4" size={18} />}
+                {aiMode
+                    ? <input type="text" placeholder={t.aiSearchPlaceholder} className="w-full pl-11 pr-14 py-3.5 rounded-2xl border-none bg-white/20 backdrop-blur-md text-white placeholder-brand-200 focus:bg-white focus:text-gray-900 focus:placeholder-gray-400 shadow-inner outline-none transition-all rtl:pl-14 rtl:pr-11 text-start" value={aiQuestion} onChange={(e) => setAiQuestion(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter') askAi(); }} dir="auto" />
+                    : <input type="text" placeholder={t.searchPlaceholder} className="w-full pl-11 pr-14 py-3.5 rounded-2xl border-none bg-white/10 backdrop-blur-md text-white placeholder-brand-200 focus:bg-white focus:text-gray-900 focus:placeholder-gray-400 shadow-inner outline-none transition-all rtl:pl-14 rtl:pr-11 text-start" value={filter.query} onChange={(e) => updateFilter({ query: e.target.value })} />}
+                <button onClick={() => (aiMode && aiQuestion.trim() ? askAi() : setAiMode(!aiMode))} disabled={isAsking} title={t.aiSearch} className={`absolute right-2 top-1/2 -translate-y-1/2 rtl:right-auto rtl:left-2 p-2 rounded-xl transition-colors ${aiMode ? 'bg-white text-brand-600' : 'bg-white/10 text-white hover:bg-white/20'}`}>{isAsking ? <Loader2 size={16} className="animate-spin" /> : (aiMode && aiQuestion.trim() ? <ArrowRight size={16} className="rtl:rotate-180" /> : <Sparkles size={16} />)}</button>
+            </div>
         </div>
         <div className="px-5 space-y-6 relative">
-            <CalendarWidget missions={missions} selectedDate={selectedDate} onDateSelect={setSelectedDate} viewDate={viewDate} onViewDateChange={setViewDate} settings={settings} />
-            <div className="flex justify-end rtl:justify-start"><button onClick={() => { const now = new Date(); setExportDates({start: new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0], end: new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString().split('T')[0]}); setShowExportModal(true); }} disabled={isExporting} className="flex items-center gap-2 text-xs font-semibold text-brand-600 dark:text-brand-400 bg-white dark:bg-gray-800 hover:bg-brand-50 dark:hover:bg-gray-700 py-2.5 px-4 rounded-xl transition-all shadow-sm border border-gray-100 dark:border-gray-700">{isExporting ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />}{t.exportData}</button></div>
+            <div className="flex gap-2 p-1 bg-white dark:bg-gray-900 rounded-xl shadow-sm border border-gray-100 dark:border-gray-800">
+                <button onClick={() => setShowMap(false)} className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all flex items-center justify-center gap-2 ${!showMap ? 'bg-brand-600 text-white shadow' : 'text-gray-500 dark:text-gray-400'}`}><Calendar size={14} /> {t.calendar}</button>
+                <button onClick={() => setShowMap(true)} className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all flex items-center justify-center gap-2 ${showMap ? 'bg-brand-600 text-white shadow' : 'text-gray-500 dark:text-gray-400'}`}><MapIcon size={14} /> {t.mapView}</button>
+            </div>
+            {showMap
+                ? <MissionMap missions={missions} matching={filteredMissions} area={filter.area} onAreaChange={area => updateFilter({ area })} onSelect={onSelect} settings={settings} />
+                : <CalendarWidget missions={missions} selectedDate={selectedDate} onDateSelect={setSelectedDate} viewDate={viewDate} onViewDateChange={setViewDate} settings={settings} />}
+            <input type="file" ref={importInputRef} onChange={handleImportFile} accept=".csv,.xlsx,.ics,text/csv,text/calendar,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" className="hidden" />
+            {importFile && (<ImportWizard sheet={importFile.sheet} fileName={importFile.name} missions={missions} settings={settings} onImport={onImport} onClose={() => setImportFile(null)} />)}
+            {calendarFile && (<IcsImportDialog events={calendarFile.events} fileName={calendarFile.name} missions={missions} settings={settings} onImport={onImport} onClose={() => setCalendarFile(null)} />)}
+            <div className="flex justify-end rtl:justify-start gap-2"><button onClick={() => importInputRef.current?.click()} className="flex items-center gap-2 text-xs font-semibold text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 py-2.5 px-4 rounded-xl transition-all shadow-sm border border-gray-100 dark:border-gray-700"><Upload size={14} />{t.importData}</button><button onClick={() => { const now = new Date(); setExportDates({start: new Date(now.getFullYear(), now.getMonth(), 1).toISOString().split('T')[0], end: new Date(now.getFullYear(), now.getMonth() + 1, 0).toISOString().split('T')[0]}); setShowExportModal(true); }} disabled={isExporting} className="flex items-center gap-2 text-xs font-semibold text-brand-600 dark:text-brand-400 bg-white dark:bg-gray-800 hover:bg-brand-50 dark:hover:bg-gray-700 py-2.5 px-4 rounded-xl transition-all shadow-sm border border-gray-100 dark:border-gray-700">{isExporting ? <Loader2 size={14} className="animate-spin" /> : <Archive size={14} />}{t.exportData}</button></div>
             {showExportModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
                     <div className="bg-white dark:bg-gray-900 rounded-3xl p-6 w-full max-w-sm shadow-2xl space-y-5 animate-in zoom-in-95 duration-200">
@@ -620,6 +1909,13 @@ const Dashboard = ({ missions, settings, userProfile, onSelect, onAdd, onOpenSet
                         <div className="space-y-4">
                              <div className="space-y-1"><label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.startDate}</label><input type="date" value={exportDates.start} onChange={e => setExportDates({...exportDates, start: e.target.value})} className="w-full p-3 rounded-xl bg-gray-50 dark:bg-gray-800 dark:text-white border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-700 focus:border-brand-300 outline-none text-sm text-start" /></div>
                              <div className="space-y-1"><label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.endDate}</label><input type="date" value={exportDates.end} onChange={e => setExportDates({...exportDates, end: e.target.value})} className="w-full p-3 rounded-xl bg-gray-50 dark:bg-gray-800 dark:text-white border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-700 focus:border-brand-300 outline-none text-sm text-start" /></div>
+                             <div className="space-y-1">
+                                 <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.exportContent}</label>
+                                 <div className="flex gap-2 p-1 bg-gray-100 dark:bg-gray-800 rounded-xl">
+                                     <button onClick={() => setExportContent('missions')} className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${exportContent === 'missions' ? 'bg-white dark:bg-gray-700 shadow text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400'}`}>{t.missionReports}</button>
+                                     <button onClick={() => { setExportContent('summary'); if (exportFormat === 'csv' || exportFormat === 'xlsx' || exportFormat === 'ics') setExportFormat('docx'); }} className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${exportContent === 'summary' ? 'bg-white dark:bg-gray-700 shadow text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400'}`}>{t.activitySummary}</button>
+                                 </div>
+                             </div>
                              <div className="space-y-1">
                                  <label className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.format}</label>
                                  <div className="flex gap-2">
@@ -630,29 +1926,88 @@ const Dashboard = ({ missions, settings, userProfile, onSelect, onAdd, onOpenSet
                                          <FileType size={16} /> PDF
                                      </button>
                                  </div>
+                                 {exportContent === 'missions' && (
+                                     <div className="flex gap-2">
+                                         <button onClick={() => setExportFormat('csv')} className={`flex-1 py-3 rounded-xl font-bold text-xs transition-all flex items-center justify-center gap-2 ${exportFormat === 'csv' ? 'bg-brand-600 text-white shadow-md' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'}`}>
+                                             <Sheet size={16} /> CSV
+                                         </button>
+                                         <button onClick={() => setExportFormat('xlsx')} className={`flex-1 py-3 rounded-xl font-bold text-xs transition-all flex items-center justify-center gap-2 ${exportFormat === 'xlsx' ? 'bg-brand-600 text-white shadow-md' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'}`}>
+                                             <Sheet size={16} /> XLSX
+                                         </button>
+                                         <button onClick={() => setExportFormat('ics')} className={`flex-1 py-3 rounded-xl font-bold text-xs transition-all flex items-center justify-center gap-2 ${exportFormat === 'ics' ? 'bg-brand-600 text-white shadow-md' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'}`}>
+                                             <CalendarPlus size={16} /> ICS
+                                         </button>
+                                     </div>
+                                 )}
                              </div>
                         </div>
                         <div className="flex gap-3 pt-2"><button onClick={() => setShowExportModal(false)} className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">{t.cancel}</button><button onClick={performExport} className="flex-1 py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 active:scale-[0.98] transition-all">{t.exportBtn}</button></div>
                     </div>
                 </div>
             )}
+            {syncConflictCount > 0 && (<button onClick={onOpenSettings} className="w-full p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-100 dark:border-yellow-900/30 rounded-2xl text-sm font-bold text-yellow-800 dark:text-yellow-300 flex items-center gap-2 text-start"><AlertTriangle size={16} className="shrink-0" /> {syncConflictCount} {t.conflictsToReview}</button>)}
+            {reviewInboxCount !== null && (<button onClick={onOpenInbox} className="w-full p-3 bg-brand-50 dark:bg-brand-900/20 border border-brand-100 dark:border-brand-900/30 rounded-2xl text-sm font-bold text-brand-700 dark:text-brand-300 flex items-center gap-2 text-start"><Inbox size={16} className="shrink-0" /> <span className="flex-1">{t.reviewInbox}</span> <span className="text-xs font-semibold">{reviewInboxCount} {t.awaitingReview}</span></button>)}
+            {drafts.length > 0 && (<PendingDraftsList drafts={drafts} settings={settings} isOnline={isOnline} onReview={onReviewDraft} onRetry={onRetryDraft} onDelete={onDeleteDraft} />)}
             <div className="space-y-4">
-                <div className="flex items-center justify-between"><h2 className="text-sm font-bold text-gray-800 dark:text-gray-100">{selectedDate ? t.selectedDate : (search ? t.results : t.recentMissions)}</h2>{selectedDate && (<button onClick={() => setSelectedDate(null)} className="text-xs text-brand-600 font-medium hover:text-brand-800 bg-brand-50 px-2 py-1 rounded-lg">{t.clearFilter}</button>)}</div>
+                <div className="flex gap-2 overflow-x-auto pb-1 -mx-1 px-1">
+                    <button onClick={() => setShowFilters(!showFilters)} className={`shrink-0 p-1.5 px-2.5 rounded-full transition-all ${showFilters ? 'bg-brand-600 text-white' : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-800'}`} aria-label={t.filters}><SlidersHorizontal size={14} /></button>
+                    <button onClick={() => updateFilter({ statuses: [] })} className={`shrink-0 px-3 py-1.5 rounded-full text-xs font-bold transition-all ${filter.statuses.length === 0 ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900' : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-800'}`}>{t.allStatuses} ({missions.length})</button>
+                    {MISSION_STATUSES.map(status => (<button key={status} onClick={() => updateFilter({ statuses: toggle(filter.statuses, status) })} className={`shrink-0 px-3 py-1.5 rounded-full text-xs font-bold transition-all ${filter.statuses.includes(status) ? `${STATUS_STYLES[status].badge} ring-2 ring-current` : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-800'}`}>{statusLabel(t, status)} ({missions.filter(m => getMissionStatus(m, today) === status).length})</button>))}
+                </div>
+                {showFilters && (
+                    <div className="bg-white dark:bg-gray-900 rounded-2xl p-4 border border-gray-100 dark:border-gray-800 shadow-soft space-y-4">
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.startDate}</label><input type="date" value={filter.dateFrom} onChange={e => updateFilter({ dateFrom: e.target.value })} className="w-full p-2 rounded-lg bg-gray-50 dark:bg-gray-800 dark:text-white border border-gray-100 dark:border-gray-700 outline-none text-xs text-start" /></div>
+                            <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.endDate}</label><input type="date" value={filter.dateTo} onChange={e => updateFilter({ dateTo: e.target.value })} className="w-full p-2 rounded-lg bg-gray-50 dark:bg-gray-800 dark:text-white border border-gray-100 dark:border-gray-700 outline-none text-xs text-start" /></div>
+                        </div>
+                        {facets.length > 0 && (
+                            <div className="space-y-1">
+                                <label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.location}</label>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {facets.filter((f, i) => i < VISIBLE_LOCATION_FACETS || filter.locations.includes(f.key)).map(facet => (<button key={facet.key} onClick={() => updateFilter({ locations: toggle(filter.locations, facet.key) })} dir="auto" className={`px-2.5 py-1 rounded-lg text-[11px] font-bold transition-all max-w-full truncate ${filter.locations.includes(facet.key) ? 'bg-brand-600 text-white' : 'bg-gray-50 dark:bg-gray-800 text-gray-600 dark:text-gray-300 border border-gray-100 dark:border-gray-700'}`}>{facet.label} ({facet.count})</button>))}
+                                </div>
+                            </div>
+                        )}
+                        <div className="flex items-end gap-3">
+                            <div className="flex-1 space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.sortBy}</label><select value={filter.sort} onChange={e => updateFilter({ sort: e.target.value as MissionSort })} className="w-full p-2 bg-gray-50 dark:bg-gray-800 dark:text-white rounded-lg border border-gray-100 dark:border-gray-700 text-xs">{MISSION_SORTS.map(sort => (<option key={sort} value={sort}>{sortLabels[sort]}</option>))}</select></div>
+                            {isFilterActive(filter) && (<button onClick={() => updateFilter({ ...EMPTY_FILTER, sort: filter.sort })} className="text-xs text-brand-600 font-bold hover:text-brand-800 bg-brand-50 dark:bg-brand-900/20 px-3 py-2 rounded-lg">{t.clearFilters}</button>)}
+                        </div>
+                    </div>
+                )}
+                {aiAnswer && (
+                    <div className="bg-brand-50 dark:bg-brand-900/20 rounded-2xl p-4 border border-brand-100 dark:border-brand-900/40 flex items-start gap-3">
+                        <Sparkles size={18} className="text-brand-500 shrink-0 mt-0.5" />
+                        <div className="flex-1 min-w-0"><p className="text-xs text-gray-500 dark:text-gray-400 truncate" dir="auto">{aiAnswer.question}</p><p className="font-bold text-brand-700 dark:text-brand-300">{renderAnswer(aiAnswer.intent)}</p></div>
+                        <button onClick={() => setAiAnswer(null)} className="p-1 rounded-full hover:bg-brand-100 dark:hover:bg-brand-900/40 text-gray-400"><X size={16} /></button>
+                    </div>
+                )}
+                {isFilterActive(filter) && (
+                    <div className="flex flex-wrap gap-1.5">
+                        {filter.query.trim() && (<span className="flex items-center gap-1 ps-2.5 pe-1 py-1 rounded-lg text-[11px] font-bold bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border border-gray-100 dark:border-gray-800"><button onClick={() => { setAiMode(false); }} dir="auto" className="max-w-[12rem] truncate">{t.keywords}: {filter.query}</button><button onClick={() => updateFilter({ query: '' })} className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"><X size={12} /></button></span>)}
+                        {filter.anyOf.trim() && (<span className="flex items-center gap-1 ps-2.5 pe-1 py-1 rounded-lg text-[11px] font-bold bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border border-gray-100 dark:border-gray-800"><span dir="auto" className="max-w-[12rem] truncate">{t.anyKeyword}: {filter.anyOf.trim().split(' ').join(' / ')}</span><button onClick={() => updateFilter({ anyOf: '' })} className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"><X size={12} /></button></span>)}
+                        {(filter.dateFrom || filter.dateTo) && (<span className="flex items-center gap-1 ps-2.5 pe-1 py-1 rounded-lg text-[11px] font-bold bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border border-gray-100 dark:border-gray-800"><button onClick={() => setShowFilters(true)}>{filter.dateFrom ? formatDate(filter.dateFrom, settings.language === 'ar' ? 'ar-EG' : 'en-US') : '…'} – {filter.dateTo ? formatDate(filter.dateTo, settings.language === 'ar' ? 'ar-EG' : 'en-US') : '…'}</button><button onClick={() => updateFilter({ dateFrom: '', dateTo: '' })} className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"><X size={12} /></button></span>)}
+                        {filter.locations.map(key => (<span key={key} className="flex items-center gap-1 ps-2.5 pe-1 py-1 rounded-lg text-[11px] font-bold bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border border-gray-100 dark:border-gray-800"><button onClick={() => setShowFilters(true)} dir="auto" className="flex items-center gap-1"><MapPin size={10} />{facets.find(f => f.key === key)?.label || key}</button><button onClick={() => updateFilter({ locations: filter.locations.filter(l => l !== key) })} className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"><X size={12} /></button></span>))}
+                        {filter.area && (<span className="flex items-center gap-1 ps-2.5 pe-1 py-1 rounded-lg text-[11px] font-bold bg-white dark:bg-gray-900 text-gray-600 dark:text-gray-300 border border-gray-100 dark:border-gray-800"><button onClick={() => setShowMap(true)} className="flex items-center gap-1"><MapIcon size={10} />{t.mapArea}</button><button onClick={() => updateFilter({ area: null })} className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-800"><X size={12} /></button></span>)}
+                    </div>
+                )}
+                <div className="flex items-center justify-between"><h2 className="text-sm font-bold text-gray-800 dark:text-gray-100">{selectedDate ? t.selectedDate : (isFilterActive(filter) ? `${t.results} · ${filteredMissions.length.toLocaleString(settings.language === 'ar' ? 'ar-EG' : 'en-US')} ${t.missionsFound}` : t.recentMissions)}</h2>{selectedDate && (<button onClick={() => setSelectedDate(null)} className="text-xs text-brand-600 font-medium hover:text-brand-800 bg-brand-50 px-2 py-1 rounded-lg">{t.clearFilter}</button>)}</div>
                 {filteredMissions.length === 0 ? (
                     <div className="flex flex-col items-center justify-center py-10 text-center text-gray-400 dark:text-gray-500 space-y-3 bg-white dark:bg-gray-900 rounded-3xl border border-dashed border-gray-200 dark:border-gray-800"><div className="w-14 h-14 bg-gray-50 dark:bg-gray-800 rounded-full flex items-center justify-center"><FileText size={24} className="opacity-40" /></div><div><p className="font-medium text-gray-500 dark:text-gray-400">{t.noMissions}</p><p className="text-xs mt-1">{t.tryDifferent}</p></div></div>
                 ) : (
-                    filteredMissions.map(mission => {
+                    visibleMissions.map(mission => {
                          const dateObj = new Date(mission.date);
+                         const status = getMissionStatus(mission, today);
                          return (
                             <div key={mission.id} onClick={() => onSelect(mission.id)} className="bg-white dark:bg-gray-900 p-4 rounded-2xl shadow-soft border border-gray-100 dark:border-gray-800 active:scale-[0.98] transition-all cursor-pointer group relative overflow-hidden flex items-center gap-4">
-                                <div className="absolute left-0 top-0 bottom-0 w-1 bg-brand-500 rtl:left-auto rtl:right-0"></div>
+                                <div className={`absolute left-0 top-0 bottom-0 w-1 rtl:left-auto rtl:right-0 ${STATUS_STYLES[status].bar}`}></div>
                                 <div className="flex-shrink-0 w-14 h-14 bg-gray-50 dark:bg-gray-800 rounded-xl flex flex-col items-center justify-center border border-gray-100 dark:border-gray-700"><span className="text-[10px] font-bold text-gray-400 dark:text-gray-500">{dateObj.toLocaleDateString(settings.language === 'ar' ? 'ar-EG' : 'en-US', { month: 'short' }).toUpperCase()}</span><span className="text-xl font-bold text-gray-800 dark:text-gray-100">{dateObj.getDate().toLocaleString(settings.language === 'ar' ? 'ar-EG' : 'en-US')}</span></div>
-                                <div className="flex-1 min-w-0"><h3 className="font-bold text-gray-800 dark:text-gray-100 truncate mb-1">{mission.title || t.untitled}</h3><div className="flex items-center text-gray-500 dark:text-gray-400 text-xs"><MapPin size={12} className="mr-1 text-brand-400 rtl:ml-1 rtl:mr-0" /><span className="truncate">{mission.location || t.unknown}</span></div></div>
+                                <div className="flex-1 min-w-0"><h3 className="font-bold text-gray-800 dark:text-gray-100 truncate mb-1">{mission.title || t.untitled}</h3><div className="flex items-center text-gray-500 dark:text-gray-400 text-xs"><MapPin size={12} className="mr-1 text-brand-400 rtl:ml-1 rtl:mr-0" /><span className="truncate">{mission.location || t.unknown}</span><span className={`ml-auto rtl:ml-0 rtl:mr-auto shrink-0 px-2 py-0.5 rounded-full text-[10px] font-bold ${STATUS_STYLES[status].badge}`}>{statusLabel(t, status)}</span></div></div>
                                 <ChevronRight size={18} className="text-gray-300 dark:text-gray-600 group-hover:text-brand-500 transition-colors rtl:rotate-180" />
                             </div>
                         )
                     })
                 )}
+                {filteredMissions.length > visibleMissions.length && (<button onClick={() => setVisibleCount(visibleCount + MISSION_PAGE_SIZE)} className="w-full py-3 bg-white dark:bg-gray-900 text-brand-600 dark:text-brand-400 rounded-2xl font-bold text-xs border border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">{t.showMore} ({(filteredMissions.length - visibleMissions.length).toLocaleString(settings.language === 'ar' ? 'ar-EG' : 'en-US')})</button>)}
             </div>
         </div>
     </div>
@@ -664,69 +2019,82 @@ interface MissionEditorProps {
     onCancel: () => void;
     settings: Settings;
     isOnline: boolean;
+    initialMission?: Mission; // When set, the editor updates this mission instead of creating a new one
+    prefill?: AIMagicFillResponse; // Parsed offline draft awaiting review
+    onQueueDraft?: (text: string) => void;
 }
 
-const MissionEditor = ({ onSave, onCancel, settings, isOnline }: MissionEditorProps) => {
-    const [mode, setMode] = useState<'magic' | 'manual'>('magic');
+const MissionEditor = ({ onSave, onCancel, settings, isOnline, initialMission, prefill, onQueueDraft }: MissionEditorProps) => {
+    // Fields of the active template plus any the mission already carries from an earlier template
+    const customFieldKeys = Array.from(new Set([...getActiveCustomFields(settings), ...Object.keys(initialMission?.customFields || {})]));
+    const [mode, setMode] = useState<'magic' | 'manual'>(initialMission || prefill ? 'manual' : 'magic');
     const [magicInput, setMagicInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [timeMode, setTimeMode] = useState<'presets' | 'custom'>('presets');
     
     // Explicitly using casting instead of generic state to avoid parsing errors
-    const [form, setForm] = useState({ 
+    const [form, setForm] = useState((initialMission ? { ...initialMission } : { 
         title: '', 
         location: '', 
         date: new Date().toISOString().split('T')[0], 
         finishDate: new Date().toISOString().split('T')[0], 
         startTime: '10:00', 
         finishTime: '17:00', 
-        notes: '' 
-    } as Partial<Mission>);
+        notes: '',
+        ...prefill
+    }) as Partial<Mission>);
 
     const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const [capturing, setCapturing] = useState<'startCoords' | 'finishCoords' | null>(null);
 
-    // Automatically switch to manual mode if offline
-    useEffect(() => {
-        if (!isOnline && mode === 'magic') {
-            setMode('manual');
+    const capturePosition = async (field: 'startCoords' | 'finishCoords') => {
+        setCapturing(field);
+        try {
+            const point = await captureLocation();
+            setForm(prev => ({ ...prev, [field]: point }));
+        } catch (e: any) {
+            alert(e.message);
+        } finally {
+            setCapturing(null);
         }
-    }, [isOnline]);
+    };
+
+    const itinerary = form.itinerary || [];
+    const updateItinerary = (id: string, updates: Partial<ItineraryEntry>) => {
+        setForm({ ...form, itinerary: itinerary.map(entry => entry.id === id ? { ...entry, ...updates } : entry) });
+    };
+    const addItineraryDay = () => {
+        // Each new day follows the previous one, starting from the mission start date
+        const last = itinerary[itinerary.length - 1];
+        let date = form.date || new Date().toISOString().split('T')[0];
+        if (last) {
+            const next = new Date(`${last.date}T00:00:00Z`);
+            next.setUTCDate(next.getUTCDate() + 1);
+            date = next.toISOString().split('T')[0];
+        }
+        setForm({ ...form, itinerary: [...itinerary, { id: generateId(), date, site: form.location || '', activities: '', startTime: form.startTime, finishTime: form.finishTime }] });
+    };
+    const removeItineraryDay = (id: string) => {
+        setForm({ ...form, itinerary: itinerary.filter(entry => entry.id !== id) });
+    };
 
     const handleMagicFill = async () => {
+        if (!magicInput.trim()) return;
         if (!isOnline) {
-             alert("Offline: AI features are unavailable.");
-             return;
+            // Keep the description instead of losing it; App parses it once the connection returns
+            if (onQueueDraft) {
+                onQueueDraft(magicInput.trim());
+                alert(t.draftQueued);
+            } else {
+                alert("Offline: AI features are unavailable.");
+            }
+            return;
         }
-        if (!magicInput.trim()) return;
         setIsLoading(true);
         try {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const prompt = `Extract event details from this text: "${magicInput}". Use today's date ${new Date().toISOString().split('T')[0]} if date is not specified.`;
-            const response = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: prompt,
-                config: { 
-                    responseMimeType: 'application/json',
-                    responseSchema: {
-                        type: Type.OBJECT,
-                        properties: { 
-                            title: { type: Type.STRING }, 
-                            location: { type: Type.STRING }, 
-                            date: { type: Type.STRING }, 
-                            finishDate: { type: Type.STRING }, 
-                            startTime: { type: Type.STRING }, 
-                            finishTime: { type: Type.STRING }, 
-                            notes: { type: Type.STRING } 
-                        }
-                    }
-                }
-            });
-            const text = response.text;
-            if (text) {
-                const data = JSON.parse(text);
-                setForm(prev => ({ ...prev, ...data, finishDate: data.finishDate || data.date }));
-                setMode('manual');
-            } else { alert("AI returned no data. Please try again."); }
+            const data = await parseMissionText(magicInput);
+            setForm(prev => ({ ...prev, ...data }));
+            setMode('manual');
         } catch (error: any) { 
             console.error("AI Error", error); 
             alert(`AI Analysis failed: ${error.message || "Network or API Key Error"}.`); 
@@ -738,7 +2106,7 @@ const MissionEditor = ({ onSave, onCancel, settings, isOnline }: MissionEditorPr
     const handleSave = () => {
         if (!form.title) { alert(t.pleaseFill); return; }
         onSave({ 
-            id: generateId(), 
+            id: initialMission ? initialMission.id : generateId(), 
             title: form.title || t.untitled, 
             location: form.location || '', 
             date: form.date || new Date().toISOString().split('T')[0], 
@@ -746,21 +2114,26 @@ const MissionEditor = ({ onSave, onCancel, settings, isOnline }: MissionEditorPr
             startTime: form.startTime, 
             finishTime: form.finishTime, 
             notes: form.notes || '', 
-            createdAt: Date.now() 
+            startCoords: form.startCoords,
+            finishCoords: form.finishCoords,
+            itinerary: itinerary.length > 0 ? itinerary : undefined,
+            customFields: customFieldKeys.length > 0 ? customFieldKeys.reduce((acc, key) => ({ ...acc, [key]: form.customFields?.[key] || '' }), {} as Record<string, string>) : undefined,
+            createdAt: initialMission ? initialMission.createdAt : Date.now(),
+            ...(initialMission ? { updatedAt: Date.now() } : {})
         } as Mission);
     };
 
     return (
         <div className="flex flex-col h-full bg-white dark:bg-gray-950 transition-colors duration-300">
-            <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center bg-white dark:bg-gray-950 sticky top-0 z-10"><button onClick={onCancel} className="text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 p-2 rounded-full"><X size={20} /></button><h2 className="font-bold text-lg text-gray-900 dark:text-gray-100">{t.newMission}</h2><button onClick={handleSave} className="text-brand-600 font-bold hover:bg-brand-50 dark:hover:bg-brand-900/30 px-3 py-1 rounded-lg">{t.save}</button></div>
+            <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center bg-white dark:bg-gray-950 sticky top-0 z-10"><button onClick={onCancel} className="text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800 p-2 rounded-full"><X size={20} /></button><h2 className="font-bold text-lg text-gray-900 dark:text-gray-100">{initialMission ? t.editMission : t.newMission}</h2><button onClick={handleSave} className="text-brand-600 font-bold hover:bg-brand-50 dark:hover:bg-brand-900/30 px-3 py-1 rounded-lg">{t.save}</button></div>
             <div className="flex p-2 bg-gray-50 dark:bg-gray-800 m-4 rounded-xl">
-                <button onClick={() => isOnline && setMode('magic')} disabled={!isOnline} className={`flex-1 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${mode === 'magic' ? 'bg-white dark:bg-gray-700 shadow text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400'} ${!isOnline ? 'opacity-50 cursor-not-allowed' : ''}`}><Wand2 size={14} /> {t.magicFill}</button>
+                <button onClick={() => setMode('magic')} className={`flex-1 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${mode === 'magic' ? 'bg-white dark:bg-gray-700 shadow text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400'}`}><Wand2 size={14} /> {t.magicFill}</button>
                 <button onClick={() => setMode('manual')} className={`flex-1 py-2 rounded-lg text-sm font-bold flex items-center justify-center gap-2 transition-all ${mode === 'manual' ? 'bg-white dark:bg-gray-700 shadow text-brand-600 dark:text-brand-400' : 'text-gray-500 dark:text-gray-400'}`}><FileText size={14} /> {t.manual}</button>
             </div>
             
-            {!isOnline && mode === 'manual' && (
+            {!isOnline && (
                  <div className="mx-4 px-4 py-2 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-100 dark:border-yellow-900/30 rounded-lg flex items-center gap-2 text-xs text-yellow-700 dark:text-yellow-400 mb-2">
-                    <WifiOff size={14}/> <span>You are offline. AI features are disabled.</span>
+                    <WifiOff size={14}/> <span>{mode === 'magic' && onQueueDraft ? t.offlineQueueNotice : "You are offline. AI features are disabled."}</span>
                  </div>
             )}
 
@@ -769,12 +2142,25 @@ const MissionEditor = ({ onSave, onCancel, settings, isOnline }: MissionEditorPr
                     <div className="space-y-4 animate-in fade-in slide-in-from-bottom-4 duration-300">
                         <div className="bg-brand-50 dark:bg-brand-900/20 p-4 rounded-2xl border border-brand-100 dark:border-brand-900/30"><h3 className="font-bold text-brand-800 dark:text-brand-300 text-sm mb-1 flex items-center gap-2"><Info size={14}/> {t.howItWorks}</h3><p className="text-xs text-brand-600 dark:text-brand-400 mb-2">{t.howItWorksDesc}</p><p className="text-xs text-brand-500 dark:text-brand-300 italic bg-white/50 dark:bg-black/20 p-2 rounded-lg border border-brand-100/50 dark:border-brand-500/20">{t.howItWorksExample}</p></div>
                         <textarea className="w-full h-40 p-4 rounded-2xl bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-900 focus:border-brand-300 outline-none transition-all resize-none text-start dark:text-white" placeholder={t.typeHere} value={magicInput} onChange={e => setMagicInput(e.target.value)} />
-                        <button onClick={handleMagicFill} disabled={isLoading || !magicInput || !isOnline} className="w-full py-4 bg-brand-600 text-white rounded-xl font-bold shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2">{isLoading ? <Loader2 className="animate-spin" /> : <Sparkles size={18} />}{isLoading ? t.analyzing : (isOnline ? t.generateDetails : "Unavailable Offline")}</button>
+                        <button onClick={handleMagicFill} disabled={isLoading || !magicInput || (!isOnline && !onQueueDraft)} className="w-full py-4 bg-brand-600 text-white rounded-xl font-bold shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2">{isLoading ? <Loader2 className="animate-spin" /> : (isOnline ? <Sparkles size={18} /> : <Clock size={18} />)}{isLoading ? t.analyzing : (isOnline ? t.generateDetails : (onQueueDraft ? t.saveForLater : "Unavailable Offline"))}</button>
                     </div>
                 ) : (
                     <div className="space-y-5 animate-in fade-in slide-in-from-bottom-4 duration-300">
                         <div className="space-y-1"><label className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.title}</label><input type="text" value={form.title} onChange={e => setForm({...form, title: e.target.value})} className="w-full p-3.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-900 focus:border-brand-300 outline-none font-bold text-gray-800 dark:text-white text-start" placeholder={t.titlePlaceholder} /></div>
-                        <div className="space-y-1"><label className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.location}</label><div className="relative"><MapPin className="absolute left-3.5 top-1/2 -translate-y-1/2 text-gray-400 rtl:left-auto rtl:right-3.5" size={18} /><input type="text" value={form.location} onChange={e => setForm({...form, location: e.target.value})} className="w-full pl-10 pr-4 py-3.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-900 focus:border-brand-300 outline-none text-start dark:text-white rtl:pl-4 rtl:pr-10" placeholder={t.locationPlaceholder} /></div></div>
+                        <div className="space-y-1"><label className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.location}</label><div className="relative"><MapPin className="absolute left-3.5 top-1/2 -translate-y-1/2 text-gray-400 rtl:left-auto rtl:right-3.5" size={18} /><input type="text" value={form.location} onChange={e => setForm({...form, location: e.target.value})} className="w-full pl-10 pr-4 py-3.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-900 focus:border-brand-300 outline-none text-start dark:text-white rtl:pl-4 rtl:pr-10" placeholder={t.locationPlaceholder} /></div>
+                            <div className="grid grid-cols-2 gap-2 pt-1">
+                                {(['startCoords', 'finishCoords'] as const).map(field => {
+                                    const point = form[field];
+                                    return point ? (
+                                        <div key={field} className="flex items-center gap-1 ps-3 pe-1 py-2 rounded-xl bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300 min-w-0">
+                                            <div className="flex-1 min-w-0"><p className="text-[10px] font-bold uppercase">{t[field]}</p><p className="text-[11px] font-mono truncate" dir="ltr">{formatCoords(point)}{point.accuracy !== undefined && ` ±${point.accuracy} m`}</p></div>
+                                            <button onClick={() => setForm({ ...form, [field]: undefined })} className="p-1 rounded-full hover:bg-brand-100 dark:hover:bg-brand-900/40"><X size={14} /></button>
+                                        </div>
+                                    ) : (
+                                        <button key={field} onClick={() => capturePosition(field)} disabled={capturing !== null} className="py-2.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 text-xs font-bold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-60 flex items-center justify-center gap-2">{capturing === field ? <Loader2 size={14} className="animate-spin" /> : <Crosshair size={14} />} {field === 'startCoords' ? t.captureStart : t.captureFinish}</button>
+                                    );
+                                })}
+                            </div></div>
                         <div className="grid grid-cols-2 gap-4">
                              <div className="space-y-1"><label className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.startDate}</label><input type="date" value={form.date} onChange={e => setForm({...form, date: e.target.value})} className="w-full p-3.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-900 focus:border-brand-300 outline-none text-start dark:text-white" /></div>
                              <div className="space-y-1"><label className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.endDate}</label><input type="date" value={form.finishDate} onChange={e => setForm({...form, finishDate: e.target.value})} className="w-full p-3.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-900 focus:border-brand-300 outline-none text-start dark:text-white" /></div>
@@ -794,6 +2180,25 @@ const MissionEditor = ({ onSave, onCancel, settings, isOnline }: MissionEditorPr
                              )}
                         </div>
                         <div className="space-y-1"><label className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.notes}</label><textarea value={form.notes} onChange={e => setForm({...form, notes: e.target.value})} className="w-full h-32 p-3.5 rounded-xl bg-gray-50 dark:bg-gray-800 border border-gray-100 dark:border-gray-700 focus:bg-white dark:focus:bg-gray-900 focus:border-brand-300 outline-none resize-none text-start dark:text-white" placeholder={t.notesPlaceholder} /></div>
+                        <div className="space-y-3">
+                            <div className="flex justify-between items-center"><div><label className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase ml-1 rtl:mr-1 rtl:ml-0">{t.itinerary}</label><p className="text-[11px] text-gray-400 dark:text-gray-500 ml-1 rtl:mr-1 rtl:ml-0">{t.itineraryDesc}</p></div><button onClick={addItineraryDay} className="text-[10px] text-brand-600 dark:text-brand-400 font-bold bg-brand-50 dark:bg-brand-900/20 px-2 py-1 rounded-lg flex items-center gap-1 shrink-0"><Plus size={12} /> {t.addDay}</button></div>
+                            {itinerary.map(entry => (
+                                <div key={entry.id} className="space-y-2 bg-gray-50 dark:bg-gray-800 p-3 rounded-xl border border-gray-100 dark:border-gray-700">
+                                    <div className="flex items-center gap-2"><input type="date" value={entry.date} onChange={e => updateItinerary(entry.id, { date: e.target.value })} className="flex-1 p-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 outline-none text-sm text-start dark:text-white" /><button onClick={() => removeItineraryDay(entry.id)} className="text-gray-400 hover:text-red-500 p-1.5"><Trash2 size={14} /></button></div>
+                                    <input type="text" value={entry.site} onChange={e => updateItinerary(entry.id, { site: e.target.value })} placeholder={t.sitePlaceholder} className="w-full p-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 outline-none text-sm text-start dark:text-white" />
+                                    <textarea value={entry.activities} onChange={e => updateItinerary(entry.id, { activities: e.target.value })} placeholder={t.activitiesPlaceholder} className="w-full h-16 p-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 outline-none text-sm resize-none text-start dark:text-white" />
+                                    <div className="grid grid-cols-2 gap-2"><input type="time" value={entry.startTime || ''} onChange={e => updateItinerary(entry.id, { startTime: e.target.value })} className="w-full p-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 outline-none text-sm text-start dark:text-white" /><input type="time" value={entry.finishTime || ''} onChange={e => updateItinerary(entry.id, { finishTime: e.target.value })} className="w-full p-2 rounded-lg bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 outline-none text-sm text-start dark:text-white" /></div>
+                                </div>
+                            ))}
+                        </div>
+                        {customFieldKeys.length > 0 && (
+                            <div className="space-y-3 bg-gray-50 dark:bg-gray-800 p-4 rounded-xl border border-gray-100 dark:border-gray-700">
+                                <div><span className="text-xs font-bold text-gray-400 dark:text-gray-500 uppercase flex items-center gap-1"><Briefcase size={12} /> {t.templateFields}</span><p className="text-[11px] text-gray-400 dark:text-gray-500 mt-0.5">{t.templateFieldsDesc}</p></div>
+                                {customFieldKeys.map(key => (
+                                    <div key={key} className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase">{humanizeTag(key)}</label><input type="text" value={form.customFields?.[key] || ''} onChange={e => setForm({...form, customFields: { ...(form.customFields || {}), [key]: e.target.value }})} className="w-full p-3 rounded-xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 focus:border-brand-300 outline-none text-start dark:text-white text-sm" placeholder={`{${key}}`} /></div>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
@@ -805,76 +2210,412 @@ interface MissionDetailsProps {
     mission: Mission;
     settings: Settings;
     userProfile: UserProfile;
+    isOnline: boolean;
     onBack: () => void;
+    onEdit: () => void;
+    onUpdate: (updates: Partial<Mission>) => void;
     onDelete: () => void;
+    teamRole: TeamRole | null;
+    onSubmitForReview: (comment: string) => void;
+}
+
+interface AttachmentGalleryProps {
+    mission: Mission;
+    settings: Settings;
+    onUpdate: (updates: Partial<Mission>) => void;
+}
+
+const AttachmentGallery = ({ mission, settings, onUpdate }: AttachmentGalleryProps) => {
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const cameraInputRef = useRef<HTMLInputElement>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const attachments = mission.attachments || [];
+
+    // Object URLs for image thumbnails, revoked whenever the attachment list changes
+    useEffect(() => {
+        let cancelled = false;
+        const urls: Record<string, string> = {};
+        (async () => {
+            for (const ref of attachments.filter(isImage)) {
+                const blob = await loadAttachmentBlob(ref);
+                if (blob) urls[ref.id] = URL.createObjectURL(blob);
+            }
+            if (!cancelled) setThumbnails({ ...urls });
+        })();
+        return () => { cancelled = true; Object.values(urls).forEach(url => URL.revokeObjectURL(url)); };
+    }, [attachments.map(a => a.id).join(',')]);
+
+    const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        e.target.value = '';
+        if (files.length === 0) return;
+        setIsSaving(true);
+        try {
+            const added: AttachmentRef[] = [];
+            for (const file of files) added.push(await saveAttachment(mission.id, file));
+            onUpdate({ attachments: [...attachments, ...added] });
+        } catch (err: any) {
+            console.error("Attachment Error", err);
+            alert(`Could not save attachment: ${err.message || "Storage error"}`);
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const openAttachment = async (ref: AttachmentRef) => {
+        const blob = await loadAttachmentBlob(ref);
+        if (!blob) { alert(t.attachmentMissing); return; }
+        downloadBlob(blob, ref.name);
+    };
+
+    const removeAttachment = (ref: AttachmentRef) => {
+        onUpdate({ attachments: attachments.filter(a => a.id !== ref.id) });
+        deleteAttachments([ref.id]).catch(e => console.error("Failed to delete attachment", e));
+    };
+
+    return (
+        <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-2xl border border-gray-100 dark:border-gray-700 space-y-3">
+            <div className="flex items-center justify-between">
+                <p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase flex items-center gap-2"><Paperclip size={14}/> {t.attachments}</p>
+                {isSaving && <Loader2 size={14} className="animate-spin text-brand-500" />}
+            </div>
+            {attachments.length === 0 ? (<p className="text-xs text-gray-400 dark:text-gray-500">{t.noAttachments}</p>) : (
+                <div className="grid grid-cols-3 gap-2">
+                    {attachments.map(ref => (
+                        <div key={ref.id} className="relative aspect-square rounded-xl overflow-hidden bg-white dark:bg-gray-900 border border-gray-100 dark:border-gray-700">
+                            <button onClick={() => openAttachment(ref)} className="w-full h-full flex flex-col items-center justify-center gap-1 p-1">
+                                {thumbnails[ref.id] ? (<img src={thumbnails[ref.id]} alt={ref.name} className="absolute inset-0 w-full h-full object-cover" />) : (<><FileText size={20} className="text-gray-400" /><span className="text-[9px] text-gray-500 dark:text-gray-400 truncate w-full text-center">{ref.name}</span><span className="text-[9px] text-gray-400">{formatFileSize(ref.size)}</span></>)}
+                            </button>
+                            <button onClick={() => removeAttachment(ref)} className="absolute top-1 right-1 p-1 bg-black/50 text-white rounded-full hover:bg-red-600"><X size={12} /></button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <input type="file" ref={cameraInputRef} onChange={handleFiles} accept="image/*" capture="environment" className="hidden" />
+            <input type="file" ref={fileInputRef} onChange={handleFiles} multiple className="hidden" />
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => cameraInputRef.current?.click()} disabled={isSaving} className="py-2.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl text-brand-600 dark:text-brand-400 font-bold text-xs flex items-center justify-center gap-2 hover:bg-brand-50 dark:hover:bg-gray-700"><Camera size={14} /> {t.takePhoto}</button>
+                <button onClick={() => fileInputRef.current?.click()} disabled={isSaving} className="py-2.5 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl text-brand-600 dark:text-brand-400 font-bold text-xs flex items-center justify-center gap-2 hover:bg-brand-50 dark:hover:bg-gray-700"><ImageIcon size={14} /> {t.addFile}</button>
+            </div>
+        </div>
+    );
+};
+
+interface ReviewHistoryProps {
+    review: MissionReview;
+    settings: Settings;
 }
 
-const MissionDetails = ({ mission, settings, userProfile, onBack, onDelete }: MissionDetailsProps) => {
+const ReviewHistory = ({ review, settings }: ReviewHistoryProps) => {
     const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const locale = settings.language === 'ar' ? 'ar-EG' : 'en-US';
+    return (
+        <div className="space-y-2">
+            {review.history.map(event => (
+                <div key={event.id} className="border-s-2 border-brand-300 ps-3">
+                    <p className="text-xs text-gray-800 dark:text-gray-100"><span className="font-bold">{event.by}</span> {reviewEventLabel(t, event.type)}</p>
+                    <p className="text-[11px] text-gray-400 dark:text-gray-500">{new Date(event.at).toLocaleString(locale)}</p>
+                    {event.comment && (<p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap mt-1" dir="auto">{event.comment}</p>)}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const MissionDetails = ({ mission, settings, userProfile, isOnline, onBack, onEdit, onUpdate, onDelete, teamRole, onSubmitForReview }: MissionDetailsProps) => {
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const [reviewComment, setReviewComment] = useState('');
     const [isDrafting, setIsDrafting] = useState(false);
     const [isDownloading, setIsDownloading] = useState(false);
+    const [showEmail, setShowEmail] = useState(false);
+    const [emailDraft, setEmailDraft] = useState<EmailDraft>({ subject: '', body: '' });
+    const [emailTo, setEmailTo] = useState(settings.emailRecipient);
+    const [attachmentFormat, setAttachmentFormat] = useState<'docx' | 'pdf'>('pdf');
+    const [isGeneratingEmail, setIsGeneratingEmail] = useState(false);
+    const attachmentName = reportFileName(mission, attachmentFormat);
+    const status = getMissionStatus(mission);
+
+    // Downloading, sharing or mailing a report counts as reporting the mission
+    const markReported = () => {
+        if (mission.status !== 'reported') onUpdate({ status: 'reported' });
+    };
+
+    const openEmailDraft = () => {
+        setEmailTo(settings.emailRecipient);
+        setEmailDraft({ subject: mission.title, body: '' });
+        setShowEmail(true);
+    };
+
+    const handleAiDraft = async () => {
+        if (!isOnline) { alert(t.draftOffline); return; }
+        setIsGeneratingEmail(true);
+        try {
+            setEmailDraft(await draftMissionEmail(mission, userProfile, settings.language, attachmentName));
+        } catch (error: any) {
+            console.error("AI Email Error", error);
+            alert(`AI Draft failed: ${error.message || "Network or API Key Error"}.`);
+        } finally {
+            setIsGeneratingEmail(false);
+        }
+    };
+
+    const handleCopyEmail = async () => {
+        try {
+            await navigator.clipboard.writeText(`${emailDraft.subject}\n\n${emailDraft.body}`);
+            alert(t.copied);
+        } catch (e) { alert("Clipboard is not available."); }
+    };
+
+    // mailto: cannot carry files, so the report is downloaded and named in the message for the user to attach
+    const handleOpenMailApp = async () => {
+        setIsGeneratingEmail(true);
+        try {
+            const blob = attachmentFormat === 'pdf' ? await generatePdfBlob(mission, userProfile, settings) : await generateDocxBlob(mission, settings, userProfile);
+            if (blob) { downloadBlob(blob, attachmentName); markReported(); }
+            const body = `${emailDraft.body}\n\n${t.attachment}: ${attachmentName}`;
+            window.location.href = `mailto:${encodeURIComponent(emailTo)}?subject=${encodeURIComponent(emailDraft.subject)}&body=${encodeURIComponent(body)}`;
+        } catch (e: any) {
+            console.error(e);
+            alert(`Error preparing attachment: ${e.message || "Unknown error"}`);
+        } finally {
+            setIsGeneratingEmail(false);
+        }
+    };
 
     const handleDownload = async () => {
         setIsDownloading(true);
         try {
             const blob = await generateDocxBlob(mission, settings, userProfile);
             if (blob) {
-                const safeName = mission.title.replace(/[^a-z0-9]/gi, '_').substring(0, 30);
-                const fileName = `${mission.date}_${safeName}.docx`;
+                const fileName = reportFileName(mission, 'docx');
                 const url = URL.createObjectURL(blob);
                 const a = document.createElement("a"); a.href = url; a.download = fileName; a.style.display = 'none';
                 document.body.appendChild(a); setTimeout(() => { a.click(); setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(url); }, 100); }, 0);
+                markReported();
             }
         } catch (e) { alert("Unexpected error during download."); } finally { setIsDownloading(false); }
     };
 
+    const handleAddToCalendar = () => {
+        downloadBlob(missionsToIcsBlob([mission], resolveTimeZone(settings.timeZone)), reportFileName(mission, 'ics'));
+    };
+
     const handleSharePdf = async () => {
         setIsDrafting(true);
         try {
-            const blob = await generatePdfBlob(mission, userProfile);
-            const safeName = mission.title.replace(/[^a-z0-9]/gi, '_').substring(0, 30);
-            const fileName = `${mission.date}_${safeName}.pdf`;
+            const blob = await generatePdfBlob(mission, userProfile, settings);
+            const fileName = reportFileName(mission, 'pdf');
             const file = new File([blob], fileName, { type: 'application/pdf' });
             if (navigator.share && navigator.canShare && navigator.canShare({ files: [file] })) { await navigator.share({ files: [file], title: mission.title, text: 'Here is the mission report.' }); } 
             else { const url = URL.createObjectURL(blob); const a = document.createElement('a'); a.href = url; a.download = fileName; a.style.display = 'none'; document.body.appendChild(a); a.click(); setTimeout(() => { document.body.removeChild(a); URL.revokeObjectURL(url); }, 100); }
+            markReported();
         } catch (e: any) { console.error(e); alert(`Error sharing PDF: ${e.message || "Unknown error"}`); } finally { setIsDrafting(false); }
     };
 
     return (
         <div className="flex flex-col h-full bg-white dark:bg-gray-950 transition-colors duration-300">
-            <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex items-center gap-3 sticky top-0 bg-white dark:bg-gray-950 z-10"><button onClick={onBack} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full text-gray-500 dark:text-gray-400 rtl:rotate-180"><ChevronLeft size={24} /></button><h1 className="flex-1 font-bold text-lg truncate text-gray-900 dark:text-gray-100">{mission.title}</h1><button onClick={onDelete} className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-400 rounded-full"><Trash2 size={20} /></button></div>
+            <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex items-center gap-3 sticky top-0 bg-white dark:bg-gray-950 z-10"><button onClick={onBack} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full text-gray-500 dark:text-gray-400 rtl:rotate-180"><ChevronLeft size={24} /></button><h1 className="flex-1 font-bold text-lg truncate text-gray-900 dark:text-gray-100">{mission.title}</h1><button onClick={onEdit} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500 dark:text-gray-400 rounded-full"><Pencil size={20} /></button><button onClick={onDelete} className="p-2 hover:bg-red-50 dark:hover:bg-red-900/20 text-red-400 rounded-full"><Trash2 size={20} /></button></div>
             <div className="flex-1 overflow-y-auto p-6 space-y-6">
+                <div className="space-y-2">
+                    <p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">{t.status}</p>
+                    <div className="flex flex-wrap gap-2">
+                        <button onClick={() => onUpdate({ status: undefined })} title={t.statusAutoDesc} className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${!mission.status ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900' : 'bg-gray-50 dark:bg-gray-800 text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-700'}`}>{t.statusAuto}</button>
+                        {MISSION_STATUSES.map(s => (<button key={s} onClick={() => onUpdate({ status: s })} className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${status === s ? `${STATUS_STYLES[s].badge} ring-2 ring-current` : 'bg-gray-50 dark:bg-gray-800 text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-700'}`}>{statusLabel(t, s)}</button>))}
+                    </div>
+                </div>
+                {(mission.review || teamRole === 'inspector') && (
+                    <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-2xl border border-gray-100 dark:border-gray-700 space-y-3">
+                        <div className="flex items-center justify-between gap-2">
+                            <p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase flex items-center gap-2"><ShieldCheck size={14} /> {t.review}</p>
+                            {mission.review && (<span className={`px-2.5 py-1 rounded-full text-[10px] font-bold ${REVIEW_STYLES[mission.review.status]}`}>{reviewStatusLabel(t, mission.review.status)}</span>)}
+                        </div>
+                        {isApprovalOutdated(mission) && (<p className="text-xs font-bold text-amber-600 dark:text-amber-400 flex items-center gap-1.5"><AlertTriangle size={14} className="shrink-0" /> {t.approvalOutdated}</p>)}
+                        {mission.review && (<ReviewHistory review={mission.review} settings={settings} />)}
+                        {teamRole === 'inspector' && canSubmitForReview(mission) && (
+                            <div className="space-y-2">
+                                <textarea value={reviewComment} onChange={e => setReviewComment(e.target.value)} placeholder={t.commentOptional} className="w-full h-16 p-2.5 bg-white dark:bg-gray-900 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm resize-none text-start" />
+                                <button onClick={() => { onSubmitForReview(reviewComment.trim()); setReviewComment(''); }} className="w-full py-2.5 bg-brand-600 text-white rounded-xl font-bold text-xs hover:bg-brand-700 transition-all flex items-center justify-center gap-2"><Send size={14} className="rtl:rotate-180" /> {t.submitForReview}</button>
+                            </div>
+                        )}
+                    </div>
+                )}
                 <div className="grid grid-cols-2 gap-4">
                     <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-2xl border border-gray-100 dark:border-gray-700"><div className="text-gray-400 dark:text-gray-500 mb-2"><Calendar size={20} /></div><p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">{t.startDate}</p><p className="font-bold text-gray-800 dark:text-gray-100">{formatDate(mission.date, settings.language === 'ar' ? 'ar-EG' : 'en-US')}</p></div>
                     <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-2xl border border-gray-100 dark:border-gray-700"><div className="text-gray-400 dark:text-gray-500 mb-2"><Clock size={20} /></div><p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase">{t.time}</p><p className="font-bold text-gray-800 dark:text-gray-100">{formatTime(mission.startTime)} - {formatTime(mission.finishTime)}</p></div>
                 </div>
-                <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-2xl border border-gray-100 dark:border-gray-700 flex items-start gap-3"><MapPin className="text-brand-500 mt-1 shrink-0" size={20} /><div><p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1">{t.location}</p><p className="font-bold text-gray-800 dark:text-gray-100 leading-snug">{mission.location || t.unknown}</p></div></div>
+                <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-2xl border border-gray-100 dark:border-gray-700 flex items-start gap-3"><MapPin className="text-brand-500 mt-1 shrink-0" size={20} /><div><p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-1">{t.location}</p><p className="font-bold text-gray-800 dark:text-gray-100 leading-snug">{mission.location || t.unknown}</p>{(['startCoords', 'finishCoords'] as const).map(field => { const point = mission[field]; return point && (<p key={field} className="text-xs text-gray-500 dark:text-gray-400 mt-1">{t[field]}: <a href={mapLink(point)} target="_blank" rel="noopener noreferrer" className="font-mono text-brand-600 dark:text-brand-400 hover:underline" dir="ltr">{formatCoords(point)}</a></p>); })}</div></div>
+                {mission.itinerary && mission.itinerary.length > 0 && (
+                    <div className="bg-gray-50 dark:bg-gray-800 p-4 rounded-2xl border border-gray-100 dark:border-gray-700 space-y-3">
+                        <p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase flex items-center gap-2"><Calendar size={14}/> {t.itinerary}</p>
+                        {mission.itinerary.map(entry => (
+                            <div key={entry.id} className="border-s-2 border-brand-300 ps-3">
+                                <p className="text-xs font-bold text-gray-800 dark:text-gray-100">{formatDate(entry.date, settings.language === 'ar' ? 'ar-EG' : 'en-US')}{entry.site && ` · ${entry.site}`}</p>
+                                {formatHours(entry) && (<p className="text-[11px] text-gray-400 dark:text-gray-500">{formatTime(entry.startTime)} - {formatTime(entry.finishTime)}</p>)}
+                                {entry.activities && (<p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap mt-1">{entry.activities}</p>)}
+                            </div>
+                        ))}
+                    </div>
+                )}
                 <div className="bg-gray-50 dark:bg-gray-800 p-5 rounded-2xl border border-gray-100 dark:border-gray-700 min-h-[120px]"><p className="text-xs font-bold text-gray-500 dark:text-gray-400 uppercase mb-2 flex items-center gap-2"><FileText size={14}/> {t.notes}</p><p className="text-gray-700 dark:text-gray-300 leading-relaxed whitespace-pre-wrap text-sm">{mission.notes}</p></div>
+                <AttachmentGallery mission={mission} settings={settings} onUpdate={onUpdate} />
+            </div>
+            <div className="p-4 border-t border-gray-100 dark:border-gray-800 bg-white dark:bg-gray-950 grid grid-cols-2 gap-3 pb-24"><button onClick={handleDownload} disabled={isDownloading} className="flex flex-col items-center justify-center gap-2 bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300 p-4 rounded-2xl font-bold text-xs hover:bg-brand-100 dark:hover:bg-brand-900/40 transition-colors">{isDownloading ? <Loader2 size={24} className="animate-spin" /> : <FileText size={24} />}{t.downloadDocx}</button><button onClick={handleSharePdf} disabled={isDrafting} className="flex flex-col items-center justify-center gap-2 bg-gray-900 dark:bg-gray-700 text-white p-4 rounded-2xl font-bold text-xs hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors">{isDrafting ? <Loader2 size={24} className="animate-spin" /> : <FileType size={24} />}Share PDF</button><button onClick={handleAddToCalendar} className="flex items-center justify-center gap-2 bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-200 p-3 rounded-2xl font-bold text-xs border border-gray-100 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"><CalendarPlus size={18} />{t.addToCalendar}</button><button onClick={openEmailDraft} className="flex items-center justify-center gap-2 bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-200 p-3 rounded-2xl font-bold text-xs border border-gray-100 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"><Mail size={18} />{t.draftEmail}</button></div>
+            {showEmail && (
+                <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-4 bg-black/40 backdrop-blur-sm animate-in fade-in duration-200">
+                    <div className="bg-white dark:bg-gray-900 rounded-3xl p-6 w-full max-w-sm shadow-2xl space-y-4 animate-in zoom-in-95 duration-200 max-h-[90dvh] overflow-y-auto">
+                        <div className="flex justify-between items-center"><h3 className="font-bold text-lg text-gray-800 dark:text-gray-100 flex items-center gap-2"><Mail size={18} className="text-brand-500" /> {t.draftEmail}</h3><button onClick={() => setShowEmail(false)} className="p-1 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-500"><X size={20} /></button></div>
+                        <button onClick={handleAiDraft} disabled={isGeneratingEmail || !isOnline} className="w-full py-3 bg-brand-600 text-white rounded-xl font-bold text-sm shadow-lg shadow-brand-500/30 hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2">{isGeneratingEmail ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}{t.aiDraft}</button>
+                        {!isOnline && (<p className="text-[11px] text-yellow-700 dark:text-yellow-400 flex items-center gap-2"><WifiOff size={12} /> {t.draftOffline}</p>)}
+                        <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.emailTo}</label><input type="email" value={emailTo} onChange={e => setEmailTo(e.target.value)} placeholder={t.recipientPlaceholder} className="w-full p-2.5 bg-gray-50 dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-start" /></div>
+                        <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.emailSubject}</label><input type="text" value={emailDraft.subject} onChange={e => setEmailDraft({...emailDraft, subject: e.target.value})} className="w-full p-2.5 bg-gray-50 dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm text-start" /></div>
+                        <div className="space-y-1"><label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.emailBody}</label><textarea value={emailDraft.body} onChange={e => setEmailDraft({...emailDraft, body: e.target.value})} className="w-full h-40 p-2.5 bg-gray-50 dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm resize-none text-start" /></div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider">{t.attachment}</label>
+                            <div className="flex gap-2">
+                                <button onClick={() => setAttachmentFormat('docx')} className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all flex items-center justify-center gap-2 ${attachmentFormat === 'docx' ? 'bg-brand-600 text-white shadow-md' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'}`}><FileText size={14} /> DOCX</button>
+                                <button onClick={() => setAttachmentFormat('pdf')} className={`flex-1 py-2 rounded-lg font-bold text-xs transition-all flex items-center justify-center gap-2 ${attachmentFormat === 'pdf' ? 'bg-brand-600 text-white shadow-md' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400'}`}><FileType size={14} /> PDF</button>
+                            </div>
+                            <p className="text-[11px] text-gray-400 dark:text-gray-500 font-mono truncate">{attachmentName}</p>
+                        </div>
+                        <div className="flex gap-3 pt-2">
+                            <button onClick={handleCopyEmail} className="flex-1 py-3 bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300 rounded-xl font-bold text-sm hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors flex items-center justify-center gap-2"><Copy size={16} /> {t.copy}</button>
+                            <button onClick={handleOpenMailApp} disabled={isGeneratingEmail} className="flex-1 py-3 bg-gray-900 dark:bg-gray-700 text-white rounded-xl font-bold text-sm hover:bg-gray-800 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors flex items-center justify-center gap-2"><ArrowRight size={16} className="rtl:rotate-180" /> {t.openMailApp}</button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface ReviewInboxProps {
+    teamState: TeamState;
+    settings: Settings;
+    isSyncing: boolean;
+    onSyncNow: () => void;
+    onReview: (missionId: string, type: ReviewEvent['type'], comment: string) => void;
+    onBack: () => void;
+}
+
+const lastEventAt = (review: MissionReview) => review.history[review.history.length - 1]?.at || 0;
+
+// Supervisors review the copies inspectors submitted; nothing here touches the device's own missions
+const ReviewInbox = ({ teamState, settings, isSyncing, onSyncNow, onReview, onBack }: ReviewInboxProps) => {
+    const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
+    const locale = settings.language === 'ar' ? 'ar-EG' : 'en-US';
+    const [showAll, setShowAll] = useState(false);
+    const [openId, setOpenId] = useState<string | null>(null);
+    const [comment, setComment] = useState('');
+    const entries = Object.entries(teamState.inbox).sort(([, a], [, b]) => lastEventAt(b.review) - lastEventAt(a.review));
+    const awaiting = entries.filter(([, item]) => item.review.status === 'submitted');
+    const visible = showAll ? entries : awaiting;
+
+    const toggle = (id: string) => { setOpenId(openId === id ? null : id); setComment(''); };
+
+    const review = (id: string, type: ReviewEvent['type']) => {
+        if (type === 'changes_requested' && !comment.trim()) { alert(t.commentRequired); return; }
+        if (type === 'comment' && !comment.trim()) { alert(t.pleaseFill); return; }
+        onReview(id, type, comment.trim());
+        setComment('');
+    };
+
+    return (
+        <div className="flex flex-col h-full bg-white dark:bg-gray-950 transition-colors duration-300">
+            <div className="p-4 border-b border-gray-100 dark:border-gray-800 flex items-center gap-3 sticky top-0 bg-white dark:bg-gray-950 z-10">
+                <button onClick={onBack} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full text-gray-500 dark:text-gray-400 rtl:rotate-180"><ChevronLeft size={24} /></button>
+                <h1 className="flex-1 font-bold text-lg text-gray-900 dark:text-gray-100">{t.reviewInbox}</h1>
+                <button onClick={onSyncNow} disabled={isSyncing} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full text-brand-600 dark:text-brand-400 disabled:opacity-60" aria-label={t.syncNow}><RefreshCw size={20} className={isSyncing ? 'animate-spin' : ''} /></button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6 space-y-4 pb-32">
+                {teamState.lastError && (<p className="text-xs text-red-500">{teamState.lastError}</p>)}
+                <div className="flex gap-2">
+                    <button onClick={() => setShowAll(false)} className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${!showAll ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900' : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-800'}`}>{t.reviewSubmitted} ({awaiting.length})</button>
+                    <button onClick={() => setShowAll(true)} className={`px-3 py-1.5 rounded-full text-xs font-bold transition-all ${showAll ? 'bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900' : 'bg-white dark:bg-gray-900 text-gray-500 dark:text-gray-400 border border-gray-100 dark:border-gray-800'}`}>{t.allReviews} ({entries.length})</button>
+                </div>
+                {visible.length === 0 && (<p className="text-sm text-gray-400 dark:text-gray-500 text-center py-10">{t.noReviews}</p>)}
+                {visible.map(([id, item]) => (
+                    <div key={id} className="bg-gray-50 dark:bg-gray-900 rounded-2xl border border-gray-100 dark:border-gray-800 overflow-hidden">
+                        <button onClick={() => toggle(id)} className="w-full p-4 flex items-start gap-3 text-start">
+                            <div className="flex-1 min-w-0">
+                                <p className="font-bold text-gray-800 dark:text-gray-100 truncate" dir="auto">{item.mission.title}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{item.reporter.fullName} · {formatDate(item.mission.date, locale)}{item.mission.location && ` · ${item.mission.location}`}</p>
+                            </div>
+                            <span className={`shrink-0 px-2.5 py-1 rounded-full text-[10px] font-bold ${REVIEW_STYLES[item.review.status]}`}>{reviewStatusLabel(t, item.review.status)}</span>
+                        </button>
+                        {teamState.withdrawn?.includes(id) && (<p className="px-4 pb-3 -mt-1 text-xs text-amber-600 dark:text-amber-400 flex items-start gap-1.5"><AlertTriangle size={14} className="shrink-0 mt-0.5" /> {t.approvalWithdrawn}</p>)}
+                        {openId === id && (
+                            <div className="px-4 pb-4 space-y-4">
+                                <div className="text-xs text-gray-600 dark:text-gray-300 space-y-1">
+                                    <p><span className="font-bold">{t.reporter}:</span> {item.reporter.fullName}{item.reporter.profession && ` · ${item.reporter.profession}`}</p>
+                                    <p><span className="font-bold">{t.time}:</span> {formatTime(item.mission.startTime)} - {formatTime(item.mission.finishTime)}{item.mission.finishDate && item.mission.finishDate !== item.mission.date && ` · ${formatDate(item.mission.finishDate, locale)}`}</p>
+                                </div>
+                                {item.mission.itinerary && item.mission.itinerary.length > 0 && (
+                                    <div className="space-y-2">
+                                        {item.mission.itinerary.map(entry => (<div key={entry.id} className="border-s-2 border-gray-300 dark:border-gray-600 ps-3"><p className="text-xs font-bold text-gray-800 dark:text-gray-100">{formatDate(entry.date, locale)}{entry.site && ` · ${entry.site}`}</p>{entry.activities && (<p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{entry.activities}</p>)}</div>))}
+                                    </div>
+                                )}
+                                <div><p className="text-[10px] font-bold text-gray-400 dark:text-gray-500 uppercase tracking-wider mb-1">{t.notes}</p><p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{item.mission.notes || t.noNotes}</p></div>
+                                <ReviewHistory review={item.review} settings={settings} />
+                                <textarea value={comment} onChange={e => setComment(e.target.value)} placeholder={t.addComment} className="w-full h-20 p-2.5 bg-white dark:bg-gray-800 dark:text-white rounded-lg border border-gray-200 dark:border-gray-700 text-sm resize-none text-start" />
+                                <div className="grid grid-cols-3 gap-2">
+                                    <button onClick={() => review(id, 'comment')} className="py-2.5 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-xl font-bold text-xs hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center justify-center gap-1"><MessageSquare size={14} /> {t.addComment}</button>
+                                    <button onClick={() => review(id, 'changes_requested')} className="py-2.5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-xl font-bold text-xs hover:bg-red-100 dark:hover:bg-red-900/40">{t.requestChanges}</button>
+                                    <button onClick={() => review(id, 'approved')} className="py-2.5 bg-green-600 text-white rounded-xl font-bold text-xs hover:bg-green-700 flex items-center justify-center gap-1"><CheckCircle size={14} /> {t.approve}</button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
             </div>
-            <div className="p-4 border-t border-gray-100 dark:border-gray-800 bg-white dark:bg-gray-950 grid grid-cols-2 gap-3 pb-24"><button onClick={handleDownload} disabled={isDownloading} className="flex flex-col items-center justify-center gap-2 bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300 p-4 rounded-2xl font-bold text-xs hover:bg-brand-100 dark:hover:bg-brand-900/40 transition-colors">{isDownloading ? <Loader2 size={24} className="animate-spin" /> : <FileText size={24} />}{t.downloadDocx}</button><button onClick={handleSharePdf} disabled={isDrafting} className="flex flex-col items-center justify-center gap-2 bg-gray-900 dark:bg-gray-700 text-white p-4 rounded-2xl font-bold text-xs hover:bg-gray-800 dark:hover:bg-gray-600 transition-colors">{isDrafting ? <Loader2 size={24} className="animate-spin" /> : <FileType size={24} />}Share PDF</button></div>
         </div>
     );
 };
 
 // --- App Component ---
 
+// Sync runs this long after the last local change, and at least this often while the app is open
+const SYNC_DELAY_MS = 3000;
+const SYNC_INTERVAL_MS = 60000;
+
 const App = () => {
   const [missions, setMissions] = useState<Mission[]>([]);
+  const [drafts, setDrafts] = useState<PendingDraft[]>([]);
   const [settings, setSettings] = useState({
     activeTemplateId: 'default',
     customTemplates: [],
     language: 'en',
-    theme: 'system' // Default theme
+    theme: 'system', // Default theme
+    emailRecipient: '',
+    activePdfLayoutId: 'default',
+    pdfLayouts: []
   } as Settings);
   const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
-
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(() => 
-    safeJsonParse(STORAGE_KEY_USER_PROFILE, null)
-  );
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [loadError, setLoadError] = useState<Error | null>(null);
+
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const userProfile = findProfile(profiles, activeProfileId) || profiles[0] || null;
+  const [lockConfig, setLockConfig] = useState<LockConfig | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const lastActivity = useRef(Date.now());
+  const [syncState, setSyncState] = useState<SyncState | null>(null);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncRef = useRef<SyncState | null>(null); // Always current, for syncs finishing after a render
+  const syncTimer = useRef<ReturnType<typeof setTimeout>>();
+  const isSyncRunning = useRef(false);
+  const [teamState, setTeamState] = useState<TeamState | null>(null);
+  const [isTeamSyncing, setIsTeamSyncing] = useState(false);
+  const teamRef = useRef<TeamState | null>(null);
+  const teamQueue = useRef<Promise<void>>(Promise.resolve());
   
-  const [view, setView] = useState<'dashboard' | 'add' | 'details' | 'settings'>('dashboard');
+  const [view, setView] = useState<'dashboard' | 'add' | 'edit' | 'review' | 'details' | 'settings' | 'newProfile' | 'inbox'>('dashboard');
   const [selectedMissionId, setSelectedMissionId] = useState<string | null>(null);
+  const [selectedDraftId, setSelectedDraftId] = useState<string | null>(null);
+  const isProcessingDrafts = useRef(false);
 
   useEffect(() => {
     const handleOnline = () => setIsOnline(true);
@@ -904,18 +2645,53 @@ const App = () => {
     setInstallPrompt(null);
   };
 
-  useEffect(() => {
-    const savedMissions = safeJsonParse(STORAGE_KEY_MISSIONS, []);
-    setMissions(savedMissions);
+  // Reads everything behind the app lock; runs at startup, or after unlocking when a lock is set up
+  const loadData = async () => {
+    const [savedMissions, savedSettings, savedProfiles, savedActiveId, savedDrafts] = await Promise.all([loadMissions(), loadSettings(), loadProfiles(), loadActiveProfileId(), loadDrafts()]);
+    const activeId = findProfile(savedProfiles, savedActiveId)?.id || savedProfiles[0]?.id || DEFAULT_PROFILE_ID;
+    setMissions(assignOwner(savedMissions, savedProfiles, activeId).sort((a, b) => b.createdAt - a.createdAt));
+    setDrafts(savedDrafts);
     // Robustly merge saved settings with defaults to ensure new properties (like 'theme') exist
-    const savedSettings = safeJsonParse(STORAGE_KEY_SETTINGS, {});
     const defaultSettings: Settings = { 
         activeTemplateId: 'default', 
         customTemplates: [], 
         language: 'en', 
-        theme: 'system' 
+        theme: 'system',
+        emailRecipient: '',
+        activePdfLayoutId: 'default',
+        pdfLayouts: []
     };
     setSettings({ ...defaultSettings, ...savedSettings });
+    setProfiles(savedProfiles);
+    setActiveProfileId(activeId);
+    const savedSync = await loadSyncState();
+    syncRef.current = savedSync;
+    setSyncState(savedSync);
+    const savedTeam = await loadTeamState();
+    teamRef.current = savedTeam;
+    setTeamState(savedTeam);
+    setIsLoaded(true);
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        await migrateFromLocalStorage();
+        const savedLock = await loadLockConfig();
+        setLockConfig(savedLock);
+        if (savedLock) {
+          const preferences = await loadPreferences();
+          setSettings(prev => ({ ...prev, ...preferences, customTemplates: [] }));
+          setIsLocked(true);
+          return;
+        }
+        await loadData();
+      } catch (e: any) {
+        console.error("Failed to load local data", e);
+        setLoadError(new Error(`Could not open local storage: ${e?.message || "Unknown error"}`));
+      }
+    };
+    load();
   }, []);
 
   // Theme application effect
@@ -950,32 +2726,387 @@ const App = () => {
     document.documentElement.dir = settings.language === 'ar' ? 'rtl' : 'ltr';
   }, [settings.language]);
 
-  useEffect(() => { localStorage.setItem(STORAGE_KEY_MISSIONS, JSON.stringify(missions)); }, [missions]);
-  useEffect(() => { localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings)); }, [settings]);
-  useEffect(() => { if (userProfile) localStorage.setItem(STORAGE_KEY_USER_PROFILE, JSON.stringify(userProfile)); }, [userProfile]);
+  // Nothing is written until the initial load finished, so the empty defaults never overwrite stored data
+  const persist = (label: string, task: Promise<void>) => {
+    task.catch((e: any) => {
+      console.error(`Failed to save ${label}`, e);
+      alert(`Could not save ${label}: ${e?.message || "Storage error"}`);
+    });
+  };
+  useEffect(() => { if (isLoaded) persist('missions', saveMissions(missions)); }, [missions, isLoaded]);
+  useEffect(() => { if (isLoaded) persist('settings', saveSettings(settings)); }, [settings, isLoaded]);
+  useEffect(() => { if (isLoaded) persist('profiles', saveProfiles(profiles)); }, [profiles, isLoaded]);
+  useEffect(() => { if (isLoaded && activeProfileId) persist('active profile', saveActiveProfileId(activeProfileId)); }, [activeProfileId, isLoaded]);
+  useEffect(() => { if (isLoaded) persist('drafts', saveDrafts(drafts)); }, [drafts, isLoaded]);
+
+  // --- App lock ---
+  // Locking forgets the data key and drops the decrypted data from memory. isLoaded goes
+  // false in the same update, so the persist effects above never write the emptied state.
+  const lockApp = () => {
+    setDataKey(null);
+    setIsLoaded(false);
+    setIsLocked(true);
+    setMissions([]);
+    setDrafts([]);
+    setProfiles([]);
+    setSettings(prev => ({ ...prev, customTemplates: [] }));
+    syncRef.current = null;
+    setSyncState(null);
+    teamRef.current = null;
+    setTeamState(null);
+  };
+  const unlock = async (key: CryptoKey) => {
+    setDataKey(key);
+    try {
+      await loadData();
+      setIsLocked(false);
+    } catch (e: any) {
+      console.error("Failed to load local data", e);
+      setLoadError(new Error(`Could not open local storage: ${e?.message || "Unknown error"}`));
+    }
+  };
+  const updateLockConfig = (config: LockConfig) => {
+    setLockConfig(config);
+    persist('lock settings', saveLockConfig(config));
+  };
+  // Resolves to false for a wrong PIN; the last allowed failure erases everything
+  const unlockWithPinAttempt = async (pin: string): Promise<boolean> => {
+    if (!lockConfig) return false;
+    const key = await unlockWithPin(lockConfig, pin);
+    if (key) {
+      if (lockConfig.failedAttempts > 0) updateLockConfig({ ...lockConfig, failedAttempts: 0 });
+      await unlock(key);
+      return true;
+    }
+    const failedAttempts = lockConfig.failedAttempts + 1;
+    if (lockConfig.wipeAfter > 0 && failedAttempts >= lockConfig.wipeAfter) {
+      await clearAllData();
+      window.location.reload();
+      return false;
+    }
+    updateLockConfig({ ...lockConfig, failedAttempts });
+    return false;
+  };
+  const unlockWithBiometricAttempt = async () => {
+    if (!lockConfig) return;
+    try {
+      await unlock(await unlockWithBiometric(lockConfig));
+    } catch (e: any) {
+      console.error("Biometric unlock failed", e);
+      alert(e?.message || "Biometric unlock failed.");
+    }
+  };
+  // The config (with the wrapped key) is saved before any record is encrypted, and removed only
+  // after everything is decrypted again, so an interruption never strands encrypted data.
+  const enableLock = async (pin: string) => {
+    const { config, key } = await createLock(pin);
+    await saveLockConfig(config);
+    await resealAll(key);
+    setLockConfig(config);
+  };
+  const disableLock = async () => {
+    await resealAll(null);
+    await saveLockConfig(null);
+    setLockConfig(null);
+  };
+
+  // --- Sync ---
+  const { customTemplates: syncedTemplates, ...syncedSettings } = settings;
+  const syncData = useRef<SyncData>({ missions, templates: syncedTemplates, profiles, settings: syncedSettings });
+  syncData.current = { missions, templates: syncedTemplates, profiles, settings: syncedSettings };
 
-  const addMission = (mission: Mission) => { setMissions([mission, ...missions]); setView('dashboard'); };
-  const updateMission = (id: string, updates: Partial<Mission>) => { setMissions(missions.map(m => m.id === id ? { ...m, ...updates } : m)); };
-  const deleteMission = (id: string) => { setMissions(missions.filter(m => m.id !== id)); if (selectedMissionId === id) { setSelectedMissionId(null); setView('dashboard'); } };
+  const commitSyncState = (next: SyncState | null) => {
+    syncRef.current = next;
+    setSyncState(next);
+    persist('sync state', saveSyncState(next));
+  };
+  // Remote changes are applied to the data as it is when the sync returns, and tracked right
+  // away, so edits made meanwhile are kept and the remote ones are not pushed back.
+  const runSync = async () => {
+    const state = syncRef.current;
+    if (!state || isSyncRunning.current || !navigator.onLine) return;
+    isSyncRunning.current = true;
+    setIsSyncing(true);
+    try {
+      const result = await syncNow(state, syncData.current);
+      if (syncRef.current?.deviceId !== state.deviceId) return; // Disconnected or locked meanwhile
+      const next = applyRemoteRecords(syncData.current, result.applied);
+      if (result.applied.length > 0) {
+        setMissions(next.missions);
+        setProfiles(next.profiles);
+        setSettings({ ...next.settings, customTemplates: next.templates });
+        result.applied.filter(r => r.collection === 'missions' && r.deleted).forEach(r => deleteMissionAttachments(r.id).catch(e => console.error("Failed to delete attachments", e)));
+      }
+      commitSyncState(trackLocalChanges(result.state, next));
+    } catch (e: any) {
+      console.error("Sync failed", e);
+      if (syncRef.current) commitSyncState({ ...syncRef.current, lastError: e?.message || "Sync failed." });
+    } finally {
+      isSyncRunning.current = false;
+      setIsSyncing(false);
+    }
+  };
+  const scheduleSync = () => {
+    clearTimeout(syncTimer.current);
+    syncTimer.current = setTimeout(runSync, SYNC_DELAY_MS);
+  };
+  const enableSync = async (serverUrl: string, token: string, deviceName: string) => {
+    const state = createSyncState(serverUrl, token, deviceName);
+    await checkSyncServer(state);
+    commitSyncState(trackLocalChanges(state, syncData.current));
+    runSync();
+  };
+  const restoreSyncConflict = (conflict: SyncConflict) => {
+    const next = restoreConflict(syncData.current, conflict);
+    setMissions(next.missions);
+    setProfiles(next.profiles);
+    setSettings({ ...next.settings, customTemplates: next.templates });
+    dismissSyncConflict(conflict.id);
+  };
+  const dismissSyncConflict = (id: string) => {
+    if (syncRef.current) commitSyncState({ ...syncRef.current, conflicts: syncRef.current.conflicts.filter(c => c.id !== id) });
+  };
+
+  useEffect(() => {
+    if (!isLoaded || !syncRef.current) return;
+    const next = trackLocalChanges(syncRef.current, syncData.current);
+    if (next === syncRef.current) return;
+    commitSyncState(next);
+    scheduleSync();
+  }, [missions, settings, profiles, isLoaded]);
+
+  // Pulls on start, when the connection returns and periodically while the app is visible
+  useEffect(() => {
+    if (!isLoaded || !syncState || !isOnline) return;
+    runSync();
+    const timer = setInterval(() => { if (document.visibilityState === 'visible') runSync(); }, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoaded, syncState?.deviceId, isOnline]);
+
+  // --- Team review ---
+  const commitTeamState = (next: TeamState | null) => {
+    teamRef.current = next;
+    setTeamState(next);
+    persist('team state', saveTeamState(next));
+  };
+  // Team syncs and review actions run one after another, so a review made while a sync is
+  // running is not overwritten by the state the sync started from.
+  const queueTeamTask = (task: () => Promise<void>) => {
+    teamQueue.current = teamQueue.current.then(task).catch(e => console.error("Team task failed", e));
+  };
+  const runTeamSync = () => queueTeamTask(async () => {
+    const state = teamRef.current;
+    if (!state || !navigator.onLine) return;
+    setIsTeamSyncing(true);
+    try {
+      const result = await syncTeam(state, syncData.current.missions, mission => findProfile(syncData.current.profiles, mission.profileId));
+      if (teamRef.current?.deviceId !== state.deviceId) return; // Left the team or locked meanwhile
+      if (Object.keys(result.reviews).length > 0) setMissions(prev => applyReviews(prev, result.reviews));
+      commitTeamState(result.state);
+    } catch (e: any) {
+      console.error("Team sync failed", e);
+      if (teamRef.current) commitTeamState({ ...teamRef.current, lastError: e?.message || "Team sync failed." });
+    } finally {
+      setIsTeamSyncing(false);
+    }
+  });
+  const joinTeam = async (serverUrl: string, token: string) => {
+    const server = { serverUrl: serverUrl.trim().replace(/\/+$/, ''), token: token.trim() };
+    commitTeamState(createTeamState(server.serverUrl, server.token, await fetchTeamMember(server)));
+  };
+  const leaveTeam = () => queueTeamTask(async () => { commitTeamState(null); });
+  const submitForReview = (mission: Mission, comment: string) => {
+    const state = teamRef.current;
+    if (!state) return;
+    updateMission(mission.id, { review: addReviewEvent(mission.review, state, 'submitted', comment) });
+    queueTeamTask(async () => { if (teamRef.current) commitTeamState(markPending(teamRef.current, mission.id)); });
+  };
+  const reviewMission = (missionId: string, type: ReviewEvent['type'], comment: string) => queueTeamTask(async () => {
+    if (teamRef.current) commitTeamState(reviewInboxItem(teamRef.current, missionId, type, comment));
+  });
+
+  // Pending reviews are pushed once the render that recorded them has updated syncData
+  useEffect(() => {
+    if (isLoaded && isOnline && teamState && teamState.pending.length > 0) runTeamSync();
+  }, [isLoaded, teamState?.pending.join(',')]);
+
+  useEffect(() => {
+    if (!isLoaded || !teamState || !isOnline) return;
+    runTeamSync();
+    const timer = setInterval(() => { if (document.visibilityState === 'visible') runTeamSync(); }, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLoaded, teamState?.deviceId, isOnline]);
+
+  // Any touch or key press counts as activity. Timers are throttled in the background, so the
+  // idle time is also checked when the app comes back to the foreground.
+  useEffect(() => {
+    if (!lockConfig || isLocked || !lockConfig.autoLockMinutes) return;
+    const limit = lockConfig.autoLockMinutes * 60000;
+    lastActivity.current = Date.now();
+    const touch = () => { lastActivity.current = Date.now(); };
+    const check = () => { if (Date.now() - lastActivity.current >= limit) lockApp(); };
+    const handleVisibility = () => { if (document.visibilityState === 'visible') check(); };
+    window.addEventListener('pointerdown', touch);
+    window.addEventListener('keydown', touch);
+    document.addEventListener('visibilitychange', handleVisibility);
+    const timer = setInterval(check, 15000);
+    return () => {
+      window.removeEventListener('pointerdown', touch);
+      window.removeEventListener('keydown', touch);
+      document.removeEventListener('visibilitychange', handleVisibility);
+      clearInterval(timer);
+    };
+  }, [lockConfig, isLocked]);
+
+  // --- Offline Magic Fill queue ---
+  const updateDraft = (id: string, updates: Partial<PendingDraft>) => {
+    setDrafts(prev => prev.map(d => d.id === id ? { ...d, ...updates } : d));
+  };
+
+  // Drafts are parsed one at a time; the ref keeps a second 'online' event from starting a parallel run
+  const processDrafts = async (queue: PendingDraft[]) => {
+    if (isProcessingDrafts.current || queue.length === 0) return;
+    isProcessingDrafts.current = true;
+    try {
+      for (const draft of queue) {
+        if (!navigator.onLine) break;
+        updateDraft(draft.id, { status: 'processing', error: undefined });
+        try {
+          const result = await parseMissionText(draft.text, new Date(draft.createdAt));
+          updateDraft(draft.id, { status: 'ready', result });
+        } catch (e: any) {
+          console.error("Queued AI Error", e);
+          updateDraft(draft.id, { status: navigator.onLine ? 'failed' : 'pending', error: e.message || "Network or API Key Error" });
+        }
+      }
+    } finally {
+      isProcessingDrafts.current = false;
+    }
+  };
+
+  useEffect(() => {
+    if (isLoaded && isOnline) processDrafts(drafts.filter(d => d.status === 'pending'));
+  }, [isOnline, isLoaded]);
+
+  const queueDraft = (text: string) => {
+    setDrafts(prev => [...prev, { id: generateId(), text, createdAt: Date.now(), status: 'pending', profileId: userProfile?.id }]);
+    setView('dashboard');
+  };
+  const retryDraft = (id: string) => {
+    const draft = drafts.find(d => d.id === id);
+    if (draft) processDrafts([draft]);
+  };
+  const deleteDraft = (id: string) => { setDrafts(prev => prev.filter(d => d.id !== id)); };
+  const reviewDraft = (id: string) => { setSelectedDraftId(id); setView('review'); };
+  // Drafts queued before drafts recorded their profile go to the active one
+  const saveReviewedDraft = (mission: Mission) => {
+    const draft = drafts.find(d => d.id === selectedDraftId);
+    setMissions([{ ...mission, profileId: findProfile(profiles, draft?.profileId)?.id || userProfile?.id }, ...missions]);
+    deleteDraft(selectedDraftId!);
+    setSelectedDraftId(null);
+    setView('dashboard');
+  };
+
+  const addMission = (mission: Mission) => { setMissions([{ ...mission, profileId: userProfile?.id }, ...missions]); setView('dashboard'); };
+  const importMissions = (imported: Mission[]) => { setMissions(prev => [...imported.map(m => ({ ...m, profileId: userProfile?.id })), ...prev].sort((a, b) => b.createdAt - a.createdAt)); };
+  const updateMission = (id: string, updates: Partial<Mission>) => { setMissions(prev => prev.map(m => m.id === id ? { ...m, ...updates } : m)); };
+  // The supervisor gets the new version of a mission awaiting review. An approval is for the
+  // version that was approved (see approvalOf), so it no longer shows once the mission is edited.
+  const saveEditedMission = (mission: Mission) => {
+    updateMission(mission.id, mission);
+    if (mission.review?.status === 'submitted') queueTeamTask(async () => { if (teamRef.current) commitTeamState(markPending(teamRef.current, mission.id)); });
+    setView('details');
+  };
+  const deleteMission = (id: string) => {
+    setMissions(missions.filter(m => m.id !== id));
+    deleteMissionAttachments(id).catch(e => console.error("Failed to delete attachments", e));
+    if (selectedMissionId === id) { setSelectedMissionId(null); setView('dashboard'); }
+  };
   const goToDetails = (id: string) => { setSelectedMissionId(id); setView('details'); };
+  const restoreBackup = async (backup: BackupFile, mode: RestoreMode) => {
+    const result: RestoreResult = applyBackup(backup, mode, missions, settings, profiles, activeProfileId);
+    setMissions(result.missions);
+    setSettings(result.settings);
+    setProfiles(result.profiles);
+    setActiveProfileId(result.activeProfileId);
+    await restoreAttachments(backup, result.missions, mode);
+  };
+
+  // --- Profiles ---
+  const addProfile = (profile: UserProfile) => {
+    setProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+    setView('dashboard');
+  };
+  const updateProfile = (profile: UserProfile) => { setProfiles(prev => prev.map(p => p.id === profile.id ? profile : p)); };
+  const switchProfile = (id: string) => {
+    const profile = findProfile(profiles, id);
+    if (!profile) return;
+    setActiveProfileId(id);
+    setSettings(applyProfilePreferences(settings, profile));
+    setSelectedMissionId(null);
+    setView('dashboard');
+  };
+  // Removes the profile together with its missions, their attachments and its queued drafts
+  const deleteProfile = (id: string) => {
+    const remaining = profiles.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+    setDrafts(prev => prev.filter(d => d.profileId !== id));
+    missions.filter(m => m.profileId === id).forEach(m => deleteMissionAttachments(m.id).catch(e => console.error("Failed to delete attachments", e)));
+    setMissions(missions.filter(m => m.profileId !== id));
+    setProfiles(remaining);
+    if (activeProfileId === id) switchProfile(remaining[0].id);
+  };
 
   // Ensure t is never undefined to prevent crashes
   const t = TRANSLATIONS[settings.language] || TRANSLATIONS['en'];
 
+  if (loadError) throw loadError;
+
+  if (isLocked && lockConfig) {
+      return <LockScreen config={lockConfig} settings={settings} onUnlockPin={unlockWithPinAttempt} onUnlockBiometric={unlockWithBiometricAttempt} />;
+  }
+
+  if (!isLoaded) {
+      return (
+        <div className="h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950" style={{ height: '100dvh' }}>
+            <Loader2 size={32} className="animate-spin text-brand-600" />
+        </div>
+      );
+  }
+
   if (!userProfile) {
-      return <OnboardingView onSave={setUserProfile} settings={settings} onUpdateSettings={setSettings} />;
+      return <OnboardingView onSave={addProfile} settings={settings} onUpdateSettings={setSettings} />;
   }
 
+  if (view === 'newProfile') {
+      return <OnboardingView onSave={addProfile} onCancel={() => setView('dashboard')} settings={settings} onUpdateSettings={setSettings} />;
+  }
+
+  const profileMissions = missions.filter(m => m.profileId === userProfile.id);
+  const renderDashboard = () => <Dashboard key={userProfile.id} missions={profileMissions} settings={settings} userProfile={userProfile} profiles={profiles} drafts={drafts.filter(d => !d.profileId || d.profileId === userProfile.id)} isOnline={isOnline} onSelect={goToDetails} onAdd={() => setView('add')} onOpenSettings={() => setView('settings')} onSwitchProfile={switchProfile} onAddProfile={() => setView('newProfile')} syncConflictCount={syncState?.conflicts.length || 0} reviewInboxCount={teamState?.role === 'supervisor' ? Object.values(teamState.inbox).filter(item => item.review.status === 'submitted').length : null} onOpenInbox={() => setView('inbox')} onReviewDraft={reviewDraft} onRetryDraft={retryDraft} onDeleteDraft={deleteDraft} onImport={importMissions} />;
+
   const renderView = () => {
     switch (view) {
-      case 'dashboard': return <Dashboard missions={missions} settings={settings} userProfile={userProfile} onSelect={goToDetails} onAdd={() => setView('add')} onOpenSettings={() => setView('settings')} />;
-      case 'add': return <MissionEditor onSave={addMission} onCancel={() => setView('dashboard')} settings={settings} isOnline={isOnline} />;
+      case 'dashboard': return renderDashboard();
+      case 'add': return <MissionEditor onSave={addMission} onCancel={() => setView('dashboard')} settings={settings} isOnline={isOnline} onQueueDraft={queueDraft} />;
+      case 'review':
+        const draft = drafts.find(d => d.id === selectedDraftId);
+        if (!draft || !draft.result) return <div className="p-4">Draft not found</div>;
+        return <MissionEditor key={draft.id} prefill={draft.result} onSave={saveReviewedDraft} onCancel={() => setView('dashboard')} settings={settings} isOnline={isOnline} />;
+      case 'edit':
+        const editing = missions.find(m => m.id === selectedMissionId);
+        if (!editing) return <div className="p-4">Mission not found</div>;
+        return <MissionEditor key={editing.id} initialMission={editing} onSave={saveEditedMission} onCancel={() => setView('details')} settings={settings} isOnline={isOnline} />;
       case 'details':
         const mission = missions.find(m => m.id === selectedMissionId);
         if (!mission) return <div className="p-4">Mission not found</div>;
-        return <MissionDetails mission={mission} settings={settings} userProfile={userProfile} onBack={() => setView('dashboard')} onDelete={() => deleteMission(mission.id)} />;
-      case 'settings': return <SettingsView settings={settings} onUpdate={setSettings} userProfile={userProfile} onUpdateProfile={setUserProfile} onBack={() => setView('dashboard')} installPrompt={installPrompt} onInstall={handleInstallClick} />;
-      default: return <Dashboard missions={missions} settings={settings} userProfile={userProfile} onSelect={goToDetails} onAdd={() => setView('add')} onOpenSettings={() => setView('settings')} />;
+        return <MissionDetails mission={mission} settings={settings} userProfile={findProfile(profiles, mission.profileId) || userProfile} isOnline={isOnline} onBack={() => setView('dashboard')} onEdit={() => setView('edit')} onUpdate={(updates) => updateMission(mission.id, updates)} onDelete={() => deleteMission(mission.id)} teamRole={teamState?.role || null} onSubmitForReview={(comment) => submitForReview(mission, comment)} />;
+      case 'inbox':
+        if (!teamState) return renderDashboard();
+        return <ReviewInbox teamState={teamState} settings={settings} isSyncing={isTeamSyncing} onSyncNow={runTeamSync} onReview={reviewMission} onBack={() => setView('dashboard')} />;
+      case 'settings': return <SettingsView settings={settings} onUpdate={setSettings} userProfile={userProfile} profiles={profiles} onUpdateProfile={updateProfile} onDeleteProfile={deleteProfile} missions={missions} onRestore={restoreBackup} lockConfig={lockConfig} onEnableLock={enableLock} onDisableLock={disableLock} onUpdateLock={updateLockConfig} onLockNow={lockApp} syncState={syncState} isSyncing={isSyncing} onEnableSync={enableSync} onDisableSync={() => commitSyncState(null)} onSyncNow={runSync} onRestoreConflict={restoreSyncConflict} onDismissConflict={dismissSyncConflict} teamState={teamState} isTeamSyncing={isTeamSyncing} onJoinTeam={joinTeam} onLeaveTeam={leaveTeam} onTeamSyncNow={runTeamSync} onBack={() => setView('dashboard')} installPrompt={installPrompt} onInstall={handleInstallClick} />;
+      default: return renderDashboard();
     }
   };
 
@@ -0,0 +1,131 @@
+import { LockConfig, SealedValue } from './types';
+
+// --- App Lock & Encryption at Rest ---
+// Missions, profiles, templates, drafts and attachments are encrypted with a random AES-GCM
+// data key. Only wrapped copies of that key are stored: one under a key derived from the PIN
+// (PBKDF2) and, once biometrics are enrolled, one under a key derived from the platform
+// authenticator's PRF output. Changing the PIN or enrolling biometrics never re-encrypts data.
+// The PIN is the only secret, so someone holding a copy of the database can still try every
+// PIN offline; the wipe after failed attempts only protects against guessing in the app.
+
+export const MIN_PIN_LENGTH = 4;
+
+const PBKDF2_ITERATIONS = 600000;
+
+export const DEFAULT_LOCK_PREFERENCES = { autoLockMinutes: 5, wipeAfter: 0 };
+
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const derivePinKey = async (pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+};
+
+const wrapDataKey = async (dataKey: CryptoKey, wrappingKey: CryptoKey): Promise<SealedValue> => {
+    const iv = randomBytes(12);
+    return { iv, data: await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, { name: 'AES-GCM', iv }) };
+};
+
+// Rejects when the wrapping key is wrong, as the AES-GCM authentication fails.
+// The data key stays extractable so it can be wrapped again for a new PIN or authenticator.
+const unwrapDataKey = (wrapped: SealedValue, wrappingKey: CryptoKey): Promise<CryptoKey> =>
+    crypto.subtle.unwrapKey('raw', wrapped.data, wrappingKey, { name: 'AES-GCM', iv: wrapped.iv }, { name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+// Stores the data key under a new PIN; a fresh salt is used every time
+export const setPin = async (config: LockConfig, dataKey: CryptoKey, pin: string): Promise<LockConfig> => {
+    const salt = randomBytes(16);
+    const pinKey = await wrapDataKey(dataKey, await derivePinKey(pin, salt, PBKDF2_ITERATIONS));
+    return { ...config, salt, iterations: PBKDF2_ITERATIONS, pinKey, failedAttempts: 0 };
+};
+
+export const createLock = async (pin: string): Promise<{ config: LockConfig; key: CryptoKey }> => {
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+    const empty = { ...DEFAULT_LOCK_PREFERENCES, failedAttempts: 0 } as LockConfig;
+    return { config: await setPin(empty, key, pin), key };
+};
+
+// Resolves to null for a wrong PIN
+export const unlockWithPin = async (config: LockConfig, pin: string): Promise<CryptoKey | null> => {
+    try {
+        return await unwrapDataKey(config.pinKey, await derivePinKey(pin, config.salt, config.iterations));
+    } catch (e) {
+        return null;
+    }
+};
+
+// --- Biometric Unlock ---
+// WebAuthn on its own only proves that the user passed the device check; it yields no secret
+// to decrypt with. The PRF extension does: the authenticator returns the same 32 bytes for the
+// same credential and salt, and only after user verification. Authenticators without PRF
+// support cannot be enrolled. No server checks the challenge, as the assertion itself is unused.
+
+export const isBiometricAvailable = async (): Promise<boolean> => {
+    try {
+        return !!window.PublicKeyCredential && await PublicKeyCredential.isUserVerifyingPlatformAuthenticatorAvailable();
+    } catch (e) {
+        return false;
+    }
+};
+
+const prfWrappingKey = async (secret: ArrayBuffer): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+    return crypto.subtle.deriveKey({ name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode('missionlog data key') }, material, { name: 'AES-GCM', length: 256 }, false, ['wrapKey', 'unwrapKey']);
+};
+
+const evaluatePrf = async (credentialId: ArrayBuffer, prfSalt: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> => {
+    const credential = await navigator.credentials.get({
+        publicKey: {
+            challenge: randomBytes(32),
+            allowCredentials: [{ type: 'public-key', id: credentialId }],
+            userVerification: 'required',
+            extensions: { prf: { eval: { first: prfSalt } } } as AuthenticationExtensionsClientInputs,
+        },
+    }) as PublicKeyCredential | null;
+    const secret = (credential?.getClientExtensionResults() as any)?.prf?.results?.first;
+    if (!secret) throw new Error("The authenticator did not return a key.");
+    return secret;
+};
+
+// Creates a platform credential and wraps the data key with it. Most browsers only return PRF
+// results on assertion, so the user is asked twice: once to create, once to evaluate.
+export const enrollBiometric = async (config: LockConfig, dataKey: CryptoKey, userName: string): Promise<LockConfig> => {
+    const credential = await navigator.credentials.create({
+        publicKey: {
+            rp: { name: 'MissionLog AI' },
+            user: { id: randomBytes(16), name: userName, displayName: userName },
+            challenge: randomBytes(32),
+            pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -257 }],
+            authenticatorSelection: { authenticatorAttachment: 'platform', userVerification: 'required', residentKey: 'discouraged' },
+            extensions: { prf: {} } as AuthenticationExtensionsClientInputs,
+        },
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error("Biometric setup was cancelled.");
+    if (!(credential.getClientExtensionResults() as any)?.prf?.enabled) {
+        throw new Error("This device's authenticator cannot protect encrypted data (no PRF support).");
+    }
+    const prfSalt = randomBytes(32);
+    const wrappedKey = await wrapDataKey(dataKey, await prfWrappingKey(await evaluatePrf(credential.rawId, prfSalt)));
+    return { ...config, biometric: { credentialId: credential.rawId, prfSalt, wrappedKey } };
+};
+
+export const unlockWithBiometric = async (config: LockConfig): Promise<CryptoKey> => {
+    if (!config.biometric) throw new Error("Biometric unlock is not set up.");
+    const { credentialId, prfSalt, wrappedKey } = config.biometric;
+    return unwrapDataKey(wrappedKey, await prfWrappingKey(await evaluatePrf(credentialId, prfSalt)));
+};
+
+// --- Record Encryption ---
+
+export const encryptBytes = async (key: CryptoKey, bytes: BufferSource): Promise<SealedValue> => {
+    const iv = randomBytes(12);
+    return { iv, data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes) };
+};
+
+export const decryptBytes = (key: CryptoKey, sealed: SealedValue): Promise<ArrayBuffer> =>
+    crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv }, key, sealed.data);
+
+export const encryptJson = (key: CryptoKey, value: unknown): Promise<SealedValue> =>
+    encryptBytes(key, new TextEncoder().encode(JSON.stringify(value)));
+
+export const decryptJson = async <T>(key: CryptoKey, sealed: SealedValue): Promise<T> =>
+    JSON.parse(new TextDecoder().decode(await decryptBytes(key, sealed)));
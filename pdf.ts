@@ -0,0 +1,157 @@
+// --- PDF Fonts & Bidirectional Text ---
+// The Roboto font bundled with pdfMake has no Arabic glyphs, and pdfMake lays out every
+// line left-to-right. Arabic-capable fonts are fetched once (and cached by the service
+// worker for offline use); RTL text is converted to visual order before it reaches pdfMake.
+
+import { PdfField, PdfLayout, Settings } from './types';
+
+declare const pdfMake: any;
+
+// A published npm version, so the files never move or change. Must match the entries in
+// public/sw.js so the fonts are available offline.
+export const PDF_ARABIC_FONT_URLS = {
+    normal: 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/tajawal@0.4.1/400Regular/Tajawal_400Regular.ttf',
+    bold: 'https://cdn.jsdelivr.net/npm/@expo-google-fonts/tajawal@0.4.1/700Bold/Tajawal_700Bold.ttf'
+};
+
+const ARABIC_FONT = 'Tajawal';
+const ARABIC_RE = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF]/;
+const LATIN_OR_DIGIT_RE = /[A-Za-z0-9\u00C0-\u024F]/;
+
+export const containsRtl = (text: string) => ARABIC_RE.test(text);
+
+// Paragraph direction follows the first strong (letter) character, as in the Unicode bidi algorithm
+export const firstStrongIsRtl = (text: string): boolean => {
+    for (const ch of text) {
+        if (ARABIC_RE.test(ch)) return true;
+        if (LATIN_OR_DIGIT_RE.test(ch) && !/\d/.test(ch)) return false;
+    }
+    return false;
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return window.btoa(binary);
+};
+
+let fontPromise: Promise<boolean> | null = null;
+
+// Registers the Arabic font with pdfMake. Resolves to false (and retries next time) if it cannot be downloaded.
+export const ensureArabicFont = (): Promise<boolean> => {
+    if (fontPromise) return fontPromise;
+    fontPromise = (async () => {
+        try {
+            const [normal, bold] = await Promise.all([PDF_ARABIC_FONT_URLS.normal, PDF_ARABIC_FONT_URLS.bold].map(async url => {
+                const response = await fetch(url);
+                if (!response.ok) throw new Error(`Font download failed: ${response.status}`);
+                return arrayBufferToBase64(await response.arrayBuffer());
+            }));
+            pdfMake.vfs = { ...pdfMake.vfs, 'Tajawal-Regular.ttf': normal, 'Tajawal-Bold.ttf': bold };
+            pdfMake.fonts = {
+                ...(pdfMake.fonts || {
+                    Roboto: { normal: 'Roboto-Regular.ttf', bold: 'Roboto-Medium.ttf', italics: 'Roboto-Italic.ttf', bolditalics: 'Roboto-MediumItalic.ttf' }
+                }),
+                [ARABIC_FONT]: { normal: 'Tajawal-Regular.ttf', bold: 'Tajawal-Bold.ttf', italics: 'Tajawal-Regular.ttf', bolditalics: 'Tajawal-Bold.ttf' }
+            };
+            return true;
+        } catch (e) {
+            console.warn("Arabic PDF font unavailable", e);
+            fontPromise = null;
+            return false;
+        }
+    })();
+    return fontPromise;
+};
+
+// Picks the document font. Tajawal also covers Latin, so it handles mixed Arabic/Latin reports.
+export const pickPdfFont = async (rtl: boolean, texts: string[]): Promise<string> => {
+    if (!rtl && !texts.some(containsRtl)) return 'Roboto';
+    if (await ensureArabicFont()) return ARABIC_FONT;
+    throw new Error("The Arabic PDF font could not be downloaded. Connect to the internet once to enable Arabic PDF reports.");
+};
+
+type Direction = 'rtl' | 'ltr' | 'neutral';
+
+const wordDirection = (word: string): Direction => {
+    if (ARABIC_RE.test(word)) return 'rtl';
+    if (LATIN_OR_DIGIT_RE.test(word)) return 'ltr';
+    return 'neutral';
+};
+
+// Reorders one line of logical-order text into the left-to-right visual order pdfMake draws.
+// Words in an RTL run are reversed, LTR runs (Latin words, numbers, dates) keep their inner
+// order, and the runs themselves are reversed when the base direction is RTL. Glyph shaping
+// and the letter order inside each Arabic word are handled by the font engine.
+const visualLine = (line: string, rtl: boolean): string => {
+    const words = line.split(/\s+/).filter(Boolean);
+    const runs: { dir: Direction; words: string[] }[] = [];
+    words.forEach(word => {
+        let dir = wordDirection(word);
+        // Punctuation and symbols follow the surrounding text, or the base direction at the start
+        if (dir === 'neutral') dir = runs.length > 0 ? runs[runs.length - 1].dir : (rtl ? 'rtl' : 'ltr');
+        const last = runs[runs.length - 1];
+        if (last && last.dir === dir) last.words.push(word);
+        else runs.push({ dir, words: [word] });
+    });
+    const ordered = rtl ? [...runs].reverse() : runs;
+    return ordered.map(run => (run.dir === 'rtl' ? [...run.words].reverse() : run.words).join(' ')).join(' ');
+};
+
+// Breaks text into lines of at most `maxChars` on word boundaries. pdfMake wraps left-to-right,
+// which would put the end of an RTL sentence on the first line, so RTL text is wrapped here.
+const wrapLine = (line: string, maxChars: number): string[] => {
+    const lines: string[] = [];
+    let current = '';
+    line.split(/\s+/).filter(Boolean).forEach(word => {
+        if (current && (current.length + 1 + word.length) > maxChars) {
+            lines.push(current);
+            current = word;
+        } else {
+            current = current ? `${current} ${word}` : word;
+        }
+    });
+    if (current) lines.push(current);
+    return lines.length > 0 ? lines : [''];
+};
+
+// Prepares text for pdfMake. Text without Arabic is returned unchanged.
+export const pdfText = (text: string, rtl: boolean, maxChars = 90): string => {
+    if (!text || !containsRtl(text)) return text;
+    return text.split('\n')
+        .flatMap(line => wrapLine(line, maxChars))
+        .map(line => visualLine(line, rtl))
+        .join('\n');
+};
+
+// --- PDF Layouts ---
+
+export const PDF_ROW_FIELDS: PdfField[] = ['title', 'date', 'time', 'location', 'reporter', 'profession', 'cni', 'ppn', 'customFields'];
+export const PDF_FIELDS: PdfField[] = [...PDF_ROW_FIELDS, 'itinerary', 'notes', 'attachments'];
+
+export const PDF_PAGE_SIZES = ['A4', 'LETTER', 'LEGAL'] as const;
+
+// Built-in choice that converts the rendered DOCX template instead of using a pdfMake layout
+export const DOCX_PDF_LAYOUT_ID = 'docx';
+
+// Fields of the built-in report, in their historical order
+const DEFAULT_PDF_FIELDS: PdfField[] = ['title', 'date', 'time', 'location', 'reporter', 'profession', 'cni', 'customFields', 'itinerary', 'notes', 'attachments'];
+
+export const createPdfLayout = (id: string, name: string, headerText: string, footerText: string): PdfLayout => ({
+    id,
+    name,
+    headerText,
+    footerText,
+    fields: [...DEFAULT_PDF_FIELDS],
+    pageSize: 'A4',
+    signature: { enabled: false, label: '', showName: true },
+});
+
+// The 'default' layout is not stored; its texts follow the active language.
+export const getActivePdfLayout = (settings: Settings, headerText: string, footerText: string): PdfLayout => {
+    return (settings.pdfLayouts || []).find(l => l.id === settings.activePdfLayoutId)
+        || createPdfLayout('default', '', headerText, footerText);
+};
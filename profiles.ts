@@ -0,0 +1,30 @@
+import { Mission, Settings, UserProfile } from './types';
+
+// --- Profiles ---
+// Several people can report from one device. Each mission belongs to one profile, and
+// reports use that profile's name and IDs. Switching profiles also applies its
+// preferred language and template.
+
+// Id given to the single profile of data created before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const createProfileId = () => Math.random().toString(36).substr(2, 9);
+
+// Missions without a known owner (older data, restored backups) are given to `fallbackId`
+export const assignOwner = (missions: Mission[], profiles: UserProfile[], fallbackId: string): Mission[] => {
+    const ids = new Set(profiles.map(p => p.id));
+    return missions.map(m => (m.profileId && ids.has(m.profileId) ? m : { ...m, profileId: fallbackId }));
+};
+
+export const findProfile = (profiles: UserProfile[], id: string | null | undefined): UserProfile | null =>
+    profiles.find(p => p.id === id) || null;
+
+// A preferred template that was deleted since is ignored
+export const applyProfilePreferences = (settings: Settings, profile: UserProfile): Settings => {
+    const templateExists = profile.defaultTemplateId === 'default' || settings.customTemplates.some(t => t.id === profile.defaultTemplateId);
+    return {
+        ...settings,
+        language: profile.language || settings.language,
+        activeTemplateId: profile.defaultTemplateId && templateExists ? profile.defaultTemplateId : settings.activeTemplateId,
+    };
+};
@@ -1,5 +1,5 @@
 
-const CACHE_NAME = 'missionlog-v4';
+const CACHE_NAME = 'missionlog-v8';
 
 // 1. Assets we want to pin immediately (App Shell & critical externals)
 // Note: In production, Vite hashes filenames. We handle those via runtime caching.
@@ -7,24 +7,36 @@ const PRECACHE_ASSETS = [
   './',
   './index.html',
   './manifest.json',
+  './world-outline.json', // Map outline, see geo.ts
   // External Libraries (Versioned/Immutable) - MUST MATCH index.html EXACTLY
   'https://cdn.tailwindcss.com',
   'https://unpkg.com/pizzip@3.1.4/dist/pizzip.min.js',
   'https://unpkg.com/docxtemplater@3.37.11/build/docxtemplater.js',
   'https://cdnjs.cloudflare.com/ajax/libs/pdfmake/0.2.7/pdfmake.min.js',
   'https://cdnjs.cloudflare.com/ajax/libs/pdfmake/0.2.7/vfs_fonts.js',
+  'https://cdnjs.cloudflare.com/ajax/libs/xlsx/0.18.5/xlsx.full.min.js',
   // Fonts & Icons
   'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=Tajawal:wght@300;400;500;700&display=swap',
   'https://cdn-icons-png.flaticon.com/512/9324/9324679.png',
   'https://cdn-icons-png.flaticon.com/128/9324/9324679.png'
 ];
 
+// 2. Assets cached at install when possible. A failure here must not fail the whole install
+// (addAll is all-or-nothing); the app downloads them on first use instead.
+const OPTIONAL_ASSETS = [
+  // Arabic PDF font - MUST MATCH PDF_ARABIC_FONT_URLS in pdf.ts
+  'https://cdn.jsdelivr.net/npm/@expo-google-fonts/tajawal@0.4.1/400Regular/Tajawal_400Regular.ttf',
+  'https://cdn.jsdelivr.net/npm/@expo-google-fonts/tajawal@0.4.1/700Bold/Tajawal_700Bold.ttf'
+];
+
 self.addEventListener('install', (event) => {
   self.skipWaiting();
   event.waitUntil(
     caches.open(CACHE_NAME).then((cache) => {
       console.log('[SW] Pre-caching critical assets');
-      return cache.addAll(PRECACHE_ASSETS);
+      return cache.addAll(PRECACHE_ASSETS).then(() => Promise.all(OPTIONAL_ASSETS.map((url) =>
+        cache.add(url).catch((err) => console.log('[SW] Could not pre-cache optional asset:', url, err))
+      )));
     })
   );
 });
@@ -53,16 +65,23 @@ self.addEventListener('fetch', (event) => {
     return;
   }
 
+  // Sync requests must always reach the server, also when it shares the app's origin
+  if (event.request.method !== 'GET' || url.pathname.startsWith('/api/')) {
+    return;
+  }
+
   // STRATEGY 1: Cache-First for External Libraries, Fonts, and Images
   // These are unlikely to change often or are versioned.
   const isExternalAsset = 
     PRECACHE_ASSETS.includes(url.href) || 
+    OPTIONAL_ASSETS.includes(url.href) ||
     url.hostname === 'cdn.tailwindcss.com' ||
     url.hostname === 'unpkg.com' ||
     url.hostname === 'cdnjs.cloudflare.com' ||
     url.hostname === 'fonts.googleapis.com' ||
     url.hostname === 'fonts.gstatic.com' ||
-    url.hostname === 'cdn-icons-png.flaticon.com';
+    url.hostname === 'cdn-icons-png.flaticon.com' ||
+    url.hostname === 'cdn.jsdelivr.net';
 
   if (isExternalAsset) {
     event.respondWith(
@@ -0,0 +1,166 @@
+import { AISearchResponse, GeoArea, Mission, MissionStatus } from './types';
+import { MISSION_STATUSES, getMissionStatus } from './status';
+import { summarizeMissions } from './activityReport';
+import { isMissionInArea } from './geo';
+
+// --- Mission Search ---
+// Text is compared after folding case, accents (é → e) and Arabic spelling variants
+// (diacritics, tatweel, hamza forms of alef, ta marbuta, alef maqsura), so "Fès" matches
+// "fes" and "الإسكندرية" matches "الاسكندريه". Every query word must appear somewhere
+// in the mission: title, location, dates, notes, custom fields or itinerary.
+
+export type MissionSort = 'date_desc' | 'date_asc' | 'created_desc' | 'title' | 'location';
+
+export const MISSION_SORTS: MissionSort[] = ['created_desc', 'date_desc', 'date_asc', 'title', 'location'];
+
+export interface MissionFilter {
+    query: string;
+    anyOf: string; // Keyword alternatives from the AI search; one of these words is enough
+    dateFrom: string; // YYYY-MM-DD or '' for open-ended
+    dateTo: string;
+    locations: string[]; // Normalized location keys, see locationKey
+    statuses: MissionStatus[];
+    area: GeoArea | null; // Drawn on the map; only missions with coordinates inside it match
+    sort: MissionSort;
+}
+
+export const EMPTY_FILTER: MissionFilter = { query: '', anyOf: '', dateFrom: '', dateTo: '', locations: [], statuses: [], area: null, sort: 'created_desc' };
+
+export const normalizeText = (text: string): string => text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/ـ/g, '')
+    .replace(/[أإآٱ]/g, 'ا')
+    .replace(/ة/g, 'ه')
+    .replace(/ى/g, 'ي')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+export const locationKey = (location: string) => normalizeText(location);
+
+// Missions are replaced, never mutated, on update, so the folded text can be cached per object
+const searchTextCache = new WeakMap<Mission, string>();
+
+const searchText = (mission: Mission): string => {
+    let text = searchTextCache.get(mission);
+    if (text === undefined) {
+        text = normalizeText([
+            mission.title,
+            mission.location,
+            mission.date,
+            mission.finishDate || '',
+            mission.notes,
+            ...Object.values(mission.customFields || {}),
+            ...(mission.itinerary || []).flatMap(entry => [entry.date, entry.site, entry.activities]),
+        ].filter(Boolean).join('\n'));
+        searchTextCache.set(mission, text);
+    }
+    return text;
+};
+
+export const isFilterActive = (filter: MissionFilter) =>
+    !!(filter.query.trim() || filter.anyOf.trim() || filter.dateFrom || filter.dateTo || filter.locations.length > 0 || filter.statuses.length > 0 || filter.area);
+
+const compareMissions = (sort: MissionSort) => (a: Mission, b: Mission): number => {
+    switch (sort) {
+        case 'date_asc': return a.date.localeCompare(b.date) || (a.startTime || '').localeCompare(b.startTime || '');
+        case 'title': return a.title.localeCompare(b.title) || b.date.localeCompare(a.date);
+        case 'location': return a.location.localeCompare(b.location) || b.date.localeCompare(a.date);
+        case 'date_desc': return b.date.localeCompare(a.date) || (b.startTime || '').localeCompare(a.startTime || '');
+        default: return b.createdAt - a.createdAt;
+    }
+};
+
+// A multi-day mission is in a date range it overlaps. Either end may be '' for open-ended.
+export const isMissionInRange = (mission: Mission, from: string, to: string) => {
+    const finishDate = mission.finishDate && mission.finishDate > mission.date ? mission.finishDate : mission.date;
+    return (!from || finishDate >= from) && (!to || mission.date <= to);
+};
+
+export const filterMissions = (missions: Mission[], filter: MissionFilter, today: string): Mission[] => {
+    const words = normalizeText(filter.query).split(' ').filter(Boolean);
+    const alternatives = normalizeText(filter.anyOf).split(' ').filter(Boolean);
+    return missions.filter(mission => {
+        if (!isMissionInRange(mission, filter.dateFrom, filter.dateTo)) return false;
+        if (filter.locations.length > 0 && !filter.locations.includes(locationKey(mission.location))) return false;
+        if (filter.statuses.length > 0 && !filter.statuses.includes(getMissionStatus(mission, today))) return false;
+        if (filter.area && !isMissionInArea(mission, filter.area)) return false;
+        if (words.length > 0 || alternatives.length > 0) {
+            const text = searchText(mission);
+            if (!words.every(word => text.includes(word))) return false;
+            if (alternatives.length > 0 && !alternatives.some(word => text.includes(word))) return false;
+        }
+        return true;
+    }).sort(compareMissions(filter.sort));
+};
+
+export interface LocationFacet {
+    key: string;
+    label: string; // Most frequent spelling among the missions
+    count: number;
+}
+
+export const locationFacets = (missions: Mission[]): LocationFacet[] => {
+    const facets = new Map<string, { count: number; labels: Map<string, number> }>();
+    missions.forEach(mission => {
+        const label = mission.location.trim();
+        if (!label) return;
+        const key = locationKey(label);
+        const facet = facets.get(key) || { count: 0, labels: new Map<string, number>() };
+        facet.count++;
+        facet.labels.set(label, (facet.labels.get(label) || 0) + 1);
+        facets.set(key, facet);
+    });
+    return [...facets.entries()]
+        .map(([key, { count, labels }]) => ({ key, count, label: [...labels.entries()].sort((a, b) => b[1] - a[1])[0][0] }))
+        .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+};
+
+// --- Natural-Language Search ---
+// Gemini only turns the question into a filter; matching and every number shown to the
+// user are computed here from the local missions.
+
+export type SearchIntent = NonNullable<AISearchResponse['intent']>;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Maps the AI's answer onto a MissionFilter. Locations are matched against the existing
+// ones by folded substring; when none of them matches, the first becomes a required query instead.
+// The AI's keywords are alternatives (synonyms, singular and plural), so any one of them matches.
+export const filterFromAi = (result: AISearchResponse, missions: Mission[], sort: MissionSort): { filter: MissionFilter; intent: SearchIntent } => {
+    const facets = locationFacets(missions);
+    const locations: string[] = [];
+    const requested = (result.locations || []).filter(location => locationKey(location));
+    requested.forEach(location => {
+        const key = locationKey(location);
+        facets.filter(f => f.key.includes(key) || key.includes(f.key)).forEach(f => { if (!locations.includes(f.key)) locations.push(f.key); });
+    });
+    const unmatched = requested.length > 0 && locations.length === 0 ? requested[0] : '';
+    const intents: SearchIntent[] = ['list', 'count', 'totalDays', 'totalHours'];
+    return {
+        filter: {
+            query: unmatched.replace(/\s+/g, ' ').trim(),
+            anyOf: (result.keywords || '').replace(/\s+/g, ' ').trim(),
+            dateFrom: result.dateFrom && DATE_RE.test(result.dateFrom) ? result.dateFrom : '',
+            dateTo: result.dateTo && DATE_RE.test(result.dateTo) ? result.dateTo : '',
+            locations,
+            statuses: MISSION_STATUSES.filter(status => (result.statuses || []).includes(status)),
+            area: null,
+            sort,
+        },
+        intent: result.intent && intents.includes(result.intent) ? result.intent : 'list',
+    };
+};
+
+// Count, distinct field days and working time of the matching missions, limited to the filter's date range
+export const aggregateMissions = (missions: Mission[], filter: MissionFilter): { count: number; days: number; minutes: number } => {
+    if (missions.length === 0) return { count: 0, days: 0, minutes: 0 };
+    const start = filter.dateFrom || missions.reduce((min, m) => (m.date < min ? m.date : min), missions[0].date);
+    const end = filter.dateTo || missions.reduce((max, m) => {
+        const finish = m.finishDate && m.finishDate > m.date ? m.finishDate : m.date;
+        return finish > max ? finish : max;
+    }, missions[0].date);
+    const summary = summarizeMissions(missions, start, end);
+    return { count: missions.length, days: summary.totalDays, minutes: summary.totalMinutes };
+};
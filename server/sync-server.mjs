@@ -0,0 +1,378 @@
+// --- MissionLog Sync Server ---
+// A single-file Node.js server without dependencies, for syncing devices through a machine
+// you control. Every accepted write gets the next sequence number, which is also the record's
+// revision. Deleted records are kept as tombstones so that every device learns of the deletion.
+//
+//   node server/sync-server.mjs
+//
+// Environment:
+//   HOST            Address to listen on (default 127.0.0.1, this machine only). Any other
+//                   address needs SYNC_TOKEN or TEAM_MEMBERS, or the server refuses to start.
+//   PORT            Port to listen on (default 8787)
+//   SYNC_TOKEN      Bearer token clients must send; the server is open when unset
+//   SYNC_DATA       JSON file the records are kept in (default ./sync-data.json)
+//   TEAM_MEMBERS    JSON file listing a team's members, for team review (see below)
+//   CALENDAR_TOKEN  Enables the calendar feed at /calendar.ics?token=<CALENDAR_TOKEN> (see below)
+//
+// A team server gives every member their own token, name and role:
+//
+//   [{ "token": "…", "name": "Amina Haddad", "role": "supervisor" }, { "token": "…", "name": "Omar Said", "role": "inspector" }]
+//
+// Reviews are only accepted from members. The server records who added each review event and
+// when, and only supervisors may approve or request changes, so an approval on a report
+// cannot be made up on the device that prints it. Member tokens only read and write reviews, so
+// nobody's missions, profiles, templates or settings reach the rest of the team.
+//
+// Calendar apps subscribe to a URL and cannot send a bearer token, so the feed of synced missions
+// has its own token in the query string. It only gives read access to missions.
+//
+// Records are stored as plain JSON, so keep the data file on a disk you trust and put the
+// server behind HTTPS when it is reachable from other machines.
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const HOST = process.env.HOST || '127.0.0.1';
+const PORT = Number(process.env.PORT) || 8787;
+const TOKEN = process.env.SYNC_TOKEN || '';
+const DATA_FILE = path.resolve(process.env.SYNC_DATA || 'sync-data.json');
+const MEMBERS_FILE = process.env.TEAM_MEMBERS ? path.resolve(process.env.TEAM_MEMBERS) : '';
+const CALENDAR_TOKEN = process.env.CALENDAR_TOKEN || '';
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // Templates are base64 DOCX files
+// `reviews` carries a team's review requests (team.ts); personal devices ignore it
+const COLLECTIONS = new Set(['missions', 'templates', 'profiles', 'settings', 'reviews']);
+const REVIEW_EVENTS = new Set(['submitted', 'comment', 'changes_requested', 'approved']);
+const SUPERVISOR_EVENTS = new Set(['changes_requested', 'approved']);
+// Left out of the version an approval is given for, as they change without the content changing
+const UNREVIEWED_FIELDS = ['attachments', 'review', 'status', 'updatedAt', 'profileId'];
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const loadData = () => {
+    try {
+        return JSON.parse(fs.readFileSync(DATA_FILE, 'utf8'));
+    } catch (e) {
+        if (e.code === 'ENOENT') return { seq: 0, records: {} };
+        throw e;
+    }
+};
+
+// { seq, records: { "<collection>/<id>": record } }
+const data = loadData();
+
+const loadMembers = () => {
+    if (!MEMBERS_FILE) return new Map();
+    const members = JSON.parse(fs.readFileSync(MEMBERS_FILE, 'utf8'));
+    if (!Array.isArray(members)) throw new Error(`${MEMBERS_FILE} must contain a list of members.`);
+    members.forEach(m => {
+        if (!m || typeof m.token !== 'string' || !m.token || typeof m.name !== 'string' || !m.name.trim() || !['inspector', 'supervisor'].includes(m.role)) {
+            throw new Error(`Every member in ${MEMBERS_FILE} needs a token, a name and the role "inspector" or "supervisor".`);
+        }
+    });
+    return new Map(members.map(m => [m.token, { name: m.name.trim(), role: m.role }]));
+};
+
+// Member by token
+const members = loadMembers();
+
+const fail = (status, message) => Object.assign(new Error(message), { status });
+
+// Written to a temporary file first so a crash never leaves half a file behind
+const saveData = () => {
+    const tmp = `${DATA_FILE}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(data));
+    fs.renameSync(tmp, DATA_FILE);
+};
+
+const send = (res, status, body) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+        size += chunk.length;
+        if (size > MAX_BODY_BYTES) {
+            reject(fail(413, 'Request body too large.'));
+            req.destroy();
+            return;
+        }
+        chunks.push(chunk);
+    });
+    req.on('end', () => {
+        try {
+            resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+        } catch (e) {
+            reject(fail(400, 'Request body is not valid JSON.'));
+        }
+    });
+    req.on('error', reject);
+});
+
+// GET /api/changes?since=<seq> → every record written after `since`, oldest first.
+// Team members only see reviews, never anyone's personal data.
+const getChanges = (url, member) => {
+    const since = Number(url.searchParams.get('since')) || 0;
+    const changes = Object.values(data.records).filter(r => r.rev > since && (!member || r.collection === 'reviews')).sort((a, b) => a.rev - b.rev);
+    return { seq: data.seq, changes };
+};
+
+// --- Calendar Feed ---
+// The same events as missionsToIcs in ics.ts, in the zone chosen in the synced settings
+// (this machine's zone when none was chosen).
+
+const pad = (n) => String(n).padStart(2, '0');
+
+const zoneOffset = (instant, zone) => {
+    const parts = {};
+    new Intl.DateTimeFormat('en-US', {
+        timeZone: zone, hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(new Date(instant)).forEach(p => { if (p.type !== 'literal') parts[p.type] = Number(p.value); });
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - Math.floor(instant / 1000) * 1000;
+};
+
+const zonedTimeToUtc = (date, time, zone) => {
+    const [y, mo, d] = date.split('-').map(Number);
+    const [h, mi] = time.split(':').map(Number);
+    const wallClock = Date.UTC(y, mo - 1, d, h, mi);
+    return wallClock - zoneOffset(wallClock - zoneOffset(wallClock, zone), zone);
+};
+
+const formatUtc = (timestamp) => {
+    const d = new Date(timestamp);
+    return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+};
+
+const nextDay = (date) => {
+    const d = new Date(`${date}T00:00:00Z`);
+    d.setUTCDate(d.getUTCDate() + 1);
+    return d.toISOString().split('T')[0];
+};
+
+const escapeText = (text) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// 75 octets per line, without splitting a UTF-8 character
+const foldLine = (line) => {
+    const chunks = [];
+    let current = '';
+    let octets = 0;
+    for (const ch of line) {
+        const size = Buffer.byteLength(ch);
+        if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+            chunks.push(current);
+            current = '';
+            octets = 0;
+        }
+        current += ch;
+        octets += size;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+};
+
+const missionEvent = (mission, zone) => {
+    const finishDate = mission.finishDate && mission.finishDate >= mission.date ? mission.finishDate : mission.date;
+    const lines = ['BEGIN:VEVENT', `UID:${mission.id}@missionlog.app`, `DTSTAMP:${formatUtc(mission.updatedAt || mission.createdAt)}`, `CREATED:${formatUtc(mission.createdAt)}`];
+    if (mission.startTime && mission.finishTime) {
+        const start = zonedTimeToUtc(mission.date, mission.startTime, zone);
+        let end = zonedTimeToUtc(finishDate, mission.finishTime, zone);
+        if (end <= start) end = zonedTimeToUtc(nextDay(finishDate), mission.finishTime, zone);
+        lines.push(`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`);
+    } else {
+        lines.push(`DTSTART;VALUE=DATE:${mission.date.replace(/-/g, '')}`, `DTEND;VALUE=DATE:${nextDay(finishDate).replace(/-/g, '')}`);
+    }
+    lines.push(`SUMMARY:${escapeText(mission.title || '')}`);
+    if (mission.location) lines.push(`LOCATION:${escapeText(mission.location)}`);
+    const description = [mission.notes || '', ...(mission.itinerary || []).map(entry => {
+        const hours = entry.startTime || entry.finishTime ? ` ${entry.startTime || '--:--'} - ${entry.finishTime || '--:--'}` : '';
+        return `${entry.date}${hours}${entry.site ? ` ${entry.site}` : ''}${entry.activities ? `: ${entry.activities}` : ''}`;
+    })].filter(Boolean).join('\n');
+    if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+const isZone = (zone) => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: zone });
+        return true;
+    } catch (e) {
+        return false;
+    }
+};
+
+// GET /calendar.ics?token=<CALENDAR_TOKEN> → every synced mission as a VCALENDAR
+const calendarFeed = () => {
+    const chosen = data.records['settings/settings']?.data?.timeZone;
+    const zone = chosen && isZone(chosen) ? chosen : Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+    const missions = Object.values(data.records).filter(r => r.collection === 'missions' && !r.deleted && r.data?.date).map(r => r.data);
+    const lines = [
+        'BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//MissionLog AI//Missions//EN', 'CALSCALE:GREGORIAN', 'METHOD:PUBLISH',
+        `X-WR-TIMEZONE:${zone}`, 'X-WR-CALNAME:MissionLog', 'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+        ...missions.flatMap(mission => missionEvent(mission, zone)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Same as hashValue in sync.ts, which the app compares an approval's version with
+const stableStringify = (value) => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).filter(k => value[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+const hashValue = (value) => {
+    const text = stableStringify(value);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(36)}:${text.length}`;
+};
+
+const missionVersion = (mission) => {
+    const content = { ...mission };
+    UNREVIEWED_FIELDS.forEach(field => { delete content[field]; });
+    return hashValue(content);
+};
+
+// A review can only grow. Events the server has not seen yet are stamped with the member who
+// sent them and the server's time; whatever the device claimed is ignored. Only the member
+// who submitted the mission may change its content, and only supervisors may decide on it.
+const reviewRecord = (current, change, member) => {
+    if (!member) throw fail(403, 'Reviews can only be sent with a team member token.');
+    const item = change.data;
+    if (change.deleted || !item || typeof item.mission !== 'object' || !item.review || !Array.isArray(item.review.history)) {
+        throw fail(400, 'Expected a review with a mission and its history.');
+    }
+    const stored = current && !current.deleted ? current : null;
+    const owner = stored ? stored.owner : member.name;
+    const isOwner = owner === member.name;
+    if (!isOwner && member.role !== 'supervisor') throw fail(403, 'Only the member who submitted a mission or a supervisor can change its review.');
+    // Only the owner may change the mission itself; everyone else reviews the stored copy
+    const mission = isOwner ? item.mission : stored.data.mission;
+    const version = missionVersion(mission);
+    const known = new Map((stored ? stored.data.review.history : []).map(e => [e.id, e]));
+    const added = item.review.history.filter(e => e && typeof e.id === 'string' && e.id && !known.has(e.id));
+    added.forEach(e => {
+        if (!REVIEW_EVENTS.has(e.type)) throw fail(400, `Unknown review event "${e.type}".`);
+        if (SUPERVISOR_EVENTS.has(e.type) && member.role !== 'supervisor') throw fail(403, 'Only supervisors can approve missions or request changes.');
+        if (e.type === 'submitted' && !isOwner) throw fail(403, 'Only the member who reported a mission can submit it.');
+        // The device sends the version it approved, so an approval never covers content the supervisor did not see
+        if (e.type === 'approved' && e.version !== version) throw fail(409, 'The mission was changed after it was approved. Review it again.');
+    });
+    const at = Date.now();
+    const history = [...known.values(), ...added.map(e => ({
+        id: e.id,
+        type: e.type,
+        by: member.name,
+        role: member.role,
+        at,
+        ...(typeof e.comment === 'string' && e.comment ? { comment: e.comment } : {}),
+        ...(e.type === 'approved' ? { version } : {}),
+    }))];
+    const decisions = history.filter(e => e.type !== 'comment');
+    return {
+        owner,
+        data: {
+            mission,
+            reporter: isOwner ? item.reporter : stored.data.reporter,
+            review: { status: decisions.length > 0 ? decisions[decisions.length - 1].type : 'submitted', history },
+        },
+    };
+};
+
+// POST /api/push { deviceId, deviceName, changes: [{ collection, id, baseRev, deleted, data, changedAt }] }
+// A change is accepted only if the record is still at `baseRev`; otherwise the current record
+// is returned as a conflict and the device decides which version wins.
+const pushChanges = (body, member) => {
+    if (!body || typeof body.deviceId !== 'string' || !Array.isArray(body.changes)) {
+        throw fail(400, 'Expected { deviceId, deviceName, changes }.');
+    }
+    const accepted = [];
+    const conflicts = [];
+    // Everything is checked before anything is written, so a rejected review rejects the whole push
+    const writes = [];
+    body.changes.forEach(change => {
+        if (!change || !COLLECTIONS.has(change.collection) || typeof change.id !== 'string' || !change.id) return;
+        if (member && change.collection !== 'reviews') throw fail(403, 'Team member tokens can only send reviews.');
+        const key = `${change.collection}/${change.id}`;
+        const current = data.records[key];
+        if (current && current.rev !== (Number(change.baseRev) || 0)) {
+            conflicts.push(current);
+            return;
+        }
+        writes.push({ key, change, review: change.collection === 'reviews' ? reviewRecord(current, change, member) : null });
+    });
+    writes.forEach(({ key, change, review }) => {
+        const rev = ++data.seq;
+        data.records[key] = {
+            collection: change.collection,
+            id: change.id,
+            rev,
+            deleted: !!change.deleted,
+            data: review ? review.data : change.deleted ? undefined : change.data,
+            changedAt: Number(change.changedAt) || Date.now(),
+            deviceId: body.deviceId,
+            deviceName: member ? member.name : typeof body.deviceName === 'string' ? body.deviceName : '',
+            ...(review ? { owner: review.owner } : {}),
+        };
+        accepted.push({ collection: change.collection, id: change.id, rev });
+    });
+    if (accepted.length > 0) saveData();
+    return { seq: data.seq, accepted, conflicts };
+};
+
+const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, CORS_HEADERS);
+        res.end();
+        return;
+    }
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (CALENDAR_TOKEN && req.method === 'GET' && url.pathname === '/calendar.ics') {
+        if (url.searchParams.get('token') !== CALENDAR_TOKEN) return send(res, 401, { error: 'Unauthorized.' });
+        res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache', ...CORS_HEADERS });
+        res.end(calendarFeed());
+        return;
+    }
+    const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+    const member = members.get(token) || null;
+    if ((TOKEN || members.size > 0) && !member && !(TOKEN && token === TOKEN)) {
+        send(res, 401, { error: 'Unauthorized.' });
+        return;
+    }
+    try {
+        if (req.method === 'GET' && url.pathname === '/api/health') return send(res, 200, { ok: true, seq: data.seq });
+        if (req.method === 'GET' && url.pathname === '/api/member') return member ? send(res, 200, member) : send(res, 403, { error: 'This token does not belong to a team member.' });
+        if (req.method === 'GET' && url.pathname === '/api/changes') return send(res, 200, getChanges(url, member));
+        if (req.method === 'POST' && url.pathname === '/api/push') return send(res, 200, pushChanges(await readBody(req), member));
+        send(res, 404, { error: 'Not found.' });
+    } catch (e) {
+        if (!e.status) console.error(e);
+        send(res, e.status || 500, { error: e.status ? e.message : 'Internal error.' });
+    }
+});
+
+const isLoopback = (host) => host === 'localhost' || host === '::1' || /^127\./.test(host);
+
+if (!isLoopback(HOST) && !TOKEN && members.size === 0) {
+    console.error(`Refusing to listen on ${HOST} without SYNC_TOKEN or TEAM_MEMBERS, as anyone on the network could read and change the data.`);
+    process.exit(1);
+}
+
+server.listen(PORT, HOST, () => {
+    console.log(`MissionLog sync server listening on http://${HOST.includes(':') ? `[${HOST}]` : HOST}:${PORT} (data: ${DATA_FILE}${TOKEN ? ', token required' : ''}${members.size > 0 ? `, ${members.size} team members` : ''})`);
+});
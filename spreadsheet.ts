@@ -0,0 +1,263 @@
+import { Language, Mission, UserProfile } from './types';
+import { TRANSLATIONS } from './constants';
+import { humanizeTag } from './templates';
+import { missionDuration } from './activityReport';
+
+declare const XLSX: any;
+
+// --- Spreadsheet Export ---
+// One row per mission with every field, the computed duration and the reporter's
+// identifiers, so missions can be reconciled against travel allowances in Excel.
+
+export const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+type Cell = string | number | Date;
+
+interface SpreadsheetData {
+    headers: string[];
+    rows: Cell[][];
+}
+
+// Direction marks that Intl inserts around Arabic date separators
+const BIDI_MARKS_RE = /[\u200e\u200f\u061c]/g;
+
+// Dates follow the locale's day/month/year order but keep Latin digits so spreadsheets can still sort them
+const dateFormatter = (language: Language) => new Intl.DateTimeFormat(`${language === 'ar' ? 'ar-EG' : 'en-US'}-u-nu-latn`, { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: 'UTC' });
+
+// Excel number format with the same field order as the locale, e.g. "dd/mm/yyyy" or "mm/dd/yyyy"
+const excelDatePattern = (language: Language) => dateFormatter(language)
+    .formatToParts(new Date(Date.UTC(2000, 0, 2)))
+    .map(part => part.type === 'day' ? 'dd' : part.type === 'month' ? 'mm' : part.type === 'year' ? 'yyyy' : part.value.replace(BIDI_MARKS_RE, ''))
+    .join('');
+
+// SheetJS converts Date cells using local time, so calendar dates are built at local midnight
+const toLocalDate = (iso: string) => {
+    const [y, m, d] = iso.split('-').map(Number);
+    return new Date(y, m - 1, d);
+};
+
+const buildSpreadsheet = (missions: Mission[], profile: UserProfile, language: Language, formatDate: (iso: string) => Cell, formatTimestamp: (ms: number) => Cell): SpreadsheetData => {
+    const t = TRANSLATIONS[language] || TRANSLATIONS['en'];
+    const customKeys = Array.from(new Set(missions.flatMap(m => Object.keys(m.customFields || {}))));
+    const headers = [
+        'ID', t.title, t.location, t.startDate, t.endDate, t.startTime, t.endTime, t.days, t.hours, t.notes, t.itinerary, t.attachments,
+        ...customKeys.map(humanizeTag),
+        t.fullName, t.profession, t.cni, t.ppn, t.created, t.updated
+    ];
+    const rows = missions.map(m => {
+        const { days, minutes } = missionDuration(m);
+        return [
+            m.id,
+            m.title,
+            m.location,
+            formatDate(m.date),
+            formatDate(m.finishDate || m.date),
+            m.startTime || '',
+            m.finishTime || '',
+            days,
+            Math.round(minutes / 60 * 100) / 100,
+            m.notes,
+            (m.itinerary || []).map(e => `${e.date} ${e.site}: ${e.activities}${e.startTime || e.finishTime ? ` (${e.startTime || '--:--'} - ${e.finishTime || '--:--'})` : ''}`).join('\n'),
+            (m.attachments || []).map(a => a.name).join(', '),
+            ...customKeys.map(key => m.customFields?.[key] || ''),
+            profile.fullName,
+            profile.profession,
+            profile.cni,
+            profile.ppn,
+            formatTimestamp(m.createdAt),
+            m.updatedAt ? formatTimestamp(m.updatedAt) : ''
+        ];
+    });
+    return { headers, rows };
+};
+
+// Spreadsheet apps run text starting with one of these as a formula; a leading ' keeps it text.
+// XLSX cells are typed, so only the CSV needs this.
+const FORMULA_START_RE = /^[=+\-@\t\r]/;
+
+const csvEscape = (value: Cell) => {
+    const raw = String(value ?? '');
+    const text = typeof value === 'string' && FORMULA_START_RE.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// UTF-8 with a byte order mark, which Excel needs to read Arabic text correctly
+export const missionsToCsv = (missions: Mission[], profile: UserProfile, language: Language): Blob => {
+    const formatter = dateFormatter(language);
+    const formatDate = (iso: string) => iso ? formatter.format(new Date(`${iso}T00:00:00Z`)).replace(BIDI_MARKS_RE, '') : '';
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const formatTimestamp = (ms: number) => {
+        const d = new Date(ms);
+        return `${formatDate(`${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`)} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+    };
+    const { headers, rows } = buildSpreadsheet(missions, profile, language, formatDate, formatTimestamp);
+    const lines = [headers, ...rows].map(row => row.map(csvEscape).join(','));
+    return new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+};
+
+export const missionsToXlsx = (missions: Mission[], profile: UserProfile, language: Language): Blob => {
+    if (typeof XLSX === 'undefined') {
+        throw new Error("Spreadsheet library not loaded. Internet connection required for first load.");
+    }
+    const { headers, rows } = buildSpreadsheet(missions, profile, language, iso => iso ? toLocalDate(iso) : '', ms => new Date(ms));
+    const pattern = excelDatePattern(language);
+    const sheet = XLSX.utils.aoa_to_sheet([headers, ...rows], { cellDates: true, dateNF: pattern });
+    // The last two columns are the created/updated timestamps, which also show the time
+    rows.forEach((_, r) => [headers.length - 2, headers.length - 1].forEach(c => {
+        const cell = sheet[XLSX.utils.encode_cell({ r: r + 1, c })];
+        if (cell && cell.t === 'd') cell.z = `${pattern} hh:mm`;
+    }));
+    sheet['!cols'] = headers.map((h, i) => ({ wch: Math.min(40, Math.max(h.length, ...rows.map(r => r[i] instanceof Date ? 10 : String(r[i]).length)) + 2) }));
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'Missions');
+    if (language === 'ar') workbook.Workbook = { Views: [{ RTL: true }] };
+    return new Blob([XLSX.write(workbook, { bookType: 'xlsx', type: 'array', cellDates: true })], { type: XLSX_MIME });
+};
+
+export const spreadsheetFileName = (start: string, end: string, ext: 'csv' | 'xlsx') => `Missions_${start}_to_${end}.${ext}`;
+
+// --- Spreadsheet Import ---
+
+export interface ParsedSheet {
+    headers: string[];
+    rows: any[][]; // Raw cell values: strings, numbers or Dates (XLSX date cells)
+}
+
+// Reads the first sheet of a CSV or XLSX file. CSV cells are kept as text so that
+// dates and times are validated exactly as typed.
+export const readSpreadsheet = async (file: File): Promise<ParsedSheet> => {
+    if (typeof XLSX === 'undefined') {
+        throw new Error("Spreadsheet library not loaded. Internet connection required for first load.");
+    }
+    const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', raw: isCsv, cellDates: true });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error("The file contains no sheet.");
+    const [headerRow, ...rows]: any[][] = XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '' });
+    if (!headerRow || rows.length === 0) throw new Error("The file has no data rows.");
+    return {
+        headers: headerRow.map((h, i) => String(h).trim() || `#${i + 1}`),
+        rows: rows.filter(r => r.some(cell => String(cell).trim() !== ''))
+    };
+};
+
+// Mission fields a column can be mapped to. Custom template fields are mapped as `custom:<tag>`.
+export const IMPORT_FIELDS = ['title', 'location', 'date', 'finishDate', 'startTime', 'finishTime', 'notes'] as const;
+export type ImportField = typeof IMPORT_FIELDS[number];
+
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[\s_.-]+/g, '');
+
+// Suggests a mapping by comparing headers with field names and their English and Arabic labels,
+// so files exported by MissionLog map automatically. '' means the column is not imported.
+export const guessMapping = (headers: string[], customKeys: string[]): string[] => {
+    const candidates: Record<string, string[]> = {
+        title: ['title'], location: ['location'], date: ['date', 'startDate'], finishDate: ['finishDate', 'endDate'],
+        startTime: ['startTime'], finishTime: ['finishTime', 'endTime'], notes: ['notes'],
+    };
+    const labels = new Map<string, string>();
+    Object.entries(candidates).forEach(([field, keys]) => keys.forEach(key => {
+        labels.set(normalizeHeader(key), field);
+        Object.values(TRANSLATIONS).forEach(t => {
+            const label = (t as Record<string, string>)[key];
+            if (label) labels.set(normalizeHeader(label), field);
+        });
+    }));
+    customKeys.forEach(key => {
+        labels.set(normalizeHeader(key), `custom:${key}`);
+        labels.set(normalizeHeader(humanizeTag(key)), `custom:${key}`);
+    });
+    const used = new Set<string>();
+    return headers.map(header => {
+        const field = labels.get(normalizeHeader(header));
+        if (!field || used.has(field)) return '';
+        used.add(field);
+        return field;
+    });
+};
+
+export interface ImportRow {
+    line: number; // Row number in the file, counting the header as row 1
+    mission: Mission | null; // Null when the row has errors
+    errors: string[];
+    duplicate: boolean; // Same date, title and location as an existing mission or an earlier row
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_RE = /^([01]\d|2[0-3]):[0-5]\d$/;
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// XLSX date and time cells arrive as Dates (or day fractions for bare times); text is used as is
+const cellText = (value: any, kind: 'date' | 'time' | 'text'): string => {
+    if (value instanceof Date) {
+        return kind === 'time'
+            ? `${pad(value.getHours())}:${pad(value.getMinutes())}`
+            : `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    }
+    if (kind === 'time' && typeof value === 'number' && value >= 0 && value < 1) {
+        const minutes = Math.round(value * 24 * 60);
+        return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+    }
+    return String(value ?? '').trim();
+};
+
+const isValidDate = (iso: string) => {
+    if (!DATE_RE.test(iso)) return false;
+    const [y, m, d] = iso.split('-').map(Number);
+    const date = new Date(Date.UTC(y, m - 1, d));
+    return date.getUTCMonth() === m - 1 && date.getUTCDate() === d;
+};
+
+const duplicateKey = (m: { date: string; title: string; location: string }) =>
+    [m.date, m.title, m.location].map(v => v.trim().toLocaleLowerCase()).join('|');
+
+export const buildImportRows = (sheet: ParsedSheet, mapping: string[], existing: Mission[]): ImportRow[] => {
+    const seen = new Set(existing.map(duplicateKey));
+    const now = Date.now();
+    return sheet.rows.map((row, index) => {
+        const values: Partial<Record<ImportField, string>> = {};
+        const customFields: Record<string, string> = {};
+        mapping.forEach((field, column) => {
+            if (!field) return;
+            const raw = row[column];
+            if (field.startsWith('custom:')) {
+                customFields[field.slice(7)] = cellText(raw, 'text');
+                return;
+            }
+            const kind = field === 'date' || field === 'finishDate' ? 'date' : field === 'startTime' || field === 'finishTime' ? 'time' : 'text';
+            values[field as ImportField] = cellText(raw, kind);
+        });
+
+        const errors: string[] = [];
+        const title = values.title || '';
+        const date = values.date || '';
+        if (!title) errors.push("Title is missing.");
+        if (!isValidDate(date)) errors.push(date ? `Invalid date "${date}" (expected YYYY-MM-DD).` : "Date is missing.");
+        if (values.finishDate && !isValidDate(values.finishDate)) errors.push(`Invalid end date "${values.finishDate}" (expected YYYY-MM-DD).`);
+        else if (values.finishDate && values.finishDate < date) errors.push("End date is before the start date.");
+        (['startTime', 'finishTime'] as const).forEach(field => {
+            if (values[field] && !TIME_RE.test(values[field]!)) errors.push(`Invalid time "${values[field]}" (expected HH:mm).`);
+        });
+
+        const key = duplicateKey({ date, title, location: values.location || '' });
+        const duplicate = seen.has(key);
+        seen.add(key);
+
+        return {
+            line: index + 2,
+            errors,
+            duplicate,
+            mission: errors.length > 0 ? null : {
+                id: Math.random().toString(36).substr(2, 9),
+                title,
+                location: values.location || '',
+                date,
+                finishDate: values.finishDate || undefined,
+                startTime: values.startTime || undefined,
+                finishTime: values.finishTime || undefined,
+                notes: values.notes || '',
+                createdAt: now + index,
+                ...(Object.keys(customFields).length > 0 ? { customFields } : {})
+            }
+        };
+    });
+};
@@ -0,0 +1,28 @@
+import { Mission, MissionStatus } from './types';
+
+// --- Mission Status ---
+// Missions without a stored status follow the calendar: planned before the start date,
+// in progress until the finish date, completed afterwards. A status set by hand or by
+// generating a report is stored on the Mission and wins over the dates.
+
+export const MISSION_STATUSES: MissionStatus[] = ['planned', 'in_progress', 'completed', 'reported'];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// A date on the device clock, as YYYY-MM-DD
+export const localDate = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const localToday = () => localDate(new Date());
+
+export const getMissionStatus = (mission: Mission, today: string = localToday()): MissionStatus => {
+    if (mission.status) return mission.status;
+    if (mission.date > today) return 'planned';
+    const finishDate = mission.finishDate && mission.finishDate > mission.date ? mission.finishDate : mission.date;
+    return finishDate >= today ? 'in_progress' : 'completed';
+};
+
+// Status of a day with several missions: the one that still needs the most attention
+export const earliestStatus = (statuses: MissionStatus[]): MissionStatus | null => {
+    const found = MISSION_STATUSES.find(status => statuses.includes(status));
+    return found || null;
+};
@@ -0,0 +1,448 @@
+import { LockConfig, Mission, PendingDraft, SealedValue, Settings, SyncState, TeamState, Template, UserProfile, StoredAttachment } from './types';
+import { STORAGE_KEY_MISSIONS, STORAGE_KEY_SETTINGS, STORAGE_KEY_USER_PROFILE } from './constants';
+import { DEFAULT_PROFILE_ID } from './profiles';
+import { decryptBytes, decryptJson, encryptBytes, encryptJson } from './lock';
+
+// --- IndexedDB Storage Layer ---
+// Missions, templates and the profile each live in their own object store so that
+// large template files no longer share the ~5 MB localStorage quota with mission data.
+
+const DB_NAME = 'missionlog';
+const DB_VERSION = 4;
+
+const STORE_MISSIONS = 'missions';
+const STORE_TEMPLATES = 'templates';
+const STORE_PROFILE = 'profile'; // UserProfiles keyed by id
+const STORE_META = 'meta'; // Settings (without templates) and internal flags
+const STORE_DRAFTS = 'drafts'; // Offline Magic Fill queue
+const STORE_ATTACHMENTS = 'attachments'; // Photo and file blobs, referenced from Mission.attachments
+
+const LEGACY_PROFILE_KEY = 'current'; // The only profile before version 4
+const SETTINGS_KEY = 'settings';
+const ACTIVE_PROFILE_KEY = 'activeProfile';
+const MIGRATED_KEY = 'migratedFromLocalStorage';
+const LOCK_KEY = 'lock';
+const SYNC_KEY = 'sync';
+const TEAM_KEY = 'team';
+const PRIVATE_SETTINGS_KEY = 'privateSettings'; // Settings other than the preferences, sealed
+const SEALED_META_KEYS = [SYNC_KEY, TEAM_KEY];
+
+type Migration = (db: IDBDatabase, tx: IDBTransaction) => void;
+
+// Schema upgrades, keyed by the version they upgrade TO. They run in order inside the
+// versionchange transaction, so a user jumping from v1 to v3 gets both v2 and v3.
+// To add a Mission field: bump DB_VERSION and add an entry that walks the missions
+// store with `upgradeRecords` and fills in a default for the new field.
+const MIGRATIONS: Record<number, Migration> = {
+    1: (db) => {
+        db.createObjectStore(STORE_MISSIONS, { keyPath: 'id' });
+        db.createObjectStore(STORE_TEMPLATES, { keyPath: 'id' });
+        db.createObjectStore(STORE_PROFILE);
+        db.createObjectStore(STORE_META);
+    },
+    2: (db) => {
+        db.createObjectStore(STORE_DRAFTS, { keyPath: 'id' });
+    },
+    3: (db) => {
+        db.createObjectStore(STORE_ATTACHMENTS, { keyPath: 'id' }).createIndex('missionId', 'missionId');
+    },
+    4: (_db, tx) => {
+        const profiles = tx.objectStore(STORE_PROFILE);
+        const request = profiles.get(LEGACY_PROFILE_KEY);
+        request.onsuccess = () => {
+            if (!request.result) return;
+            profiles.put({ ...request.result, id: DEFAULT_PROFILE_ID }, DEFAULT_PROFILE_ID);
+            profiles.delete(LEGACY_PROFILE_KEY);
+            tx.objectStore(STORE_META).put(DEFAULT_PROFILE_ID, ACTIVE_PROFILE_KEY);
+        };
+        upgradeRecords<Mission>(tx, STORE_MISSIONS, m => ({ ...m, profileId: m.profileId || DEFAULT_PROFILE_ID }));
+    },
+};
+
+// Rewrites every record of a store in place. Intended for use inside MIGRATIONS.
+export const upgradeRecords = <T>(tx: IDBTransaction, storeName: string, upgrade: (record: T) => T) => {
+    const request = tx.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) return;
+        cursor.update(upgrade(cursor.value as T));
+        cursor.continue();
+    };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error("IndexedDB is not supported in this browser."));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (event) => {
+            const db = request.result;
+            const tx = request.transaction!;
+            for (let v = event.oldVersion + 1; v <= DB_VERSION; v++) {
+                MIGRATIONS[v]?.(db, tx);
+            }
+        };
+        request.onsuccess = () => {
+            const db = request.result;
+            // Another tab upgraded the schema; drop our connection so it can proceed.
+            db.onversionchange = () => { db.close(); dbPromise = null; };
+            resolve(db);
+        };
+        request.onerror = () => { dbPromise = null; reject(request.error); };
+        request.onblocked = () => console.warn("IndexedDB upgrade blocked by another open tab.");
+    });
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const txDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+});
+
+// --- Encryption at Rest ---
+// With the app lock on, records of the sealed stores (missions, templates, profiles, drafts),
+// the settings other than language and theme, and sync and team state are saved as { id, sealed } and attachment blobs as ciphertext with an `iv`. Records say
+// whether they are sealed, so a store can hold both kinds while the lock is being turned on
+// or off, and an interrupted switch never leaves data unreadable.
+
+// Key of the unlocked app; null without a lock and while locked
+let dataKey: CryptoKey | null = null;
+
+export const setDataKey = (key: CryptoKey | null) => { dataKey = key; };
+
+// Set while resealAll runs. Writes started meanwhile wait for it and then seal with the new
+// key; resealAll in turn waits for the writes already running. Otherwise a save during the
+// switch could seal with a key that is about to be dropped, or leave plaintext behind.
+let resealing: Promise<void> | null = null;
+const runningWrites = new Set<Promise<void>>();
+
+const whenWritable = <A extends any[]>(write: (...args: A) => Promise<void>) => async (...args: A): Promise<void> => {
+    while (resealing) await resealing.catch(() => undefined);
+    const task = write(...args);
+    runningWrites.add(task);
+    try {
+        await task;
+    } finally {
+        runningWrites.delete(task);
+    }
+};
+
+interface SealedRecord {
+    id: string;
+    sealed: SealedValue;
+}
+
+const isSealed = (record: any): record is SealedRecord => !!record && typeof record === 'object' && 'sealed' in record;
+
+const sealRecord = async <T extends { id: string }>(record: T, key: CryptoKey | null): Promise<T | SealedRecord> =>
+    key ? { id: record.id, sealed: await encryptJson(key, record) } : record;
+
+const openRecord = async <T>(record: T | SealedRecord, key: CryptoKey | null): Promise<T> => {
+    if (!isSealed(record)) return record;
+    if (!key) throw new Error("Local data is locked.");
+    return decryptJson<T>(key, record.sealed);
+};
+
+const getAll = async <T>(storeName: string, key: CryptoKey | null = dataKey): Promise<T[]> => {
+    const db = await openDb();
+    const records = await requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll());
+    return Promise.all(records.map(r => openRecord<T>(r, key)));
+};
+
+const getValue = async <T>(storeName: string, key: string): Promise<T | undefined> => {
+    const db = await openDb();
+    return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+const putValue = async (storeName: string, key: string, value: any): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    tx.objectStore(storeName).put(value, key);
+    return txDone(tx);
+};
+
+// Replaces the whole content of a keyPath store with `records` in a single transaction.
+// Records are sealed first: a transaction commits as soon as it waits on anything but IndexedDB.
+const replaceAll = async <T extends { id: string }>(storeName: string, records: T[], key: CryptoKey | null = dataKey): Promise<void> => {
+    const sealed = await Promise.all(records.map(r => sealRecord(r, key)));
+    const db = await openDb();
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+    store.clear();
+    sealed.forEach(r => store.put(r));
+    return txDone(tx);
+};
+
+function readLocalStorage(key: string): any {
+    try {
+        const item = localStorage.getItem(key);
+        return item ? JSON.parse(item) : null;
+    } catch (e) {
+        console.warn(`Failed to parse legacy ${key}, skipping.`);
+        return null;
+    }
+}
+
+// One-time copy of the pre-IndexedDB localStorage data. The legacy keys are only removed
+// once the copy has been committed, so an interrupted migration is simply retried.
+export const migrateFromLocalStorage = async (): Promise<void> => {
+    if (await getValue<boolean>(STORE_META, MIGRATED_KEY)) return;
+
+    const legacyMissions: Mission[] | null = readLocalStorage(STORAGE_KEY_MISSIONS);
+    const legacySettings: Partial<Settings> | null = readLocalStorage(STORAGE_KEY_SETTINGS);
+    const legacyProfile: UserProfile | null = readLocalStorage(STORAGE_KEY_USER_PROFILE);
+
+    const db = await openDb();
+    const tx = db.transaction([STORE_MISSIONS, STORE_TEMPLATES, STORE_PROFILE, STORE_META], 'readwrite');
+    if (Array.isArray(legacyMissions)) {
+        legacyMissions.forEach(m => tx.objectStore(STORE_MISSIONS).put({ ...m, profileId: DEFAULT_PROFILE_ID }));
+    }
+    if (legacySettings) {
+        const { customTemplates, ...rest } = legacySettings;
+        (customTemplates || []).forEach(t => tx.objectStore(STORE_TEMPLATES).put(t));
+        tx.objectStore(STORE_META).put(rest, SETTINGS_KEY);
+    }
+    if (legacyProfile) {
+        tx.objectStore(STORE_PROFILE).put({ ...legacyProfile, id: DEFAULT_PROFILE_ID }, DEFAULT_PROFILE_ID);
+        tx.objectStore(STORE_META).put(DEFAULT_PROFILE_ID, ACTIVE_PROFILE_KEY);
+    }
+    tx.objectStore(STORE_META).put(true, MIGRATED_KEY);
+    await txDone(tx);
+
+    localStorage.removeItem(STORAGE_KEY_MISSIONS);
+    localStorage.removeItem(STORAGE_KEY_SETTINGS);
+    localStorage.removeItem(STORAGE_KEY_USER_PROFILE);
+};
+
+export const loadMissions = () => getAll<Mission>(STORE_MISSIONS);
+
+export const saveMissions = whenWritable((missions: Mission[]) => replaceAll(STORE_MISSIONS, missions));
+
+// Never encrypted, so the lock screen can use the language and theme. Everything else in the
+// settings (the activity template, PDF layouts with their logos, the email recipient) is sealed.
+const PREFERENCE_FIELDS = ['language', 'theme'] as const;
+
+type Preferences = Pick<Settings, typeof PREFERENCE_FIELDS[number]>;
+type PrivateSettings = Omit<Settings, 'customTemplates' | keyof Preferences>;
+
+const splitSettings = (settings: Partial<Settings>): { preferences: Partial<Preferences>; rest: Partial<PrivateSettings> } => {
+    const { customTemplates, language, theme, ...rest } = settings;
+    return { preferences: { ...(language ? { language } : {}), ...(theme ? { theme } : {}) }, rest };
+};
+
+export const loadPreferences = async (): Promise<Partial<Settings>> =>
+    splitSettings((await getValue<Partial<Settings>>(STORE_META, SETTINGS_KEY)) || {}).preferences;
+
+// Older versions kept all settings in plaintext under SETTINGS_KEY; they are moved on the next save
+const readSettings = async (key: CryptoKey | null = dataKey): Promise<Partial<Settings>> => {
+    const plain = (await getValue<Partial<Settings>>(STORE_META, SETTINGS_KEY)) || {};
+    const { id, ...sealed } = (await loadSealedMeta<Partial<PrivateSettings> & { id?: string }>(PRIVATE_SETTINGS_KEY, key)) || {};
+    return { ...plain, ...sealed };
+};
+
+// Settings are persisted without `customTemplates`; those go to their own store.
+export const loadSettings = async (): Promise<Partial<Settings>> => {
+    const saved = await readSettings();
+    const customTemplates = await getAll<Template>(STORE_TEMPLATES);
+    return { ...saved, customTemplates };
+};
+
+// Opens a transaction over the meta store (and `stores`) with the settings already written to it
+const settingsTransaction = async (settings: Partial<Settings>, key: CryptoKey | null, stores: string[] = []): Promise<IDBTransaction> => {
+    const { preferences, rest } = splitSettings(settings);
+    const sealed = await sealRecord({ ...rest, id: PRIVATE_SETTINGS_KEY }, key);
+    const db = await openDb();
+    const tx = db.transaction([STORE_META, ...stores], 'readwrite');
+    tx.objectStore(STORE_META).put(preferences, SETTINGS_KEY);
+    tx.objectStore(STORE_META).put(sealed, PRIVATE_SETTINGS_KEY);
+    return tx;
+};
+
+// The template list last written, so that changing a preference does not rewrite every template
+let savedTemplates: Template[] | null = null;
+
+// Settings and templates are written in one transaction; templates only when the list changed
+export const saveSettings = whenWritable(async (settings: Settings): Promise<void> => {
+    const { customTemplates } = settings;
+    const templatesChanged = customTemplates !== savedTemplates;
+    const sealed = templatesChanged ? await Promise.all(customTemplates.map(t => sealRecord(t, dataKey))) : [];
+    const tx = await settingsTransaction(settings, dataKey, [STORE_TEMPLATES]);
+    if (templatesChanged) {
+        const store = tx.objectStore(STORE_TEMPLATES);
+        store.clear();
+        sealed.forEach(t => store.put(t));
+    }
+    await txDone(tx);
+    savedTemplates = customTemplates;
+});
+
+// A draft left in 'processing' was interrupted by a reload and goes back into the queue.
+export const loadDrafts = async (): Promise<PendingDraft[]> => {
+    const drafts = await getAll<PendingDraft>(STORE_DRAFTS);
+    return drafts
+        .map(d => d.status === 'processing' ? { ...d, status: 'pending' as const } : d)
+        .sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveDrafts = whenWritable((drafts: PendingDraft[]) => replaceAll(STORE_DRAFTS, drafts));
+
+const writeAttachment = async (attachment: StoredAttachment, key: CryptoKey | null): Promise<void> => {
+    let stored: StoredAttachment = { ...attachment, iv: undefined };
+    if (key) {
+        const sealed = await encryptBytes(key, await attachment.blob.arrayBuffer());
+        stored = { ...attachment, blob: new Blob([sealed.data], { type: attachment.blob.type }), iv: sealed.iv };
+    }
+    const db = await openDb();
+    const tx = db.transaction(STORE_ATTACHMENTS, 'readwrite');
+    tx.objectStore(STORE_ATTACHMENTS).put(stored);
+    return txDone(tx);
+};
+
+const readAttachment = async (id: string, key: CryptoKey | null): Promise<StoredAttachment | undefined> => {
+    const stored = await getValue<StoredAttachment>(STORE_ATTACHMENTS, id);
+    if (!stored || !stored.iv) return stored;
+    if (!key) throw new Error("Local data is locked.");
+    const data = await decryptBytes(key, { iv: stored.iv, data: await stored.blob.arrayBuffer() });
+    return { ...stored, blob: new Blob([data], { type: stored.blob.type }), iv: undefined };
+};
+
+export const putAttachment = whenWritable((attachment: StoredAttachment) => writeAttachment(attachment, dataKey));
+
+export const getAttachment = (id: string): Promise<StoredAttachment | undefined> => readAttachment(id, dataKey);
+
+export const deleteAttachments = whenWritable(async (ids: string[]): Promise<void> => {
+    const db = await openDb();
+    const tx = db.transaction(STORE_ATTACHMENTS, 'readwrite');
+    ids.forEach(id => tx.objectStore(STORE_ATTACHMENTS).delete(id));
+    return txDone(tx);
+});
+
+export const loadAttachmentIds = async (): Promise<string[]> => {
+    const db = await openDb();
+    return requestToPromise(db.transaction(STORE_ATTACHMENTS, 'readonly').objectStore(STORE_ATTACHMENTS).getAllKeys()) as Promise<string[]>;
+};
+
+export const deleteMissionAttachments = async (missionId: string): Promise<void> => {
+    const db = await openDb();
+    const keys = await requestToPromise(db.transaction(STORE_ATTACHMENTS, 'readonly').objectStore(STORE_ATTACHMENTS).index('missionId').getAllKeys(missionId));
+    return deleteAttachments(keys as string[]);
+};
+
+export const loadProfiles = () => getAll<UserProfile>(STORE_PROFILE);
+
+const writeProfiles = async (profiles: UserProfile[], key: CryptoKey | null = dataKey): Promise<void> => {
+    const sealed = await Promise.all(profiles.map(p => sealRecord(p, key)));
+    const db = await openDb();
+    const tx = db.transaction(STORE_PROFILE, 'readwrite');
+    const store = tx.objectStore(STORE_PROFILE);
+    store.clear();
+    sealed.forEach(p => store.put(p, p.id));
+    return txDone(tx);
+};
+
+export const saveProfiles = whenWritable((profiles: UserProfile[]) => writeProfiles(profiles));
+
+export const loadActiveProfileId = async (): Promise<string | null> => {
+    return (await getValue<string>(STORE_META, ACTIVE_PROFILE_KEY)) || null;
+};
+
+export const saveActiveProfileId = (id: string) => putValue(STORE_META, ACTIVE_PROFILE_KEY, id);
+
+export const loadLockConfig = async (): Promise<LockConfig | null> => (await getValue<LockConfig>(STORE_META, LOCK_KEY)) || null;
+
+export const saveLockConfig = async (config: LockConfig | null): Promise<void> => {
+    if (config) return putValue(STORE_META, LOCK_KEY, config);
+    const db = await openDb();
+    const tx = db.transaction(STORE_META, 'readwrite');
+    tx.objectStore(STORE_META).delete(LOCK_KEY);
+    return txDone(tx);
+};
+
+// Sync and team state are sealed like the data stores, as both hold copies of missions
+const loadSealedMeta = async <T>(name: string, key: CryptoKey | null = dataKey): Promise<T | null> => {
+    const stored = await getValue<T | SealedRecord>(STORE_META, name);
+    return stored ? openRecord<T>(stored, key) : null;
+};
+
+const saveSealedMeta = async (name: string, value: object | null, key: CryptoKey | null = dataKey): Promise<void> => {
+    const db = await openDb();
+    const sealed = value ? await sealRecord({ ...value, id: name }, key) : null;
+    const tx = db.transaction(STORE_META, 'readwrite');
+    if (sealed) tx.objectStore(STORE_META).put(sealed, name);
+    else tx.objectStore(STORE_META).delete(name);
+    return txDone(tx);
+};
+
+export const loadSyncState = () => loadSealedMeta<SyncState>(SYNC_KEY);
+
+export const saveSyncState = whenWritable((state: SyncState | null) => saveSealedMeta(SYNC_KEY, state));
+
+export const loadTeamState = () => loadSealedMeta<TeamState>(TEAM_KEY);
+
+export const saveTeamState = whenWritable((state: TeamState | null) => saveSealedMeta(TEAM_KEY, state));
+
+// Rewrites every sealed store with `key` (null decrypts everything) and makes it the current
+// key. Attachments are rewritten one per transaction so large files are never all in memory.
+const rewriteSealedStores = async (key: CryptoKey | null): Promise<void> => {
+    await Promise.allSettled(Array.from(runningWrites));
+    const previousKey = dataKey;
+    const [missions, templates, drafts, profiles] = await Promise.all([
+        getAll<Mission>(STORE_MISSIONS, previousKey),
+        getAll<Template>(STORE_TEMPLATES, previousKey),
+        getAll<PendingDraft>(STORE_DRAFTS, previousKey),
+        getAll<UserProfile>(STORE_PROFILE, previousKey),
+    ]);
+    await replaceAll(STORE_MISSIONS, missions, key);
+    await replaceAll(STORE_TEMPLATES, templates, key);
+    await replaceAll(STORE_DRAFTS, drafts, key);
+    await writeProfiles(profiles, key);
+    await txDone(await settingsTransaction(await readSettings(previousKey), key));
+    for (const name of SEALED_META_KEYS) {
+        const value = await loadSealedMeta<object>(name, previousKey);
+        if (value) await saveSealedMeta(name, value, key);
+    }
+    dataKey = key;
+    for (const id of await loadAttachmentIds()) {
+        const attachment = await readAttachment(id, previousKey);
+        if (attachment) await writeAttachment(attachment, key);
+    }
+};
+
+// Blocks all other writes while it runs (see whenWritable)
+export const resealAll = async (key: CryptoKey | null): Promise<void> => {
+    if (resealing) throw new Error("The app lock is already being changed.");
+    resealing = rewriteSealedStores(key);
+    try {
+        await resealing;
+    } finally {
+        resealing = null;
+    }
+};
+
+// Wipes both the database and any leftover legacy localStorage data.
+export const clearAllData = async (): Promise<void> => {
+    localStorage.clear();
+    dataKey = null;
+    savedTemplates = null;
+    if (dbPromise) {
+        (await dbPromise).close();
+        dbPromise = null;
+    }
+    await new Promise<void>((resolve) => {
+        const request = indexedDB.deleteDatabase(DB_NAME);
+        request.onsuccess = () => resolve();
+        request.onerror = () => resolve();
+        request.onblocked = () => resolve();
+    });
+};
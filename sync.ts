@@ -0,0 +1,292 @@
+import { Mission, Settings, SyncCollection, SyncConflict, SyncState, Template, UserProfile } from './types';
+
+// --- Sync ---
+// Missions, templates, profiles and settings are synced through a self-hosted server
+// (server/sync-server.mjs). Changes are found by comparing each record's hash with the last
+// version agreed with the server, so the rest of the app never has to report its edits.
+// The server numbers every accepted write; a push is only accepted on top of the revision the
+// device last saw. Deletions are pushed as tombstones.
+// When both sides changed a record, the most recent edit wins (the device ID breaks ties),
+// as when merging a backup. The losing version is kept as a SyncConflict for the user.
+// Attachment files are not synced. Missions are synced without their attachment references,
+// which stay with the files on the device they were added on.
+
+export interface SyncData {
+    missions: Mission[];
+    templates: Template[];
+    profiles: UserProfile[];
+    settings: SyncedSettings;
+}
+
+// Templates sync as their own records
+export type SyncedSettings = Omit<Settings, 'customTemplates'>;
+
+// A record as stored by the server
+export interface SyncRecord {
+    collection: SyncCollection;
+    id: string;
+    rev: number;
+    deleted: boolean;
+    data?: any;
+    changedAt: number;
+    deviceId: string;
+    deviceName: string;
+}
+
+interface SyncChange {
+    collection: SyncCollection;
+    id: string;
+    baseRev: number; // 0 for a record the server has never seen
+    deleted: boolean;
+    data?: any;
+    changedAt: number;
+}
+
+const SYNC_COLLECTIONS: SyncCollection[] = ['missions', 'templates', 'profiles', 'settings'];
+const SETTINGS_ID = 'settings';
+const DELETED = 'deleted';
+const MAX_PUSH_ROUNDS = 3;
+
+export const createSyncState = (serverUrl: string, token: string, deviceName: string): SyncState => ({
+    serverUrl: serverUrl.trim().replace(/\/+$/, ''),
+    token: token.trim(),
+    deviceId: Math.random().toString(36).substr(2, 9),
+    deviceName: deviceName.trim() || 'Device',
+    lastSeq: 0,
+    synced: {},
+    local: {},
+    conflicts: [],
+});
+
+// A readable guess such as "Android" or "Windows"; the user can change it
+export const defaultDeviceName = () => (navigator.userAgent.match(/Android|iPhone|iPad|Macintosh|Windows|Linux/) || ['Device'])[0];
+
+const recordKey = (collection: SyncCollection, id: string) => `${collection}/${id}`;
+
+const splitKey = (key: string): [SyncCollection, string] => {
+    const slash = key.indexOf('/');
+    return [key.slice(0, slash) as SyncCollection, key.slice(slash + 1)];
+};
+
+// Object keys are sorted so that a record rebuilt in another order hashes the same
+const stableStringify = (value: any): string => {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        return `{${Object.keys(value).filter(k => value[k] !== undefined).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+    }
+    return JSON.stringify(value);
+};
+
+// FNV-1a; only used to notice changes, not as a security measure. The sync server has a copy
+// for the versions approvals are given for (see missionVersion in team.ts).
+export const hashValue = (value: any): string => {
+    const text = stableStringify(value);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${(hash >>> 0).toString(36)}:${text.length}`;
+};
+
+const snapshot = (data: SyncData): Map<string, { collection: SyncCollection; value: any }> => {
+    const records = new Map<string, { collection: SyncCollection; value: any }>();
+    data.missions.forEach(({ attachments, ...m }) => records.set(recordKey('missions', m.id), { collection: 'missions', value: m }));
+    data.templates.forEach(t => records.set(recordKey('templates', t.id), { collection: 'templates', value: t }));
+    data.profiles.forEach(p => records.set(recordKey('profiles', p.id), { collection: 'profiles', value: p }));
+    records.set(recordKey('settings', SETTINGS_ID), { collection: 'settings', value: data.settings });
+    return records;
+};
+
+const recordLabel = (collection: SyncCollection, value: any): string => {
+    if (!value) return '';
+    if (collection === 'missions') return value.title || '';
+    if (collection === 'templates') return value.name || '';
+    if (collection === 'profiles') return value.fullName || '';
+    return '';
+};
+
+// Stamps the records that changed since the last call. On the first call after sync is set up,
+// missions keep their own modification time and everything else counts as old, so a new
+// device's default settings never win over the ones already on the server.
+export const trackLocalChanges = (state: SyncState, data: SyncData, now: number = Date.now()): SyncState => {
+    const isFirstRun = Object.keys(state.local).length === 0;
+    const current = snapshot(data);
+    const local = { ...state.local };
+    let changed = false;
+    current.forEach(({ collection, value }, key) => {
+        const hash = hashValue(value);
+        if (local[key]?.hash === hash) return;
+        const firstSeenAt = collection === 'missions' ? (value.updatedAt || value.createdAt) : 0;
+        local[key] = { hash, changedAt: isFirstRun ? firstSeenAt : now };
+        changed = true;
+    });
+    Object.keys(local).forEach(key => {
+        if (current.has(key) || local[key].hash === DELETED) return;
+        local[key] = { hash: DELETED, changedAt: now };
+        changed = true;
+    });
+    return changed ? { ...state, local } : state;
+};
+
+// Whether the local version differs from the one agreed with the server.
+// A record created and deleted between two syncs has nothing to push.
+const isPending = (state: SyncState, key: string): boolean => {
+    const local = state.local[key];
+    const synced = state.synced[key];
+    if (!local) return false;
+    if (!synced) return local.hash !== DELETED;
+    return local.hash !== synced.hash;
+};
+
+const pendingKeys = (state: SyncState): string[] => Object.keys(state.local).filter(key => isPending(state, key));
+
+export const pendingChangeCount = (state: SyncState) => pendingKeys(state).length;
+
+// Also used by the team review channel (team.ts), which talks to the same kind of server
+export const syncRequest = async <T>(server: { serverUrl: string; token: string }, path: string, body?: unknown): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${server.serverUrl}${path}`, {
+            method: body === undefined ? 'GET' : 'POST',
+            headers: { 'Content-Type': 'application/json', ...(server.token ? { Authorization: `Bearer ${server.token}` } : {}) },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        });
+    } catch (e) {
+        throw new Error("Could not reach the sync server.");
+    }
+    if (response.status === 401) throw new Error("The sync server rejected the access token.");
+    if (response.status === 403 || response.status === 409) throw new Error((await response.json().catch(() => null))?.error || "The sync server refused the change.");
+    if (!response.ok) throw new Error(`Sync server error (${response.status}).`);
+    return response.json();
+};
+
+// Checks the address and token before sync is turned on
+export const checkSyncServer = (server: { serverUrl: string; token: string }) => syncRequest<{ ok: boolean; seq: number }>(server, '/api/health');
+
+interface SyncRound {
+    state: SyncState;
+    applied: SyncRecord[]; // Remote versions to apply locally, in server order
+    conflicts: SyncConflict[];
+}
+
+// Takes in one remote record, resolving it against a local edit if there is one
+const receive = (round: SyncRound, remote: SyncRecord, current: Map<string, { value: any }>): SyncRound => {
+    const { state } = round;
+    const key = recordKey(remote.collection, remote.id);
+    const known = state.synced[key];
+    if (known && known.rev >= remote.rev) return round; // Our own push, or already seen
+    const remoteHash = remote.deleted ? DELETED : hashValue(remote.data);
+    const local = state.local[key];
+    const synced = { ...state.synced, [key]: { rev: remote.rev, hash: remoteHash } };
+
+    if (!isPending(state, key) || local.hash === remoteHash) {
+        return {
+            ...round,
+            state: { ...state, synced, local: { ...state.local, [key]: { hash: remoteHash, changedAt: remote.changedAt } } },
+            applied: [...round.applied, remote],
+        };
+    }
+
+    const remoteWins = remote.changedAt > local.changedAt || (remote.changedAt === local.changedAt && remote.deviceId > state.deviceId);
+    const localValue = current.get(key)?.value ?? null;
+    const conflict: SyncConflict = {
+        id: Math.random().toString(36).substr(2, 9),
+        collection: remote.collection,
+        recordId: remote.id,
+        label: recordLabel(remote.collection, remote.data) || recordLabel(remote.collection, localValue),
+        keptFrom: remoteWins ? remote.deviceName : state.deviceName,
+        discardedFrom: remoteWins ? state.deviceName : remote.deviceName,
+        discarded: remoteWins ? localValue : (remote.deleted ? null : remote.data),
+        resolvedAt: Date.now(),
+    };
+    // Untouched values from a device's first sync (changedAt 0) are not worth reporting
+    const conflicts = (remoteWins ? local.changedAt : remote.changedAt) > 0 ? [...round.conflicts, conflict] : round.conflicts;
+    if (remoteWins) {
+        return {
+            state: { ...state, synced, local: { ...state.local, [key]: { hash: remoteHash, changedAt: remote.changedAt } } },
+            applied: [...round.applied, remote],
+            conflicts,
+        };
+    }
+    // The local edit stays pending and is pushed on top of the remote revision
+    return { ...round, state: { ...state, synced }, conflicts };
+};
+
+// Pulls remote changes, then pushes local ones. `applied` must be applied to the app data
+// (see applyRemoteRecords) before changes are tracked again, or they would be pushed back.
+export const syncNow = async (initial: SyncState, data: SyncData): Promise<SyncRound> => {
+    const current = snapshot(data);
+    let round: SyncRound = { state: trackLocalChanges(initial, data), applied: [], conflicts: [] };
+
+    // Review requests of a team sharing the server are left to team.ts
+    const pulled = await syncRequest<{ seq: number; changes: SyncRecord[] }>(round.state, `/api/changes?since=${round.state.lastSeq}`);
+    pulled.changes.filter(remote => SYNC_COLLECTIONS.includes(remote.collection)).forEach(remote => { round = receive(round, remote, current); });
+    round = { ...round, state: { ...round.state, lastSeq: Math.max(round.state.lastSeq, pulled.seq) } };
+
+    // A push is rejected for records another device changed since our pull; those are
+    // resolved like pulled changes and the winners pushed again
+    for (let attempt = 0; attempt < MAX_PUSH_ROUNDS; attempt++) {
+        const keys = pendingKeys(round.state);
+        if (keys.length === 0) break;
+        const changes: SyncChange[] = keys.map(key => {
+            const [collection, id] = splitKey(key);
+            const value = current.get(key)?.value;
+            return { collection, id, baseRev: round.state.synced[key]?.rev || 0, deleted: value === undefined, data: value, changedAt: round.state.local[key].changedAt };
+        });
+        const result = await syncRequest<{ accepted: { collection: SyncCollection; id: string; rev: number }[]; conflicts: SyncRecord[] }>(round.state, '/api/push', {
+            deviceId: round.state.deviceId,
+            deviceName: round.state.deviceName,
+            changes,
+        });
+        const synced = { ...round.state.synced };
+        result.accepted.forEach(({ collection, id, rev }) => {
+            const key = recordKey(collection, id);
+            synced[key] = { rev, hash: round.state.local[key].hash };
+        });
+        round = { ...round, state: { ...round.state, synced } };
+        result.conflicts.forEach(remote => { round = receive(round, remote, current); });
+    }
+
+    return {
+        ...round,
+        state: { ...round.state, conflicts: [...round.state.conflicts, ...round.conflicts], lastSyncAt: Date.now(), lastError: undefined },
+    };
+};
+
+const applyToList = <T extends { id: string }>(items: T[], records: SyncRecord[]): T[] => {
+    if (records.length === 0) return items;
+    const byId = new Map(items.map(item => [item.id, item]));
+    records.forEach(r => { if (r.deleted) byId.delete(r.id); else byId.set(r.id, r.data); });
+    return Array.from(byId.values());
+};
+
+// Remote missions keep this device's attachments. References from other devices are dropped,
+// as their files are not here (older versions synced them).
+const withLocalAttachments = (missions: Mission[], local: Mission[]): Mission[] => {
+    const attachmentsOf = new Map(local.map(m => [m.id, m.attachments]));
+    return missions.map(({ attachments, ...m }) => attachmentsOf.get(m.id) ? { ...m, attachments: attachmentsOf.get(m.id) } : m);
+};
+
+export const applyRemoteRecords = (data: SyncData, records: SyncRecord[]): SyncData => {
+    const of = (collection: SyncCollection) => records.filter(r => r.collection === collection);
+    const remoteSettings = of('settings').filter(r => !r.deleted).pop();
+    return {
+        missions: withLocalAttachments(applyToList(data.missions, of('missions')), data.missions).sort((a, b) => b.createdAt - a.createdAt),
+        templates: applyToList(data.templates, of('templates')),
+        profiles: applyToList(data.profiles, of('profiles')),
+        settings: remoteSettings ? { ...data.settings, ...remoteSettings.data } : data.settings,
+    };
+};
+
+// Puts the discarded version of a conflict back as a new local edit, which the next sync pushes
+export const restoreConflict = (data: SyncData, conflict: SyncConflict): SyncData => applyRemoteRecords(data, [{
+    collection: conflict.collection,
+    id: conflict.recordId,
+    rev: 0,
+    deleted: conflict.discarded === null,
+    data: conflict.discarded,
+    changedAt: Date.now(),
+    deviceId: '',
+    deviceName: '',
+}]);
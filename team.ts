@@ -0,0 +1,171 @@
+import { Mission, MissionReview, ReviewEvent, ReviewItem, ReviewStatus, TeamMember, TeamState, UserProfile } from './types';
+import { SyncRecord, hashValue, syncRequest } from './sync';
+
+// --- Team Review ---
+// Inspectors submit missions to a supervisor through a team server, which runs the same
+// software as personal sync (server/sync-server.mjs) but is shared by the whole team. Each
+// mission under review is one `reviews` record holding a copy of the mission, its reporter
+// and the review history. Histories are only ever appended to, so when two members change a
+// review at once both versions are merged by event instead of one replacing the other.
+// Every member has their own token, which the server knows the name and role of. The server
+// stamps each new event with them and only takes decisions from supervisors, so the name and
+// role a device puts on an event are only shown until the server's version comes back.
+
+const COLLECTION = 'reviews';
+const MAX_PUSH_ROUNDS = 3;
+
+export const fetchTeamMember = (server: { serverUrl: string; token: string }) => syncRequest<TeamMember>(server, '/api/member');
+
+export const createTeamState = (serverUrl: string, token: string, member: TeamMember): TeamState => ({
+    serverUrl: serverUrl.trim().replace(/\/+$/, ''),
+    token: token.trim(),
+    role: member.role,
+    memberName: member.name,
+    deviceId: Math.random().toString(36).substr(2, 9),
+    lastSeq: 0,
+    revs: {},
+    pending: [],
+    inbox: {},
+});
+
+const byTime = (a: ReviewEvent, b: ReviewEvent) => a.at - b.at || a.id.localeCompare(b.id);
+
+const reviewOf = (history: ReviewEvent[]): MissionReview => {
+    const decisions = history.filter(e => e.type !== 'comment');
+    return { status: (decisions.length > 0 ? decisions[decisions.length - 1].type : 'submitted') as ReviewStatus, history };
+};
+
+export const mergeReviews = (a?: MissionReview, b?: MissionReview): MissionReview | undefined => {
+    if (!a || !b) return a || b;
+    const byId = new Map(a.history.map(e => [e.id, e]));
+    b.history.forEach(e => byId.set(e.id, e));
+    return reviewOf(Array.from(byId.values()).sort(byTime));
+};
+
+// Fields that change without the reviewed content changing. The server leaves out the same ones.
+const UNREVIEWED_FIELDS: (keyof Mission)[] = ['attachments', 'review', 'status', 'updatedAt', 'profileId'];
+
+// Identifies the content an approval was given for, so that a later edit voids it
+export const missionVersion = (mission: Mission): string => {
+    const content: Partial<Mission> = { ...mission };
+    UNREVIEWED_FIELDS.forEach(field => { delete content[field]; });
+    return hashValue(content);
+};
+
+export const addReviewEvent = (review: MissionReview | undefined, state: TeamState, type: ReviewEvent['type'], comment?: string, version?: string): MissionReview =>
+    reviewOf([...(review?.history || []), {
+        id: Math.random().toString(36).substr(2, 9),
+        type,
+        by: state.memberName,
+        role: state.role,
+        at: Date.now(),
+        ...(comment ? { comment } : {}),
+        ...(version ? { version } : {}),
+    }]);
+
+// The approval the report is signed off with, if the latest decision is one and the mission
+// has not been edited since
+export const approvalOf = (mission: Mission): ReviewEvent | null => {
+    const approval = mission.review?.status === 'approved' ? mission.review.history.filter(e => e.type === 'approved').pop() : undefined;
+    return approval && approval.version === missionVersion(mission) ? approval : null;
+};
+
+export const isApprovalOutdated = (mission: Mission) => mission.review?.status === 'approved' && !approvalOf(mission);
+
+export const canSubmitForReview = (mission: Mission) => !mission.review || mission.review.status === 'changes_requested' || isApprovalOutdated(mission);
+
+export const markPending = (state: TeamState, missionId: string): TeamState =>
+    state.pending.includes(missionId) ? state : { ...state, pending: [...state.pending, missionId] };
+
+// Supervisors change the inbox copy; the inspector picks the change up on their next sync
+export const reviewInboxItem = (state: TeamState, missionId: string, type: ReviewEvent['type'], comment?: string): TeamState => {
+    const item = state.inbox[missionId];
+    if (!item) return state;
+    const review = addReviewEvent(item.review, state, type, comment, type === 'approved' ? missionVersion(item.mission) : undefined);
+    const withdrawn = (state.withdrawn || []).filter(id => id !== missionId);
+    return markPending({ ...state, withdrawn, inbox: { ...state.inbox, [missionId]: { ...item, review } } }, missionId);
+};
+
+const reviewItemFor = (mission: Mission, reporter: UserProfile | null): ReviewItem => {
+    const { attachments, review, ...rest } = mission;
+    return {
+        mission: rest,
+        reporter: { fullName: reporter?.fullName || '', profession: reporter?.profession || '', cni: reporter?.cni || '', ppn: reporter?.ppn || '' },
+        review: review!,
+    };
+};
+
+export interface TeamRound {
+    state: TeamState;
+    reviews: Record<string, MissionReview>; // Inspectors only: merged reviews to store on the local missions
+}
+
+// Merges a review received from the server into the round. Anything the server lacks stays pending.
+const receive = (round: TeamRound, remote: SyncRecord, missions: Map<string, Mission>): TeamRound => {
+    const { state } = round;
+    const item = remote.data as ReviewItem | undefined;
+    const revs = { ...state.revs, [remote.id]: remote.rev };
+    if (remote.deleted || !item?.review) return { ...round, state: { ...state, revs } };
+    if (state.role === 'supervisor') {
+        // An approval not on the server yet was given for the copy shown here. If the inspector
+        // changed the mission meanwhile it would cover content nobody reviewed, so it is dropped.
+        const local = state.inbox[remote.id]?.review;
+        const onServer = new Set(item.review.history.map(e => e.id));
+        const version = missionVersion(item.mission);
+        const stale = (local?.history || []).filter(e => e.type === 'approved' && !onServer.has(e.id) && e.version !== version);
+        const kept = local && stale.length > 0 ? { ...local, history: local.history.filter(e => !stale.includes(e)) } : local;
+        const review = mergeReviews(kept, item.review)!;
+        const withdrawn = stale.length > 0 && !(state.withdrawn || []).includes(remote.id) ? [...(state.withdrawn || []), remote.id] : state.withdrawn;
+        return { ...round, state: { ...state, revs, withdrawn, inbox: { ...state.inbox, [remote.id]: { ...item, review } } } };
+    }
+    const mission = missions.get(remote.id);
+    if (!mission) return { ...round, state: { ...state, revs } };
+    const local = round.reviews[remote.id] || mission.review;
+    const review = mergeReviews(local, item.review)!;
+    // Also picks up the server's stamps on events sent from here
+    if (local && JSON.stringify(review.history) === JSON.stringify(local.history)) return { ...round, state: { ...state, revs } };
+    return { state: { ...state, revs }, reviews: { ...round.reviews, [remote.id]: review } };
+};
+
+// Pulls reviews changed since the last sync, then pushes the pending ones. A push rejected
+// because someone else changed the review meanwhile is merged with their version and retried.
+export const syncTeam = async (initial: TeamState, missions: Mission[], reporterOf: (mission: Mission) => UserProfile | null): Promise<TeamRound> => {
+    const byId = new Map(missions.map(m => [m.id, m]));
+    const member = await fetchTeamMember(initial);
+    let round: TeamRound = { state: { ...initial, role: member.role, memberName: member.name }, reviews: {} };
+
+    const pulled = await syncRequest<{ seq: number; changes: SyncRecord[] }>(initial, `/api/changes?since=${initial.lastSeq}`);
+    pulled.changes.filter(remote => (remote.collection as string) === COLLECTION).forEach(remote => { round = receive(round, remote, byId); });
+    round = { ...round, state: { ...round.state, lastSeq: Math.max(round.state.lastSeq, pulled.seq) } };
+
+    for (let attempt = 0; attempt < MAX_PUSH_ROUNDS && round.state.pending.length > 0; attempt++) {
+        const { state } = round;
+        const items = state.pending.map(id => {
+            if (state.role === 'supervisor') return state.inbox[id] ? { id, item: state.inbox[id] } : null;
+            const mission = byId.get(id);
+            const review = round.reviews[id] || mission?.review;
+            return mission && review ? { id, item: reviewItemFor({ ...mission, review }, reporterOf(mission)) } : null;
+        }).filter(Boolean) as { id: string; item: ReviewItem }[];
+        // Reviews of missions deleted since are dropped
+        if (items.length === 0) {
+            round = { ...round, state: { ...state, pending: [] } };
+            break;
+        }
+        const result = await syncRequest<{ accepted: { id: string; rev: number }[]; conflicts: SyncRecord[] }>(state, '/api/push', {
+            deviceId: state.deviceId,
+            deviceName: state.memberName,
+            changes: items.map(({ id, item }) => ({ collection: COLLECTION, id, baseRev: state.revs[id] || 0, deleted: false, data: item, changedAt: Date.now() })),
+        });
+        const accepted = new Set(result.accepted.map(a => a.id));
+        const revs = { ...state.revs };
+        result.accepted.forEach(({ id, rev }) => { revs[id] = rev; });
+        round = { ...round, state: { ...state, revs, pending: items.map(i => i.id).filter(id => !accepted.has(id)) } };
+        result.conflicts.forEach(remote => { round = receive(round, remote, byId); });
+    }
+
+    return { ...round, state: { ...round.state, lastSyncAt: Date.now(), lastError: undefined } };
+};
+
+// Merged rather than replaced, as the mission may have been submitted again while the sync ran
+export const applyReviews = (missions: Mission[], reviews: Record<string, MissionReview>): Mission[] =>
+    Object.keys(reviews).length === 0 ? missions : missions.map(m => reviews[m.id] ? { ...m, review: mergeReviews(m.review, reviews[m.id]) } : m);
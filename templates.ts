@@ -0,0 +1,345 @@
+import { Settings, Template } from './types';
+
+// --- DOCX Template Inspection ---
+
+// Filled from the supervisor's approval (see team.ts); empty until the mission is approved
+export const APPROVAL_TEMPLATE_TAGS = ['approvalStatus', 'approvedBy', 'approvedAt'];
+
+// Filled from the coordinates captured at the start and end of the mission (see geo.ts).
+// startCoords/finishCoords read "lat, lng"; the others hold a single number.
+export const COORDINATE_TEMPLATE_TAGS = ['startCoords', 'startLat', 'startLng', 'finishCoords', 'finishLat', 'finishLng'];
+
+// Placeholders that generateDocxBlob always fills from the mission and the profile
+export const BUILTIN_TEMPLATE_TAGS = [
+    'title', 'location', 'date', 'finishDate', 'startTime', 'finishTime', 'notes',
+    'fullName', 'profession', 'cni', 'ppn', ...APPROVAL_TEMPLATE_TAGS, ...COORDINATE_TEMPLATE_TAGS
+];
+
+// Loop placeholders, with the fields available inside each iteration, e.g.
+// {#itinerary}{date} {site}: {activities} ({hours}){/itinerary}
+export const LOOP_TEMPLATE_TAGS: Record<string, string[]> = {
+    itinerary: ['date', 'site', 'activities', 'startTime', 'finishTime', 'hours']
+};
+
+// Image placeholders. A paragraph containing {%attachments} is replaced by the mission photos.
+export const IMAGE_TEMPLATE_TAGS = ['attachments'];
+
+// Parts of a .docx that may contain placeholders
+const CONTENT_PART_RE = /^word\/(document|header\d*|footer\d*|footnotes|endnotes)\.xml$/;
+
+// Only identifier-like tags count, so ordinary text in parentheses ("(optional)", "(see annex)") is ignored.
+const TAG_NAME_RE = /^[A-Za-z_][\w.]*$/;
+
+const base64ToBytes = (base64: string) => {
+    const binary = window.atob(base64.replace(/[\s\n\r]/g, ''));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+// Returns the visible text of every paragraph in the template. Word often splits a single
+// placeholder across several runs, so tags are searched in the joined paragraph text.
+export const getTemplateParagraphs = (data: string | ArrayBuffer): string[] => {
+    const PizZip = (window as any).PizZip;
+    if (!PizZip) throw new Error("PizZip library not loaded.");
+    const zip = new PizZip(typeof data === 'string' ? base64ToBytes(data) : data);
+    const paragraphs: string[] = [];
+    Object.keys(zip.files).filter(name => CONTENT_PART_RE.test(name)).forEach(name => {
+        const xml: string = zip.file(name).asText();
+        (xml.match(/<w:p[ >][\s\S]*?<\/w:p>/g) || []).forEach(p => {
+            const text = (p.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>/g) || []).map(t => t.replace(/<[^>]+>/g, '')).join('');
+            if (text) paragraphs.push(text);
+        });
+    });
+    return paragraphs;
+};
+
+// Lists the top-level value placeholders used by a template, in {tag} or (tag) form.
+// Loop and condition markers ({#items}, {/items}, {^items}) and the tags inside a loop
+// body belong to the loop's own items, so they are not reported as mission fields.
+export const extractTemplateTags = (data: string | ArrayBuffer): string[] => {
+    const tags = new Set<string>();
+    let loopDepth = 0;
+    getTemplateParagraphs(data).forEach(text => {
+        for (const match of text.matchAll(/\{([^{}]+)\}|\(([^()]+)\)/g)) {
+            const raw = (match[1] ?? match[2]).trim();
+            if (raw[0] === '#' || raw[0] === '^') { loopDepth++; continue; }
+            if (raw[0] === '/') { loopDepth = Math.max(0, loopDepth - 1); continue; }
+            if (raw[0] === '%') continue;
+            if (loopDepth === 0 && TAG_NAME_RE.test(raw)) tags.add(raw);
+        }
+    });
+    return Array.from(tags);
+};
+
+export const getCustomTags = (tags: string[]) => tags.filter(tag => !BUILTIN_TEMPLATE_TAGS.includes(tag));
+
+const legacyTagCache = new Map<string, string[]>();
+
+// Templates uploaded before tag inspection existed have no `tags`; they are inspected on
+// demand and cached, since the editor asks again on every render.
+export const getTemplateTags = (template: Template): string[] => {
+    if (template.tags) return template.tags;
+    if (!legacyTagCache.has(template.id)) {
+        try {
+            legacyTagCache.set(template.id, extractTemplateTags(template.data));
+        } catch (e) {
+            console.warn(`Could not inspect template ${template.name}`, e);
+            legacyTagCache.set(template.id, []);
+        }
+    }
+    return legacyTagCache.get(template.id)!;
+};
+
+// Extra fields the active template expects on each mission
+export const getActiveCustomFields = (settings: Settings): string[] => {
+    const active = settings.customTemplates.find(t => t.id === settings.activeTemplateId);
+    return active ? getCustomTags(getTemplateTags(active)) : [];
+};
+
+// "vehiclePlate" / "mission_order_no" -> "Vehicle Plate" / "Mission Order No"
+export const humanizeTag = (tag: string) => tag
+    .replace(/[_.]+/g, ' ')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/\b\w/g, c => c.toUpperCase())
+    .trim();
+
+// --- Rendering ---
+
+// Templates may use either {tag} or (tag); the document is rendered once per delimiter style.
+const DELIMITER_PASSES = [{ start: '{', end: '}' }, { start: '(', end: ')' }];
+
+export const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+export interface TemplateImage {
+    data: ArrayBuffer;
+    type: string; // image/jpeg or image/png
+    width: number; // Pixels
+    height: number;
+}
+
+const EMU_PER_PIXEL = 9525;
+const MAX_IMAGE_WIDTH_EMU = 5486400; // 6 inches, fits a portrait A4/Letter page with default margins
+const IMAGE_REL_TYPE = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image';
+
+const imageParagraphXml = (relId: string, index: number, image: TemplateImage) => {
+    const scale = Math.min(1, MAX_IMAGE_WIDTH_EMU / (image.width * EMU_PER_PIXEL));
+    const cx = Math.round(image.width * EMU_PER_PIXEL * scale);
+    const cy = Math.round(image.height * EMU_PER_PIXEL * scale);
+    const docPrId = 9000 + index;
+    return `<w:p><w:r><w:drawing><wp:inline xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" distT="0" distB="0" distL="0" distR="0">`
+        + `<wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${docPrId}" name="Attachment ${index + 1}"/>`
+        + `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+        + `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${docPrId}" name="Attachment ${index + 1}"/><pic:cNvPicPr/></pic:nvPicPr>`
+        + `<pic:blipFill><a:blip xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" r:embed="${relId}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>`
+        + `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>`
+        + `</a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`;
+};
+
+// docxtemplater's image module is not part of the open-source build, so image placeholders are
+// replaced directly in the document XML before the text placeholders are rendered.
+const injectImages = (zip: any, images: Record<string, TemplateImage[]>) => {
+    const docPath = 'word/document.xml';
+    const relsPath = 'word/_rels/document.xml.rels';
+    let xml: string = zip.file(docPath).asText();
+    let rels: string = zip.file(relsPath)?.asText() || '<?xml version="1.0" encoding="UTF-8" standalone="yes"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>';
+    let imageCount = 0;
+
+    xml = xml.replace(/<w:p[ >][\s\S]*?<\/w:p>/g, paragraph => {
+        const text = (paragraph.match(/<w:t(?: [^>]*)?>[^<]*<\/w:t>/g) || []).map(t => t.replace(/<[^>]+>/g, '')).join('');
+        const match = text.match(/[{(]%\s*([\w.]+)\s*[})]/);
+        if (!match || !IMAGE_TEMPLATE_TAGS.includes(match[1])) return paragraph;
+        const list = images[match[1]] || [];
+        // A table cell must keep at least one paragraph
+        if (list.length === 0) return '<w:p/>';
+        return list.map(image => {
+            const index = imageCount++;
+            const ext = image.type === 'image/png' ? 'png' : 'jpeg';
+            const relId = `rIdMissionLog${index}`;
+            zip.file(`word/media/missionlog_${index}.${ext}`, image.data);
+            rels = rels.replace('</Relationships>', `<Relationship Id="${relId}" Type="${IMAGE_REL_TYPE}" Target="media/missionlog_${index}.${ext}"/></Relationships>`);
+            return imageParagraphXml(relId, index, image);
+        }).join('');
+    });
+
+    if (imageCount > 0) {
+        let types: string = zip.file('[Content_Types].xml').asText();
+        [['jpeg', 'image/jpeg'], ['png', 'image/png']].forEach(([ext, mime]) => {
+            if (!new RegExp(`Extension="${ext}"`, 'i').test(types)) {
+                types = types.replace('</Types>', `<Default Extension="${ext}" ContentType="${mime}"/></Types>`);
+            }
+        });
+        zip.file('[Content_Types].xml', types);
+        zip.file(relsPath, rels);
+    }
+    zip.file(docPath, xml);
+};
+
+// Fills a template and returns the bytes of the resulting .docx. Throws the raw docxtemplater error on failure.
+export const renderTemplate = (data: string | ArrayBuffer, values: Record<string, any>, images: Record<string, TemplateImage[]> = {}): ArrayBuffer => {
+    const PizZip = (window as any).PizZip;
+    const Docxtemplater = (window as any).docxtemplater;
+    if (!PizZip || !Docxtemplater) throw new Error("PizZip or Docxtemplater libraries not loaded.");
+
+    const source = new PizZip(typeof data === 'string' ? base64ToBytes(data) : data);
+    injectImages(source, images);
+    let content: Uint8Array | ArrayBuffer = source.generate({ type: "arraybuffer" });
+    DELIMITER_PASSES.forEach(delimiters => {
+        const doc = new Docxtemplater(new PizZip(content), {
+            paragraphLoop: true,
+            linebreaks: true,
+            delimiters,
+            nullGetter: (part: any) => part.raw || ""
+        });
+        doc.render(values);
+        content = doc.getZip().generate({ type: "arraybuffer" });
+    });
+    return content as ArrayBuffer;
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Adds a bold paragraph at the end of a rendered document, for information the template has
+// no placeholder for. The body's own section properties must stay its last element.
+export const appendParagraph = (data: ArrayBuffer, text: string, rtl: boolean): ArrayBuffer => {
+    const PizZip = (window as any).PizZip;
+    const zip = new PizZip(data);
+    const docPath = 'word/document.xml';
+    const xml: string = zip.file(docPath).asText();
+    const bodyEnd = xml.lastIndexOf('</w:body>');
+    const sectPr = xml.lastIndexOf('<w:sectPr');
+    const at = sectPr > xml.lastIndexOf('</w:p>') && sectPr > xml.lastIndexOf('</w:tbl>') ? sectPr : bodyEnd;
+    const paragraph = `<w:p>${rtl ? '<w:pPr><w:bidi/></w:pPr>' : ''}<w:r><w:rPr><w:b/>${rtl ? '<w:rtl/>' : ''}</w:rPr><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`;
+    zip.file(docPath, xml.slice(0, at) + paragraph + xml.slice(at));
+    return zip.generate({ type: "arraybuffer" });
+};
+
+// --- Validation ---
+
+export interface TemplateIssue {
+    severity: 'error' | 'warning';
+    message: string;
+}
+
+export interface TemplateValidationReport {
+    issues: TemplateIssue[];
+    tags: string[];
+    preview: string[]; // Paragraphs of the sample rendering
+    sample: Blob | null;
+}
+
+// A report template that lacks these would produce a document nobody can identify
+export const REQUIRED_TEMPLATE_TAGS = ['title', 'date', 'fullName'];
+
+const SAMPLE_VALUES: Record<string, string> = {
+    title: 'Quarterly Site Inspection',
+    location: 'North Depot',
+    date: '2024-03-04',
+    finishDate: '2024-03-05',
+    startTime: '08:00',
+    finishTime: '17:00',
+    notes: 'Sample notes.\nSecond line of notes.',
+    fullName: 'John Doe',
+    profession: 'Field Engineer',
+    cni: 'AB123456',
+    ppn: '998877',
+    approvalStatus: 'Approved',
+    approvedBy: 'Jane Roe',
+    approvedAt: '2024-03-06',
+    startCoords: '48.85661, 2.35222',
+    startLat: '48.85661',
+    startLng: '2.35222',
+    finishCoords: '48.86110, 2.33582',
+    finishLat: '48.86110',
+    finishLng: '2.33582'
+};
+
+const SAMPLE_LOOPS = {
+    itinerary: [
+        { date: '2024-03-04', site: 'North Depot', activities: 'Safety walkthrough', startTime: '08:00', finishTime: '12:00', hours: '08:00 - 12:00' },
+        { date: '2024-03-05', site: 'East Warehouse', activities: 'Inventory audit', startTime: '09:00', finishTime: '17:00', hours: '09:00 - 17:00' }
+    ]
+};
+
+const snippet = (text: string) => text.length > 60 ? `${text.slice(0, 57)}...` : text;
+
+// Collects the readable explanations out of a docxtemplater error (which may bundle several)
+const describeRenderError = (e: any): string[] => {
+    const nested = e?.properties?.errors;
+    if (Array.isArray(nested) && nested.length > 0) {
+        return nested.map((err: any) => err.properties?.explanation || err.message);
+    }
+    return [e?.properties?.explanation || e?.message || String(e)];
+};
+
+// Checks the delimiters of one paragraph. Loops ({#x}...{/x}) are matched across the whole document.
+const checkParagraph = (text: string, issues: TemplateIssue[], openLoops: string[]) => {
+    const where = `in "${snippet(text)}"`;
+    if (/\{\{|\}\}/.test(text)) {
+        issues.push({ severity: 'error', message: `Duplicate delimiters "{{" or "}}" ${where}. Use single braces: {tag}.` });
+        return;
+    }
+    let depth = 0;
+    for (const ch of text) {
+        if (ch === '{') depth++;
+        if (ch === '}') depth--;
+        if (depth < 0 || depth > 1) break;
+    }
+    if (depth !== 0) {
+        issues.push({ severity: 'error', message: `Unbalanced braces ${where}.` });
+        return;
+    }
+    for (const match of text.matchAll(/\{([^{}]*)\}/g)) {
+        const raw = match[1].trim();
+        const marker = raw[0];
+        const name = ['#', '/', '^', '%'].includes(marker) ? raw.slice(1).trim() : raw;
+        if (!TAG_NAME_RE.test(name)) {
+            issues.push({ severity: 'error', message: `Malformed tag {${match[1]}} ${where}. Tags may only contain letters, digits, "_" and ".".` });
+        } else if (marker === '%' && !IMAGE_TEMPLATE_TAGS.includes(name)) {
+            issues.push({ severity: 'warning', message: `Unknown image tag {%${name}}. Supported: ${IMAGE_TEMPLATE_TAGS.map(t => `{%${t}}`).join(', ')}.` });
+        } else if (marker === '#' || marker === '^') {
+            openLoops.push(name);
+        } else if (marker === '/') {
+            if (openLoops[openLoops.length - 1] === name) openLoops.pop();
+            else issues.push({ severity: 'error', message: `Closing tag {/${name}} has no matching {#${name}}.` });
+        }
+    }
+};
+
+// Inspects an uploaded template and renders it with sample data so problems surface before it is used.
+export const validateTemplate = (data: string): TemplateValidationReport => {
+    const issues: TemplateIssue[] = [];
+    let paragraphs: string[];
+    try {
+        paragraphs = getTemplateParagraphs(data);
+    } catch (e) {
+        return { issues: [{ severity: 'error', message: "The file is not a valid .docx document." }], tags: [], preview: [], sample: null };
+    }
+
+    const openLoops: string[] = [];
+    paragraphs.forEach(text => checkParagraph(text, issues, openLoops));
+    openLoops.forEach(name => issues.push({ severity: 'error', message: `Loop {#${name}} is never closed with {/${name}}.` }));
+
+    const tags = extractTemplateTags(data);
+    REQUIRED_TEMPLATE_TAGS.filter(tag => !tags.includes(tag)).forEach(tag => {
+        issues.push({ severity: 'warning', message: `Missing required field {${tag}}.` });
+    });
+    const unknown = getCustomTags(tags);
+    if (unknown.length > 0) {
+        issues.push({ severity: 'warning', message: `Unknown tags will be asked for as extra mission fields: ${unknown.join(', ')}.` });
+    }
+
+    // docxtemplater would only repeat the structural errors above in less readable form
+    let sample: Blob | null = null;
+    let preview: string[] = [];
+    if (issues.some(i => i.severity === 'error')) return { issues, tags, preview, sample };
+    try {
+        const values = { ...Object.fromEntries(unknown.map(tag => [tag, `[${humanizeTag(tag)}]`])), ...SAMPLE_VALUES, ...SAMPLE_LOOPS };
+        const rendered = renderTemplate(data, values);
+        sample = new Blob([rendered], { type: DOCX_MIME });
+        preview = getTemplateParagraphs(rendered);
+    } catch (e) {
+        describeRenderError(e).forEach(message => issues.push({ severity: 'error', message }));
+    }
+    return { issues, tags, preview, sample };
+};
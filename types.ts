@@ -1,3 +1,5 @@
+export type MissionStatus = 'planned' | 'in_progress' | 'completed' | 'reported';
+
 export interface Mission {
   id: string;
   title: string;
@@ -8,6 +10,57 @@ export interface Mission {
   finishTime?: string; // HH:mm
   notes: string;
   createdAt: number;
+  updatedAt?: number;
+  customFields?: Record<string, string>; // Values for template placeholders beyond the built-in ones
+  itinerary?: ItineraryEntry[]; // Per-day breakdown for multi-day missions
+  attachments?: AttachmentRef[]; // Blobs live in the IndexedDB attachments store
+  sourceUid?: string; // Calendar event UID (plus occurrence date for repeating events) the mission was imported from
+  status?: MissionStatus; // Set by hand or when a report is generated; derived from the dates otherwise
+  profileId?: string; // Owning UserProfile, whose name and IDs go on the reports
+  review?: MissionReview; // Supervisor review, exchanged through the team server (see team.ts)
+  startCoords?: GeoPoint; // Captured on the device when the mission started, next to the typed location
+  finishCoords?: GeoPoint; // Captured when it ended
+}
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+  accuracy?: number; // Metres, as reported by the device
+  at: number; // When the position was captured
+}
+
+// A latitude/longitude rectangle, e.g. an area drawn on the mission map
+export interface GeoArea {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+export interface AttachmentRef {
+  id: string;
+  name: string;
+  type: string; // MIME type of the original (decompressed) file
+  size: number; // Stored size in bytes
+  width?: number; // Images only, after downscaling
+  height?: number;
+}
+
+export interface StoredAttachment {
+  id: string;
+  missionId: string;
+  blob: Blob;
+  compression: 'none' | 'gzip';
+  iv?: Uint8Array<ArrayBuffer>; // Set when the blob is encrypted with the app lock's data key
+}
+
+export interface ItineraryEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  site: string;
+  activities: string;
+  startTime?: string; // HH:mm
+  finishTime?: string; // HH:mm
 }
 
 export type Language = 'en' | 'ar';
@@ -17,12 +70,38 @@ export interface Settings {
   customTemplates: Template[];
   language: Language;
   theme: 'light' | 'dark' | 'system';
+  emailRecipient: string; // Default "To" address for drafted report emails
+  activePdfLayoutId: string; // 'default' or a custom PdfLayout ID
+  pdfLayouts: PdfLayout[];
+  activityTemplate?: Template; // Custom DOCX for the activity summary; a built-in one is used otherwise
+  timeZone?: string; // IANA zone mission times are recorded in, for calendar export; the device zone when unset
 }
 
 export interface Template {
   id: string;
   name: string;
   data: string; // Base64 encoded docx
+  tags?: string[]; // Placeholders found in the document at upload time
+}
+
+// Report sections a PDF layout can show. Consecutive row fields are grouped into one table.
+export type PdfField = 'title' | 'date' | 'time' | 'location' | 'reporter' | 'profession' | 'cni' | 'ppn' | 'customFields' | 'itinerary' | 'notes' | 'attachments';
+
+export type PdfPageSize = 'A4' | 'LETTER' | 'LEGAL';
+
+export interface PdfLayout {
+  id: string;
+  name: string;
+  logo?: string; // PNG or JPEG data URL
+  headerText: string;
+  footerText: string;
+  fields: PdfField[]; // Shown in this order; missing fields are hidden
+  pageSize: PdfPageSize;
+  signature: {
+    enabled: boolean;
+    label: string; // e.g. "Approved by"
+    showName: boolean; // Print the reporter's name under the line
+  };
 }
 
 export interface AIMagicFillResponse {
@@ -35,11 +114,40 @@ export interface AIMagicFillResponse {
   notes: string;
 }
 
+// Structured filter Gemini extracts from a natural-language search question
+export interface AISearchResponse {
+  keywords?: string;
+  dateFrom?: string; // YYYY-MM-DD
+  dateTo?: string;
+  locations?: string[];
+  statuses?: string[];
+  intent?: 'list' | 'count' | 'totalDays' | 'totalHours';
+}
+
+// Magic Fill text captured while offline, parsed once the connection returns
+export interface PendingDraft {
+  id: string;
+  text: string;
+  createdAt: number; // Also used as "today" when the AI resolves relative dates
+  status: 'pending' | 'processing' | 'ready' | 'failed';
+  result?: AIMagicFillResponse;
+  error?: string;
+  profileId?: string; // Profile that was active when the text was queued; the mission goes to it
+}
+
+export interface EmailDraft {
+  subject: string;
+  body: string;
+}
+
 export interface UserProfile {
+  id: string;
   fullName: string;
   profession: string;
   cni: string;
   ppn: string;
+  defaultTemplateId?: string; // Template selected when switching to this profile
+  language?: Language; // Language selected when switching to this profile
 }
 
 // PWA Install Prompt Event definition
@@ -50,4 +158,126 @@ export interface BeforeInstallPromptEvent extends Event {
     platform: string;
   }>;
   prompt(): Promise<void>;
-}
\ No newline at end of file
+}
+
+// Versioned JSON snapshot of all local app data (see backup.ts)
+export interface BackupFile {
+  app: 'missionlog';
+  version: number;
+  exportedAt: string; // ISO timestamp
+  missions: Mission[];
+  settings: Omit<Settings, 'customTemplates'>;
+  templates: Template[];
+  profile: UserProfile | null; // The active profile
+  profiles?: UserProfile[]; // Every profile on the device; absent in backups from single-profile versions
+  attachments?: BackupAttachment[]; // Files of the missions; absent in version 1 backups
+}
+
+// An attachment blob as stored, base64-encoded (still gzipped if it was)
+export interface BackupAttachment {
+  id: string;
+  missionId: string;
+  type: string;
+  compression: 'none' | 'gzip';
+  data: string;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// AES-GCM ciphertext with its nonce (see lock.ts)
+export interface SealedValue {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+// App lock state, stored unencrypted next to the sealed data
+export interface LockConfig {
+  salt: Uint8Array<ArrayBuffer>; // PBKDF2 salt for the PIN
+  iterations: number;
+  pinKey: SealedValue; // Data key wrapped with the PIN-derived key
+  biometric?: {
+    credentialId: ArrayBuffer; // WebAuthn platform credential
+    prfSalt: Uint8Array<ArrayBuffer>;
+    wrappedKey: SealedValue; // Data key wrapped with the key derived from the credential's PRF output
+  };
+  autoLockMinutes: number; // 0 = never
+  wipeAfter: number; // Failed PIN attempts before all data is erased; 0 = never
+  failedAttempts: number;
+}
+
+export type SyncCollection = 'missions' | 'templates' | 'profiles' | 'settings';
+
+// A record edited on two devices between syncs. The newer edit is kept; the other is
+// kept here until the user restores or dismisses it.
+export interface SyncConflict {
+  id: string;
+  collection: SyncCollection;
+  recordId: string;
+  label: string; // Mission title, template or profile name
+  keptFrom: string; // Device name of the kept version
+  discardedFrom: string;
+  discarded: any | null; // The losing version; null when it was a deletion
+  resolvedAt: number;
+}
+
+// Sync configuration and bookkeeping for this device (see sync.ts)
+export interface SyncState {
+  serverUrl: string;
+  token: string; // Sent as a Bearer token; empty for an open server
+  deviceId: string;
+  deviceName: string;
+  lastSeq: number; // Server sequence number of the last pulled change
+  synced: Record<string, { rev: number; hash: string }>; // Last version agreed with the server, by record key
+  local: Record<string, { hash: string; changedAt: number }>; // Last version seen on this device
+  conflicts: SyncConflict[];
+  lastSyncAt?: number;
+  lastError?: string;
+}
+
+export type TeamRole = 'inspector' | 'supervisor';
+
+// As set up for the member's token on the team server
+export interface TeamMember {
+  name: string;
+  role: TeamRole;
+}
+
+export type ReviewStatus = 'submitted' | 'changes_requested' | 'approved';
+
+export interface ReviewEvent {
+  id: string;
+  type: ReviewStatus | 'comment';
+  by: string; // Member name; set by the team server from the token the event was sent with
+  role: TeamRole;
+  at: number; // Server time
+  comment?: string;
+  version?: string; // Approvals: the version of the mission content that was approved (see missionVersion)
+}
+
+export interface MissionReview {
+  status: ReviewStatus; // Follows the latest event that is not a comment
+  history: ReviewEvent[]; // Oldest first; never edited, only appended to
+}
+
+// A mission submitted for review, as stored on the team server
+export interface ReviewItem {
+  mission: Mission; // As submitted, without attachments
+  reporter: { fullName: string; profession: string; cni: string; ppn: string };
+  review: MissionReview;
+}
+
+// Team membership and review bookkeeping for this device (see team.ts)
+export interface TeamState {
+  serverUrl: string;
+  token: string;
+  role: TeamRole; // Refreshed from the server on every sync
+  memberName: string;
+  deviceId: string;
+  lastSeq: number;
+  revs: Record<string, number>; // Server revision of each review, by mission id
+  pending: string[]; // Mission ids whose review changed here and is not on the server yet
+  inbox: Record<string, ReviewItem>; // Supervisors only: every review on the team server, by mission id
+  withdrawn?: string[]; // Supervisors only: missions whose approval was dropped because the inspector changed them first
+  lastSyncAt?: number;
+  lastError?: string;
+}